@@ -10,6 +10,7 @@ import {
 } from "lucide-react";
 import { useSystemStatus } from "@/components/providers/system-status-provider";
 import { useGame } from "@/app/game/hooks/useGame";
+import { useNumberFormat } from "@/app/game/hooks/useNumberFormat";
 import Logger, { LogCategory, LogContext } from "@/app/utils/logger";
 import GameLoader from "@/app/components/GameLoader";
 import { Progress } from "@/components/ui/progress";
@@ -22,6 +23,7 @@ import { cn } from "@/lib/utils";
 import EnemyMoveList from "@/components/EnemyMoveList";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { ENEMY_ACTIONS } from "@/app/game/content/combatActions";
+import { getResourceAmount, getResourceDefinitions } from "@/app/game/utils/resources";
 
 /* -------------------------------------------------------------------------- */
 /* Types                                                                      */
@@ -43,6 +45,7 @@ interface Enemy {
 /* -------------------------------------------------------------------------- */
 export default function BattlePage() {
   const { state, dispatch, isInitializing } = useGame();
+  const format = useNumberFormat();
   const { shouldFlicker } = useSystemStatus();
   const router = useRouter();
 
@@ -70,22 +73,17 @@ export default function BattlePage() {
     return ref.current;
   }
 
-  /* -------------------------- RESOURCE READOUTS --------------------------- */
-  const { reactor, processor, crewQuarters, manufacturing } = state.categories;
-
   /* ---------------------- PLAYER RESOURCE AMOUNTS ---------------------- */
-  const resourceAmounts = {
-    energy: Math.floor(reactor.resources.energy),
-    insight: Math.floor(processor.resources.insight),
-    crew: Math.floor(crewQuarters.resources.crew),
-    scrap: Math.floor(manufacturing.resources.scrap),
-  } as const;
+  const resourceAmounts: Record<string, number> = {};
+  getResourceDefinitions().forEach(({ id }) => {
+    resourceAmounts[id] = Math.floor(getResourceAmount(state, id));
+  });
 
   const canAfford = (actionId: string) => {
     const action = PLAYER_ACTIONS[actionId];
     if (!action) return false;
     const { type, amount } = action.cost;
-    return resourceAmounts[type as keyof typeof resourceAmounts] >= amount;
+    return (resourceAmounts[type] ?? 0) >= amount;
   };
 
   /* -------------------------------- PLAYER -------------------------------- */
@@ -254,29 +252,19 @@ export default function BattlePage() {
               <div className="system-panel p-4 flex flex-col h-60">
                 <h2 className="text-lg font-medium mb-3">Dawn Status</h2>
                 <div className="grid grid-cols-2 gap-2 text-sm mb-4">
-                  <div>
-                    <span className="text-muted-foreground">Energy:</span>{" "}
-                    {resourceAmounts.energy}
-                  </div>
-                  <div>
-                    <span className="text-muted-foreground">Insight:</span>{" "}
-                    {resourceAmounts.insight}
-                  </div>
-                  <div>
-                    <span className="text-muted-foreground">Crew:</span>{" "}
-                    {resourceAmounts.crew}
-                  </div>
-                  <div>
-                    <span className="text-muted-foreground">Scrap:</span>{" "}
-                    {resourceAmounts.scrap}
-                  </div>
+                  {getResourceDefinitions().map(resource => (
+                    <div key={resource.id}>
+                      <span className="text-muted-foreground">{resource.name}:</span>{" "}
+                      {format(resourceAmounts[resource.id])}
+                    </div>
+                  ))}
                 </div>
                 <div className="mt-auto">
                   <div className="mb-4">
                     <div className="flex items-center justify-between mb-1">
                       <span>Shield Strength</span>
                       <span>
-                        {shipShield}/{maxShipShield}
+                        {format(shipShield)}/{format(maxShipShield)}
                       </span>
                     </div>
                     <Progress
@@ -292,7 +280,7 @@ export default function BattlePage() {
                     <div className="flex items-center justify-between mb-1">
                       <span>Hull Integrity</span>
                       <span>
-                        {shipHealth}/{maxShipHealth}
+                        {format(shipHealth)}/{format(maxShipHealth)}
                       </span>
                     </div>
                     <Progress
@@ -349,7 +337,7 @@ export default function BattlePage() {
                             )}
                           </div>
                           <span className="text-xs px-1.5 py-0.5 bg-chart-1/20 text-chart-1 rounded">
-                            {a.cost.amount} {a.cost.type}
+                            {format(a.cost.amount)} {a.cost.type}
                           </span>
                         </button>
                       ))}
@@ -391,7 +379,7 @@ export default function BattlePage() {
                             </span>
                           )}
                           <span className="text-xs self-start bg-chart-2/20 text-chart-2 px-1.5 py-0.5 rounded mt-auto">
-                            {a.cost.amount} {a.cost.type}
+                            {format(a.cost.amount)} {a.cost.type}
                           </span>
                         </button>
                       ))}
@@ -433,7 +421,7 @@ export default function BattlePage() {
                             </span>
                           )}
                           <span className="text-xs self-start bg-chart-3/20 text-chart-3 px-1.5 py-0.5 rounded mt-auto">
-                            {a.cost.amount} {a.cost.type}
+                            {format(a.cost.amount)} {a.cost.type}
                           </span>
                         </button>
                       ))}
@@ -475,7 +463,7 @@ export default function BattlePage() {
                             </span>
                           )}
                           <span className="text-xs self-start bg-chart-4/20 text-chart-4 px-1.5 py-0.5 rounded mt-auto">
-                            {a.cost.amount} {a.cost.type}
+                            {format(a.cost.amount)} {a.cost.type}
                           </span>
                         </button>
                       ))}
@@ -0,0 +1,33 @@
+'use client';
+
+import { AlertTriangle } from 'lucide-react';
+import { useGame } from '@/app/game/hooks/useGame';
+import { GameCategory } from '@/app/game/types/actions';
+import { getStarvedSystems } from '@/app/game/utils/upkeep';
+
+interface BrownoutNoticeProps {
+  category: GameCategory;
+}
+
+/**
+ * BrownoutNotice component
+ *
+ * Warns that a system's automation is throttled because the reactor
+ * cannot cover the energy upkeep; renders nothing otherwise
+ */
+export default function BrownoutNotice({ category }: BrownoutNoticeProps) {
+  const { state } = useGame();
+
+  if (!getStarvedSystems(state).includes(category)) {
+    return null;
+  }
+
+  const supply = Math.floor(state.categories.reactor.stats.powerSupply * 100);
+
+  return (
+    <div className="flex items-center gap-1 text-xs text-amber-400 mt-1">
+      <AlertTriangle className="h-3 w-3" />
+      Brownout: automation running at {supply}% until the reactor can cover its upkeep
+    </div>
+  );
+}
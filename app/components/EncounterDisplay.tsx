@@ -4,9 +4,6 @@ import {
   ChevronRightIcon, 
   CompassIcon, 
   Brain,
-  Zap, 
-  Users, 
-  Package,
   ShieldIcon,
   MapIcon,
   ActivityIcon,
@@ -15,33 +12,20 @@ import {
 import { EmptyEncounter, StoryEncounter, ResourceReward, RegionType, BaseEncounter, EncounterChoice } from '../game/types';
 import { useSystemStatus } from "@/components/providers/system-status-provider";
 import { useGame } from '../game/hooks/useGame';
+import { useNumberFormat } from '../game/hooks/useNumberFormat';
 import { useRouter } from 'next/navigation';
 import Logger, { LogCategory, LogContext } from '@/app/utils/logger';
+import ResourceIcon, { getResourceColor } from './ResourceIcon';
+import { getResourceDefinition } from '../game/utils/resources';
 
 interface EncounterDisplayProps {
   encounter: BaseEncounter;
   onComplete: (choiceId?: string) => void;
 }
 
-// Helper function to get the appropriate icon for resource types
-const getResourceIcon = (type: string) => {
-  switch (type) {
-    case 'energy':
-      return <Zap className="h-5 w-5 text-chart-1" />;
-    case 'insight':
-      return <Brain className="h-5 w-5 text-chart-2" />;
-    case 'crew':
-      return <Users className="h-5 w-5 text-chart-3" />;
-    case 'scrap':
-      return <Package className="h-5 w-5 text-chart-4" />;
-    default:
-      return <AwardIcon className="h-5 w-5 text-primary" />;
-  }
-};
-
 // Helper function to format resource names for display
 const formatResourceName = (type: string) => {
-  return type.charAt(0).toUpperCase() + type.slice(1);
+  return getResourceDefinition(type)?.name || type.charAt(0).toUpperCase() + type.slice(1);
 };
 
 // Get background class based on region
@@ -83,6 +67,7 @@ const getRegionIcon = (region: RegionType) => {
 const EncounterDisplay: React.FC<EncounterDisplayProps> = ({ encounter, onComplete }) => {
   const { shouldFlicker } = useSystemStatus();
   const { dispatch } = useGame();
+  const format = useNumberFormat();
   const router = useRouter();
   const regionIcon = getRegionIcon(encounter.region);
   const regionClass = getRegionBackgroundClass(encounter.region);
@@ -271,24 +256,12 @@ const EncounterDisplay: React.FC<EncounterDisplayProps> = ({ encounter, onComple
                     {outcomeResources.map((reward: ResourceReward, index: number) => (
                       <div key={index} className="flex flex-col gap-3">
                         <div className="flex items-center gap-3 p-3 system-panel hover:bg-accent/10 transition-colors">
-                          <div className={`p-2 rounded-full ${
-                            reward.type === 'energy' ? 'bg-chart-1/10' : 
-                            reward.type === 'insight' ? 'bg-chart-2/10' : 
-                            reward.type === 'crew' ? 'bg-chart-3/10' : 
-                            reward.type === 'scrap' ? 'bg-chart-4/10' : 
-                            'bg-accent/10'
-                          }`}>
-                            {getResourceIcon(reward.type)}
+                          <div className="p-2 rounded-full" style={{ backgroundColor: getResourceColor(reward.type, 0.1) }}>
+                            <ResourceIcon id={reward.type} />
                           </div>
                           <div>
-                            <div className={`text-lg font-medium ${
-                              reward.type === 'energy' ? 'text-chart-1' : 
-                              reward.type === 'insight' ? 'text-chart-2' : 
-                              reward.type === 'crew' ? 'text-chart-3' : 
-                              reward.type === 'scrap' ? 'text-chart-4' : 
-                              'text-primary'
-                            }`}>{formatResourceName(reward.type)}</div>
-                            <div className="text-muted-foreground">{reward.amount > 0 ? `+${reward.amount}` : reward.amount} units</div>
+                            <div className="text-lg font-medium" style={{ color: getResourceColor(reward.type) }}>{formatResourceName(reward.type)}</div>
+                            <div className="text-muted-foreground">{reward.amount > 0 ? '+' : ''}{format(reward.amount)} units</div>
                           </div>
                         </div>
                         {reward.message && (
@@ -316,24 +289,12 @@ const EncounterDisplay: React.FC<EncounterDisplayProps> = ({ encounter, onComple
                   {emptyEncounter!.resources!.map((reward: ResourceReward, index: number) => (
                     <div key={index} className="flex flex-col gap-3">
                       <div className="flex items-center gap-3 p-3 system-panel hover:bg-accent/10 transition-colors">
-                        <div className={`p-2 rounded-full ${
-                          reward.type === 'energy' ? 'bg-chart-1/10' : 
-                          reward.type === 'insight' ? 'bg-chart-2/10' : 
-                          reward.type === 'crew' ? 'bg-chart-3/10' : 
-                          reward.type === 'scrap' ? 'bg-chart-4/10' : 
-                          'bg-accent/10'
-                        }`}>
-                          {getResourceIcon(reward.type)}
+                        <div className="p-2 rounded-full" style={{ backgroundColor: getResourceColor(reward.type, 0.1) }}>
+                          <ResourceIcon id={reward.type} />
                         </div>
                         <div>
-                          <div className={`text-lg font-medium ${
-                            reward.type === 'energy' ? 'text-chart-1' : 
-                            reward.type === 'insight' ? 'text-chart-2' : 
-                            reward.type === 'crew' ? 'text-chart-3' : 
-                            reward.type === 'scrap' ? 'text-chart-4' : 
-                            'text-primary'
-                          }`}>{formatResourceName(reward.type)}</div>
-                          <div className="text-muted-foreground">+{reward.amount} units</div>
+                          <div className="text-lg font-medium" style={{ color: getResourceColor(reward.type) }}>{formatResourceName(reward.type)}</div>
+                          <div className="text-muted-foreground">+{format(reward.amount)} units</div>
                         </div>
                       </div>
                       {reward.message && (
@@ -0,0 +1,99 @@
+'use client';
+
+import { useGame } from '@/app/game/hooks/useGame';
+import { useNumberNotation } from '@/app/game/hooks/useNumberFormat';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { BookOpen, Clock } from 'lucide-react';
+import ResourceIcon from '@/app/components/ResourceIcon';
+import { formatResourceAmount, getResourceDefinition } from '@/app/game/utils/resources';
+
+/**
+ * Format a duration in seconds as "2h 15m" / "4m 10s"
+ */
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${Math.floor(seconds % 60)}s`;
+  return `${Math.floor(seconds)}s`;
+}
+
+/**
+ * OfflineProgressDialog component
+ *
+ * Shows a "while you were away" summary after the engine has
+ * simulated the time that passed since the last save
+ */
+export default function OfflineProgressDialog() {
+  const { offlineReport, dismissOfflineReport, isInitializing } = useGame();
+  const [numberNotation] = useNumberNotation();
+
+  if (!offlineReport || isInitializing) {
+    return null;
+  }
+
+  const gains = Object.entries(offlineReport.resourcesGained);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && dismissOfflineReport()}>
+      <DialogContent className="system-panel w-[90vw] sm:w-[440px]">
+        <DialogHeader>
+          <DialogTitle className="terminal-text flex items-center gap-2">
+            <Clock className="h-5 w-5 text-primary" />
+            While You Were Away
+          </DialogTitle>
+          <DialogDescription>
+            Ship systems kept running for {formatDuration(offlineReport.simulatedSeconds)}
+            {offlineReport.wasCapped && (
+              <> (of {formatDuration(offlineReport.elapsedSeconds)} away, the maximum that can be recovered)</>
+            )}
+            .
+          </DialogDescription>
+        </DialogHeader>
+
+        {gains.length > 0 && (
+          <div className="space-y-2">
+            {gains.map(([resource, amount]) => (
+              <div key={resource} className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-2 text-muted-foreground">
+                  <ResourceIcon id={resource} className="h-4 w-4" />
+                  {getResourceDefinition(resource)?.name || resource}
+                </span>
+                <span className="font-mono text-primary">
+                  +{formatResourceAmount(resource, amount, numberNotation)}
+                  {offlineReport.capsReached.includes(resource) && (
+                    <span className="ml-2 text-xs text-yellow-500">(storage full)</span>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {offlineReport.logsUnlocked.length > 0 && (
+          <div className="space-y-1 border-t border-border pt-3">
+            <div className="text-xs text-muted-foreground">New logs recovered</div>
+            {offlineReport.logsUnlocked.map(log => (
+              <div key={log.id} className="flex items-center gap-2 text-sm">
+                <BookOpen className="h-4 w-4 text-primary" />
+                <span>{log.title}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={dismissOfflineReport}>Resume</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useState } from 'react';
+import { Cpu, Factory, Shield, Users, type LucideIcon } from 'lucide-react';
+import { Slider } from '@/components/ui/slider';
+import { useGame } from '@/app/game/hooks/useGame';
+import { PowerAllocation, PowerSystem } from '@/app/game/types';
+import { POWER_PRESETS } from '@/app/game/content/powerPresets';
+import { getRoutingFactor, POWER_SYSTEMS, setSystemShare } from '@/app/game/utils/powerRouting';
+
+const SYSTEMS: Record<PowerSystem, { name: string; icon: LucideIcon }> = {
+  processor: { name: 'Processor', icon: Cpu },
+  crewQuarters: { name: 'Crew Quarters', icon: Users },
+  manufacturing: { name: 'Manufacturing', icon: Factory },
+  shields: { name: 'Shields', icon: Shield }
+};
+
+/**
+ * PowerRoutingPanel component
+ *
+ * Divides the reactor's output between ship systems, by preset or by
+ * hand. Sliders only dispatch once released, so dragging one does not
+ * flood the action journal.
+ */
+export default function PowerRoutingPanel() {
+  const { state, dispatch } = useGame();
+  const [draft, setDraft] = useState<PowerAllocation | null>(null);
+
+  const { activePreset } = state.power;
+  const allocation = draft ?? state.power.allocation;
+
+  const changeShare = (system: PowerSystem, percent: number) => {
+    setDraft(setSystemShare(allocation, system, percent / 100));
+  };
+
+  const commitShare = (system: PowerSystem, percent: number) => {
+    const next = setSystemShare(state.power.allocation, system, percent / 100);
+    dispatch({ type: 'SET_POWER_ALLOCATION', payload: { allocation: next } });
+    setDraft(null);
+  };
+
+  return (
+    <div className="system-panel p-4 mb-8">
+      <div className="flex items-center justify-between mb-3">
+        <span className="terminal-text">Power Routing</span>
+        <span className="text-xs text-muted-foreground">
+          {activePreset ? POWER_PRESETS[activePreset]?.name : 'Custom'}
+        </span>
+      </div>
+
+      {/* Presets */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-4">
+        {Object.values(POWER_PRESETS).map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => dispatch({ type: 'SET_POWER_ALLOCATION', payload: { preset: preset.id } })}
+            className={`system-panel px-2 py-1 text-xs hover:bg-accent/10 transition-colors ${
+              activePreset === preset.id ? 'border-primary text-primary' : ''
+            }`}
+            title={preset.description}
+          >
+            {preset.name}
+          </button>
+        ))}
+      </div>
+
+      {/* Sliders */}
+      <div className="space-y-3">
+        {POWER_SYSTEMS.map(system => {
+          const { name, icon: Icon } = SYSTEMS[system];
+          const share = allocation[system];
+          const factor = getRoutingFactor(state, system, allocation);
+
+          return (
+            <div key={system}>
+              <div className="flex items-center justify-between text-xs mb-1">
+                <span className="flex items-center gap-1">
+                  <Icon className="h-3 w-3" />
+                  {name}
+                </span>
+                <span className="font-mono">
+                  {Math.round(share * 100)}% (x{factor.toFixed(2)})
+                </span>
+              </div>
+              <Slider
+                value={[Math.round(share * 100)]}
+                min={0}
+                max={100}
+                step={5}
+                onValueChange={([percent]) => changeShare(system, percent)}
+                onValueCommit={([percent]) => commitShare(system, percent)}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Saving */}
+      <div className="flex flex-wrap items-center gap-2 mt-4 text-xs text-muted-foreground">
+        <span>Save routing as:</span>
+        {Object.values(POWER_PRESETS).map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => dispatch({ type: 'SAVE_POWER_PRESET', payload: { preset: preset.id } })}
+            className="underline hover:text-primary"
+          >
+            {preset.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
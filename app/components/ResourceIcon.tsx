@@ -0,0 +1,42 @@
+'use client';
+
+import { AwardIcon, Cpu, Package, Users, Zap, type LucideIcon } from 'lucide-react';
+import { getResourceDefinition } from '@/app/game/utils/resources';
+
+/**
+ * Icons that resource definitions can name
+ * Only listed icons are bundled; add an entry when a resource needs a new one
+ */
+const ICONS: Record<string, LucideIcon> = {
+  Zap,
+  Cpu,
+  Users,
+  Package
+};
+
+/**
+ * Colour of a resource as a CSS value, e.g. for `style={{ color }}`
+ * @param alpha Opacity from 0 to 1
+ */
+export function getResourceColor(id: string, alpha: number = 1): string {
+  const color = getResourceDefinition(id)?.color;
+  if (!color) return alpha < 1 ? `hsl(var(--primary) / ${alpha})` : 'hsl(var(--primary))';
+  return alpha < 1 ? `hsl(var(--${color}) / ${alpha})` : `hsl(var(--${color}))`;
+}
+
+interface ResourceIconProps {
+  id: string;
+  className?: string;
+}
+
+/**
+ * ResourceIcon component
+ *
+ * The icon of a resource in its colour, as given by its definition
+ */
+export default function ResourceIcon({ id, className = 'h-5 w-5' }: ResourceIconProps) {
+  const definition = getResourceDefinition(id);
+  const Icon = (definition && ICONS[definition.icon]) || AwardIcon;
+
+  return <Icon className={className} style={{ color: getResourceColor(id) }} />;
+}
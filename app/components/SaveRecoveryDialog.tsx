@@ -0,0 +1,72 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useGame } from '@/app/game/hooks/useGame';
+import { SaveRecovery } from '@/app/game/core/SaveSystem';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ShieldAlert } from 'lucide-react';
+
+/**
+ * SaveRecoveryDialog component
+ *
+ * Tells the player that their save was damaged and whether it was
+ * replaced by a backup, so lost progress never goes unexplained
+ */
+export default function SaveRecoveryDialog() {
+  const { engine, isInitializing } = useGame();
+  const [recovery, setRecovery] = useState<SaveRecovery | null>(null);
+
+  useEffect(() => {
+    setRecovery(engine.getSaveRecovery());
+    return engine.eventBus.on('saveRecovered', setRecovery);
+  }, [engine]);
+
+  if (!recovery || isInitializing) {
+    return null;
+  }
+
+  const dismiss = () => {
+    engine.clearSaveRecovery();
+    setRecovery(null);
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && dismiss()}>
+      <DialogContent className="system-panel w-[90vw] sm:w-[440px]">
+        <DialogHeader>
+          <DialogTitle className="terminal-text flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5 text-yellow-500" />
+            Memory Bank Damaged
+          </DialogTitle>
+          <DialogDescription>
+            {recovery.restoredFrom !== null ? (
+              <>
+                The save could not be read, so it was restored from the backup
+                of {new Date(recovery.restoredFrom).toLocaleString()}. Progress made after that is lost.
+              </>
+            ) : (
+              <>
+                The save could not be read and no usable backup was found. A new memory bank was started;
+                the damaged one is kept in the Save Manager.
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <p className="text-xs text-muted-foreground font-mono">{recovery.reason}</p>
+
+        <DialogFooter>
+          <Button onClick={dismiss}>Acknowledge</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
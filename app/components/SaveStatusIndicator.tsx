@@ -0,0 +1,55 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useGame } from '@/app/game/hooks/useGame';
+import { SaveStatusInfo } from '@/app/game/core/SaveSystem';
+import { AlertTriangle, Check, Loader2 } from 'lucide-react';
+
+/**
+ * SaveStatusIndicator component
+ *
+ * One line telling the player whether their progress is stored:
+ * saving, saved (with the time of the last save) or failed
+ */
+export default function SaveStatusIndicator() {
+  const { engine } = useGame();
+  const [status, setStatus] = useState<SaveStatusInfo>(() => engine.getSaveStatus());
+
+  useEffect(() => {
+    setStatus(engine.getSaveStatus());
+    return engine.eventBus.on('saveStatus', setStatus);
+  }, [engine]);
+
+  const lastSaved = status.lastSaved
+    ? new Date(status.lastSaved).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : null;
+
+  if (status.status === 'failed') {
+    return (
+      <div className="flex items-center justify-center gap-1 text-xs text-red-400" title={status.error}>
+        <AlertTriangle className="h-3 w-3" />
+        Save failed{lastSaved && ` (last saved ${lastSaved})`}
+      </div>
+    );
+  }
+
+  if (status.status === 'saving') {
+    return (
+      <div className="flex items-center justify-center gap-1 text-xs text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Saving...
+      </div>
+    );
+  }
+
+  if (!lastSaved) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center justify-center gap-1 text-xs text-muted-foreground">
+      <Check className="h-3 w-3 text-primary" />
+      Saved {lastSaved}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { ReactNode } from 'react';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { useGame } from '@/app/game/hooks/useGame';
+import { useNumberFormat } from '@/app/game/hooks/useNumberFormat';
+import { StatModifier } from '@/app/game/types';
+import { getStatBreakdown } from '@/app/game/core/StatModifiers';
+
+interface StatBreakdownTooltipProps {
+  stat: string; // dot path of a stat in STAT_DEFINITIONS
+  children: ReactNode;
+}
+
+const formatModifier = (modifier: StatModifier, format: (value: number, decimals?: number) => string) => {
+  switch (modifier.type) {
+    case 'flat':
+      return `${modifier.value >= 0 ? '+' : '-'}${format(Math.abs(modifier.value), 2)}`;
+    case 'percent':
+      return `${modifier.value >= 0 ? '+' : '-'}${format(Math.abs(modifier.value) * 100)}%`;
+    default:
+      return `x${format(modifier.value, 2)}`;
+  }
+};
+
+/**
+ * StatBreakdownTooltip component
+ *
+ * Wraps a stat's display and explains on hover where its value comes
+ * from: the base, each modifier in the order it is applied, and the total.
+ */
+export default function StatBreakdownTooltip({ stat, children }: StatBreakdownTooltipProps) {
+  const { state } = useGame();
+  const format = useNumberFormat();
+  const breakdown = getStatBreakdown(state, stat);
+
+  if (!breakdown) return <>{children}</>;
+
+  return (
+    <TooltipProvider delayDuration={200}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span className="cursor-help">{children}</span>
+        </TooltipTrigger>
+        <TooltipContent className="text-xs font-mono">
+          <div className="terminal-text mb-1">{breakdown.label}</div>
+          <div className="flex justify-between gap-4">
+            <span>Base</span>
+            <span>{format(breakdown.base, 2)}</span>
+          </div>
+          {breakdown.modifiers.map((modifier, index) => (
+            <div key={`${modifier.source}-${index}`} className="flex justify-between gap-4 text-muted-foreground">
+              <span>{modifier.label}</span>
+              <span>{formatModifier(modifier, format)}</span>
+            </div>
+          ))}
+          <div className="flex justify-between gap-4 border-t border-border mt-1 pt-1">
+            <span>Total</span>
+            <span>{format(breakdown.value, 2)}</span>
+          </div>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
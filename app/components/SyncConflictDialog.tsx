@@ -0,0 +1,120 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useGame } from '@/app/game/hooks/useGame';
+import { SyncConflict, SyncSide } from '@/app/game/core/SaveSync';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Cloud, HardDrive } from 'lucide-react';
+
+/**
+ * Format a play time in seconds as "2h 15m" / "4m 10s"
+ */
+function formatPlayTime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${Math.floor(seconds % 60)}s`;
+}
+
+function SideSummary({ side, label, icon, suggested }: {
+  side: SyncSide;
+  label: string;
+  icon: React.ReactNode;
+  suggested: boolean;
+}) {
+  return (
+    <div className={`flex-1 rounded border p-3 text-sm ${suggested ? 'border-primary/60' : 'border-border'}`}>
+      <div className="flex items-center gap-2 text-primary font-semibold mb-2">
+        {icon}
+        {label}
+      </div>
+      <div className="space-y-1 text-xs text-muted-foreground">
+        <div>Play time: <span className="text-foreground">{formatPlayTime(side.playTime)}</span></div>
+        <div>Saved: <span className="text-foreground">{new Date(side.timestamp).toLocaleString()}</span></div>
+        <div className="capitalize">Region: <span className="text-foreground">{side.region}</span></div>
+        {suggested && <div className="text-primary">Further along</div>}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * SyncConflictDialog component
+ *
+ * Asks the player which copy to keep when a save changed both on this
+ * device and in the cloud since they were last synced
+ */
+export default function SyncConflictDialog() {
+  const { engine, isInitializing } = useGame();
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    setConflicts(engine.getSyncConflicts());
+    return engine.eventBus.on('cloudSync', () => setConflicts(engine.getSyncConflicts()));
+  }, [engine]);
+
+  const conflict = conflicts[0];
+  if (!conflict || isInitializing) {
+    return null;
+  }
+
+  const keep = async (side: 'local' | 'remote') => {
+    setBusy(true);
+    try {
+      await engine.resolveSyncConflict(conflict.saveId, side);
+    } finally {
+      setConflicts(engine.getSyncConflicts());
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && setConflicts([])}>
+      <DialogContent className="system-panel w-[90vw] sm:w-[520px]">
+        <DialogHeader>
+          <DialogTitle className="terminal-text">Memory Bank Conflict</DialogTitle>
+          <DialogDescription>
+            &quot;{conflict.local.name}&quot; changed on this device and in the cloud. Choose which copy to keep;
+            the other is overwritten. Deciding later keeps both until the next sync.
+            {conflicts.length > 1 && ` (${conflicts.length - 1} more after this one)`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <SideSummary
+            side={conflict.local}
+            label="This device"
+            icon={<HardDrive className="h-4 w-4" />}
+            suggested={conflict.suggested === 'local'}
+          />
+          <SideSummary
+            side={conflict.remote}
+            label="Cloud"
+            icon={<Cloud className="h-4 w-4" />}
+            suggested={conflict.suggested === 'remote'}
+          />
+        </div>
+
+        <div className="flex gap-2 justify-end">
+          <Button variant="ghost" disabled={busy} onClick={() => setConflicts([])}>
+            Decide later
+          </Button>
+          <Button variant={conflict.suggested === 'local' ? 'default' : 'outline'} disabled={busy} onClick={() => keep('local')}>
+            Keep this device
+          </Button>
+          <Button variant={conflict.suggested === 'remote' ? 'default' : 'outline'} disabled={busy} onClick={() => keep('remote')}>
+            Keep cloud
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useGame } from '@/app/game/hooks/useGame';
+import { Button } from '@/components/ui/button';
+import { MonitorSmartphone, Loader2 } from 'lucide-react';
+
+/**
+ * TabOwnershipOverlay component
+ *
+ * Covers the game while it runs in another tab, leaving the last save
+ * visible but out of reach, and offers to move the game to this tab
+ */
+export default function TabOwnershipOverlay() {
+  const { engine } = useGame();
+  const [isActive, setIsActive] = useState(true);
+  const [takingOver, setTakingOver] = useState(false);
+
+  useEffect(() => {
+    setIsActive(engine.isActiveTab());
+    return engine.eventBus.on('tabOwnership', ({ isOwner }) => setIsActive(isOwner));
+  }, [engine]);
+
+  if (isActive) {
+    return null;
+  }
+
+  const takeOver = async () => {
+    setTakingOver(true);
+    try {
+      await engine.takeOver();
+    } finally {
+      setTakingOver(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
+      <div className="system-panel w-[90vw] sm:w-[420px] p-6 space-y-4 text-center">
+        <h2 className="terminal-text flex items-center justify-center gap-2 text-lg">
+          <MonitorSmartphone className="h-5 w-5 text-primary" />
+          Active in Another Tab
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          Derelict Dawn is running in another tab. This one shows your last save and is read-only.
+          Playing here saves and stops the other tab first.
+        </p>
+        <Button onClick={takeOver} disabled={takingOver}>
+          {takingOver && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Play here
+        </Button>
+      </div>
+    </div>
+  );
+}
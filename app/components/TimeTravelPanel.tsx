@@ -0,0 +1,132 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useGame } from '@/app/game/hooks/useGame';
+import { diffStates } from '@/app/game/core/StateHistory';
+import { Button } from '@/components/ui/button';
+import { GitCompare, History, Pause, Play, Redo2, Undo2, X } from 'lucide-react';
+
+/**
+ * Short, single-line rendering of a value in a diff
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—';
+  if (typeof value === 'number') return value % 1 === 0 ? String(value) : value.toFixed(2);
+  const text = JSON.stringify(value);
+  return text.length > 40 ? `${text.slice(0, 37)}...` : text;
+}
+
+/**
+ * TimeTravelPanel component
+ *
+ * Development-only timeline of the snapshots recorded per action.
+ * Step backwards and forwards, jump to any entry (the next action
+ * branches from there) and diff any entry against the current one.
+ */
+export default function TimeTravelPanel() {
+  const { engine } = useGame();
+  const [open, setOpen] = useState(false);
+  const [compareId, setCompareId] = useState<number | null>(null);
+  const [, setVersion] = useState(0);
+
+  // Re-render whenever the timeline moves
+  useEffect(() => {
+    return engine.eventBus.on('historyChanged', () => setVersion(v => v + 1));
+  }, [engine]);
+
+  const history = engine.getHistory();
+  if (!history) {
+    return null;
+  }
+
+  if (!open) {
+    return (
+      <Button
+        variant="outline"
+        size="icon"
+        className="fixed bottom-4 right-4 z-50"
+        onClick={() => setOpen(true)}
+        title="Time travel"
+      >
+        <History />
+      </Button>
+    );
+  }
+
+  const entries = history.getEntries();
+  const current = history.getCurrent();
+  const compared = compareId !== null ? history.get(compareId) : null;
+  const changes = compared && current ? diffStates(compared.state, current.state) : [];
+  const paused = engine.isSimulationPaused();
+
+  const togglePaused = () => {
+    engine.setSimulationPaused(!paused);
+    setVersion(v => v + 1);
+  };
+
+  return (
+    <div className="system-panel fixed bottom-4 right-4 z-50 flex max-h-[70vh] w-[360px] flex-col gap-3 p-3 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="terminal-text flex items-center gap-2 text-sm">
+          <History className="h-4 w-4" />
+          Timeline ({entries.length})
+        </span>
+        <div className="flex gap-1">
+          <Button size="sm" variant="ghost" onClick={() => engine.undo()} disabled={!history.canUndo()} title="Undo">
+            <Undo2 />
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => engine.redo()} disabled={!history.canRedo()} title="Redo">
+            <Redo2 />
+          </Button>
+          <Button size="sm" variant="ghost" onClick={togglePaused} title={paused ? 'Resume simulation' : 'Pause simulation'}>
+            {paused ? <Play /> : <Pause />}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setOpen(false)} title="Close">
+            <X />
+          </Button>
+        </div>
+      </div>
+
+      <div className="min-h-0 flex-1 space-y-1 overflow-y-auto">
+        {[...entries].reverse().map(entry => (
+          <div
+            key={entry.id}
+            className={`flex items-center justify-between rounded px-2 py-1 ${
+              entry.id === current?.id ? 'bg-primary/20 text-primary' : 'hover:bg-accent'
+            }`}
+          >
+            <button className="flex-1 truncate text-left font-mono" onClick={() => engine.travelTo(entry.id)}>
+              #{entry.id} {entry.label}
+              {entry.parentId !== null && entry.parentId !== entry.id - 1 && (
+                <span className="ml-1 text-muted-foreground">(branch of #{entry.parentId})</span>
+              )}
+            </button>
+            <button
+              className={compareId === entry.id ? 'text-primary' : 'text-muted-foreground'}
+              onClick={() => setCompareId(compareId === entry.id ? null : entry.id)}
+              title="Diff against current"
+            >
+              <GitCompare className="h-3 w-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {compared && current && (
+        <div className="max-h-40 space-y-1 overflow-y-auto border-t border-border pt-2">
+          <div className="text-muted-foreground">
+            #{compared.id} → #{current.id}: {changes.length} change{changes.length === 1 ? '' : 's'}
+          </div>
+          {changes.map(change => (
+            <div key={change.path} className="font-mono">
+              <div className="truncate">{change.path}</div>
+              <div className="pl-2 text-muted-foreground">
+                {formatValue(change.before)} → <span className="text-primary">{formatValue(change.after)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,13 +6,17 @@ import { Progress } from "@/components/ui/progress"
 import { useSystemStatus } from "@/components/providers/system-status-provider"
 import Logger, { LogCategory, LogContext } from "@/app/utils/logger"
 import { useCrewQuarters } from "@/app/game/hooks/useCrewQuarters"
+import { useNumberFormat } from "@/app/game/hooks/useNumberFormat"
 import GameLoader from '@/app/components/GameLoader';
+import BrownoutNotice from '@/app/components/BrownoutNotice';
+import StatBreakdownTooltip from '@/app/components/StatBreakdownTooltip';
 
 export default function CrewQuartersPage() {
   const { shouldFlicker } = useSystemStatus()
   
   // Use our specialized hook instead of directly using useGame
   const crewQuarters = useCrewQuarters()
+  const format = useNumberFormat()
   
   // Log component render
   Logger.debug(
@@ -42,7 +46,9 @@ export default function CrewQuartersPage() {
                   <Users className="h-5 w-5 text-chart-3 mr-2" />
                   <span className="terminal-text">{crewQuarters.texts.crewMembersLabel}</span>
                 </div>
-                <span className="font-mono">{crewQuarters.formattedCrewCount} / {crewQuarters.crewCapacity}</span>
+                <StatBreakdownTooltip stat="categories.crewQuarters.stats.crewCapacity">
+                  <span className="font-mono">{crewQuarters.formattedCrewCount} / {format(crewQuarters.crewCapacity)}</span>
+                </StatBreakdownTooltip>
               </div>
               <div className="relative h-2">
                 {/* Base progress bar for current crew */}
@@ -65,7 +71,9 @@ export default function CrewQuartersPage() {
               </div>
               <div className="text-xs text-muted-foreground mt-1 flex justify-between">
                 {crewQuarters.crewPerSecond > 0 && (
-                  <span>+{crewQuarters.crewPerSecond.toFixed(1)} awakening progress per second</span>
+                  <StatBreakdownTooltip stat="categories.crewQuarters.stats.crewPerSecond">
+                    <span>+{format(crewQuarters.crewPerSecond, 1)} awakening progress per second</span>
+                  </StatBreakdownTooltip>
                 )}
                 {crewQuarters.awakeningProgress > 0 && (
                   <span className="font-mono text-amber-400">
@@ -73,6 +81,7 @@ export default function CrewQuartersPage() {
                   </span>
                 )}
               </div>
+              <BrownoutNotice category="crewQuarters" />
             </div>
             
             {/* Manual button */}
@@ -116,7 +125,7 @@ export default function CrewQuartersPage() {
                     <Home className="h-5 w-5 text-chart-3 mr-2" />
                     <span>Additional Quarters</span>
                   </div>
-                  <span className="font-mono text-xs">{crewQuarters.quartersCost} Crew</span>
+                  <span className="font-mono text-xs">{format(crewQuarters.quartersCost)} Crew</span>
                 </div>
                 <p className="text-xs text-muted-foreground">
                   {crewQuarters.additionalQuartersDescription}
@@ -137,7 +146,7 @@ export default function CrewQuartersPage() {
                       <Wrench className="h-5 w-5 text-chart-3 mr-2" />
                       <span>Worker Crew</span>
                     </div>
-                    <span className="font-mono text-xs">{crewQuarters.workerCrewCost} Crew</span>
+                    <span className="font-mono text-xs">{format(crewQuarters.workerCrewCost)} Crew</span>
                   </div>
                   <p className="text-xs text-muted-foreground">
                     {crewQuarters.workerCrewsDescription}
@@ -19,6 +19,8 @@ export const CrewQuartersConstants = {
   AWAKENING_THRESHOLD: 10,
   CREW_PER_CLICK: 1,
   WORKER_CREW_PRODUCTION_RATE: 1.0,
+  // Energy each worker crew draws per second
+  WORKER_CREW_ENERGY_UPKEEP: 0.5,
   
   // Cost multipliers
   QUARTERS_COST_MULTIPLIER: 0.6,
@@ -46,6 +48,8 @@ export const ProcessorConstants = {
   INSIGHT_CAPACITY_MULTIPLIER: 1.5,
   INSIGHT_PER_CLICK: 0.5,
   INSIGHT_PER_THREAD: 0.2,
+  // Energy each processing thread draws per second
+  THREAD_ENERGY_UPKEEP: 0.25,
   
   EXPANSION_COST_MULTIPLIER: 0.7,
   THREAD_COST_BASE: 15
@@ -59,7 +63,142 @@ export const ManufacturingConstants = {
   SCRAP_CAPACITY_MULTIPLIER: 1.5,
   SCRAP_PER_CLICK: 1,
   SCRAP_PER_BAY: 0.5,
+  // Energy each manufacturing bay draws per second
+  BAY_ENERGY_UPKEEP: 0.4,
   
   EXPANSION_COST_MULTIPLIER: 0.5,
   BAY_COST_BASE: 25
-}; 
\ No newline at end of file
+}; 
+/**
+ * Offline progress related constants
+ */
+export const OfflineProgressConstants = {
+  // Absences shorter than this are treated as a normal reload
+  MIN_OFFLINE_SECONDS: 5,
+  // Maximum amount of time simulated on load (8 hours)
+  MAX_OFFLINE_SECONDS: 8 * 60 * 60,
+  // Size of each simulated step
+  CHUNK_SECONDS: 60
+};
+
+/**
+ * Simulation loop related constants
+ */
+export const GameLoopConstants = {
+  // Length of one fixed simulation step (20 steps per second)
+  STEP_SECONDS: 0.05,
+  // Steps allowed per frame before the backlog is dropped (one minute)
+  MAX_STEPS_PER_FRAME: 1200,
+  // Frame interval used while the tab is hidden or outside the browser
+  FALLBACK_INTERVAL_MS: 250
+};
+
+/**
+ * Action middleware related constants
+ */
+export const ActionMiddlewareConstants = {
+  // Resource clicks allowed per window; anything faster is treated as click spam
+  MAX_CLICKS_PER_WINDOW: 20,
+  // Length of the rate limiting window
+  CLICK_WINDOW_MS: 1000
+};
+
+/**
+ * Event bus related constants
+ */
+export const EventBusConstants = {
+  // Minimum time between two stateUpdated deliveries (the last one is never dropped)
+  STATE_UPDATE_INTERVAL_MS: 50,
+  // Number of delivered events kept for debugging
+  HISTORY_SIZE: 100
+};
+
+/**
+ * Action journal related constants
+ */
+export const JournalConstants = {
+  // Entries kept before the journal restarts from the current state
+  MAX_ENTRIES: 10000,
+  // Game time is re-synced to the wall clock when it drifts further than this
+  MAX_CLOCK_DRIFT_MS: 1000
+};
+
+/**
+ * Time travel (undo/redo) related constants
+ */
+export const HistoryConstants = {
+  // Snapshots kept on the timeline before the oldest are dropped
+  MAX_ENTRIES: 200
+};
+
+/**
+ * Cloud save related constants
+ */
+export const CloudSaveConstants = {
+  // Attempts after the first failed request (network errors, 429 and 5xx only)
+  MAX_RETRIES: 3,
+  // Delay before the first retry; doubles with every further attempt
+  RETRY_BASE_DELAY_MS: 500,
+  // Time after a save before it is synced; saves made meanwhile go up with it
+  SYNC_DELAY_MS: 30000
+};
+
+/**
+ * Autosave related constants
+ */
+export const AutoSaveConstants = {
+  // How often changes are written while playing
+  INTERVAL_MS: 5000,
+  // Quiet time after an important action (upgrade, end of combat) before it is saved
+  DEBOUNCE_MS: 500
+};
+
+/**
+ * Save backup related constants
+ */
+export const BackupConstants = {
+  // Good snapshots kept per slot; the oldest is dropped first
+  MAX_BACKUPS: 5,
+  // Minimum save time between two backups of a slot (5 minutes)
+  INTERVAL_MS: 5 * 60 * 1000
+};
+
+/**
+ * Tab coordination related constants
+ */
+export const TabConstants = {
+  // How long a new tab waits for the owning tab to answer before it takes over
+  RESPONSE_TIMEOUT_MS: 250,
+  // How long a takeover waits for the owning tab's final save
+  HANDOVER_TIMEOUT_MS: 3000
+};
+
+/**
+ * Save size related constants
+ */
+export const SaveBudgetConstants = {
+  // Saves larger than this are reported with their biggest sections (64 KB)
+  MAX_SAVE_BYTES: 64 * 1024,
+  // Encounters kept one by one; older ones are folded into the summary
+  RECENT_ENCOUNTERS: 50,
+  // Battle log entries kept in a save made during combat (none outside combat)
+  SAVED_BATTLE_LOG_ENTRIES: 10
+};
+
+/**
+ * Combat related constants
+ */
+export const CombatConstants = {
+  // The Dawn's maximum hull before modifiers
+  BASE_HULL: 100,
+  // The Dawn's maximum shield before modifiers; scales with the power routed to shields
+  BASE_SHIELD_CAPACITY: 50
+};
+
+/**
+ * Power routing related constants
+ */
+export const PowerRoutingConstants = {
+  // Fastest a system can run, relative to its rate with an equal share
+  MAX_OVERDRIVE: 2
+};
@@ -0,0 +1,64 @@
+import {
+  CombatConstants,
+  CrewQuartersConstants,
+  ManufacturingConstants,
+  ProcessorConstants,
+  ReactorConstants
+} from './gameConstants';
+
+export interface StatDefinition {
+  label: string; // shown as the title of the stat breakdown
+  base: number; // value before any modifier
+  limits?: string; // dot path to a current value that may not exceed the stat
+}
+
+/**
+ * Every derived stat, keyed by its dot path in GameState
+ *
+ * Stats listed here are recomputed from their base and modifiers on every
+ * update (see app/game/core/StatModifiers.ts); nothing else should write them.
+ */
+export const STAT_DEFINITIONS: Record<string, StatDefinition> = {
+  'categories.reactor.stats.energyCapacity': {
+    label: 'Energy Capacity',
+    base: ReactorConstants.BASE_ENERGY_CAPACITY
+  },
+  'categories.reactor.stats.energyPerSecond': {
+    label: 'Energy per Second',
+    base: 0
+  },
+  'categories.processor.stats.insightCapacity': {
+    label: 'Insight Capacity',
+    base: ProcessorConstants.BASE_INSIGHT_CAPACITY
+  },
+  'categories.processor.stats.insightPerSecond': {
+    label: 'Insight per Second',
+    base: 0
+  },
+  'categories.crewQuarters.stats.crewCapacity': {
+    label: 'Crew Capacity',
+    base: CrewQuartersConstants.BASE_CREW_CAPACITY
+  },
+  'categories.crewQuarters.stats.crewPerSecond': {
+    label: 'Awakening per Second',
+    base: 0
+  },
+  'categories.manufacturing.stats.scrapCapacity': {
+    label: 'Scrap Capacity',
+    base: ManufacturingConstants.BASE_SCRAP_CAPACITY
+  },
+  'categories.manufacturing.stats.scrapPerSecond': {
+    label: 'Scrap per Second',
+    base: 0
+  },
+  'combat.playerStats.maxHealth': {
+    label: 'Hull',
+    base: CombatConstants.BASE_HULL,
+    limits: 'combat.playerStats.health'
+  },
+  'combat.playerStats.maxShield': {
+    label: 'Shield Capacity',
+    base: CombatConstants.BASE_SHIELD_CAPACITY,
+    limits: 'combat.playerStats.shield'
+  }
+};
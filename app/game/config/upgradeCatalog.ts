@@ -1,45 +1,54 @@
-import { GameState } from '../types';
+import { GameState, StatModifier } from '../types';
 import { GameCategory } from '../types/actions';
 import { ReactorConstants, ProcessorConstants, CrewQuartersConstants, ManufacturingConstants } from './gameConstants';
+import { powNumber } from '../utils/numbers';
 
 export interface UpgradeDef {
-  resource: 'energy' | 'insight' | 'scrap' | 'crew';
+  name: string; // shown in stat breakdowns
+  resource: string; // ID in RESOURCE_DEFINITIONS
   cost(state: GameState): number;
   incrementPath: string; // dot path to level number
-  apply(state: GameState): void; // recalculate stats
+  modifiers(level: number): Pick<StatModifier, 'stat' | 'type' | 'value'>[]; // stat contributions at a level
+  energyUpkeep?: number; // energy drawn per second for each level
 }
 
 export const UPGRADE_CATALOG: Record<GameCategory, Record<string, UpgradeDef>> = {
   reactor: {
     reactorExpansions: {
+      name: 'Reactor Expansion',
       resource: 'energy',
       cost: (s) =>
         Math.floor(
           s.categories.reactor.stats.energyCapacity * ReactorConstants.EXPANSION_COST_MULTIPLIER
         ),
       incrementPath: 'categories.reactor.upgrades.reactorExpansions',
-      apply: (s) => {
-        const lvl = s.categories.reactor.upgrades.reactorExpansions;
-        s.categories.reactor.stats.energyCapacity =
-          ReactorConstants.BASE_ENERGY_CAPACITY *
-          Math.pow(ReactorConstants.ENERGY_CAPACITY_MULTIPLIER, lvl);
-      }
+      modifiers: (lvl) => [
+        {
+          stat: 'categories.reactor.stats.energyCapacity',
+          type: 'multiplier',
+          value: powNumber(ReactorConstants.ENERGY_CAPACITY_MULTIPLIER, lvl)
+        }
+      ]
     },
     energyConverters: {
+      name: 'Energy Converter',
       resource: 'energy',
       cost: (s) =>
         (s.categories.reactor.upgrades.energyConverters + 1) *
         ReactorConstants.CONVERTER_COST_BASE,
       incrementPath: 'categories.reactor.upgrades.energyConverters',
-      apply: (s) => {
-        const lvl = s.categories.reactor.upgrades.energyConverters;
-        s.categories.reactor.stats.energyPerSecond =
-          lvl * ReactorConstants.ENERGY_PER_CONVERTER;
-      }
+      modifiers: (lvl) => [
+        {
+          stat: 'categories.reactor.stats.energyPerSecond',
+          type: 'flat',
+          value: lvl * ReactorConstants.ENERGY_PER_CONVERTER
+        }
+      ]
     }
   },
   processor: {
     mainframeExpansions: {
+      name: 'Mainframe Expansion',
       resource: 'insight',
       cost: (s) =>
         Math.floor(
@@ -47,28 +56,34 @@ export const UPGRADE_CATALOG: Record<GameCategory, Record<string, UpgradeDef>> =
             ProcessorConstants.EXPANSION_COST_MULTIPLIER
         ),
       incrementPath: 'categories.processor.upgrades.mainframeExpansions',
-      apply: (s) => {
-        const lvl = s.categories.processor.upgrades.mainframeExpansions;
-        s.categories.processor.stats.insightCapacity =
-          ProcessorConstants.BASE_INSIGHT_CAPACITY *
-          Math.pow(ProcessorConstants.INSIGHT_CAPACITY_MULTIPLIER, lvl);
-      }
+      modifiers: (lvl) => [
+        {
+          stat: 'categories.processor.stats.insightCapacity',
+          type: 'multiplier',
+          value: powNumber(ProcessorConstants.INSIGHT_CAPACITY_MULTIPLIER, lvl)
+        }
+      ]
     },
     processingThreads: {
+      name: 'Processing Thread',
       resource: 'insight',
       cost: (s) =>
         (s.categories.processor.upgrades.processingThreads + 1) *
         ProcessorConstants.THREAD_COST_BASE,
+      energyUpkeep: ProcessorConstants.THREAD_ENERGY_UPKEEP,
       incrementPath: 'categories.processor.upgrades.processingThreads',
-      apply: (s) => {
-        const lvl = s.categories.processor.upgrades.processingThreads;
-        s.categories.processor.stats.insightPerSecond =
-          lvl * ProcessorConstants.INSIGHT_PER_THREAD;
-      }
+      modifiers: (lvl) => [
+        {
+          stat: 'categories.processor.stats.insightPerSecond',
+          type: 'flat',
+          value: lvl * ProcessorConstants.INSIGHT_PER_THREAD
+        }
+      ]
     }
   },
   crewQuarters: {
     additionalQuarters: {
+      name: 'Additional Quarters',
       resource: 'crew',
       cost: (s) =>
         Math.floor(
@@ -76,30 +91,36 @@ export const UPGRADE_CATALOG: Record<GameCategory, Record<string, UpgradeDef>> =
             CrewQuartersConstants.QUARTERS_COST_MULTIPLIER
         ),
       incrementPath: 'categories.crewQuarters.upgrades.additionalQuarters',
-      apply: (s) => {
-        const lvl = s.categories.crewQuarters.upgrades.additionalQuarters;
-        s.categories.crewQuarters.stats.crewCapacity =
-          CrewQuartersConstants.BASE_CREW_CAPACITY +
-          lvl * CrewQuartersConstants.QUARTERS_UPGRADE_CAPACITY_INCREASE;
-      }
+      modifiers: (lvl) => [
+        {
+          stat: 'categories.crewQuarters.stats.crewCapacity',
+          type: 'flat',
+          value: lvl * CrewQuartersConstants.QUARTERS_UPGRADE_CAPACITY_INCREASE
+        }
+      ]
     },
     workerCrews: {
+      name: 'Worker Crew',
       resource: 'crew',
       cost: (s) =>
         Math.floor(
           (s.categories.crewQuarters.upgrades.workerCrews + 1) *
             CrewQuartersConstants.WORKER_CREW_COST_BASE
         ),
+      energyUpkeep: CrewQuartersConstants.WORKER_CREW_ENERGY_UPKEEP,
       incrementPath: 'categories.crewQuarters.upgrades.workerCrews',
-      apply: (s) => {
-        const lvl = s.categories.crewQuarters.upgrades.workerCrews;
-        s.categories.crewQuarters.stats.crewPerSecond =
-          lvl * CrewQuartersConstants.WORKER_CREW_PRODUCTION_RATE;
-      }
+      modifiers: (lvl) => [
+        {
+          stat: 'categories.crewQuarters.stats.crewPerSecond',
+          type: 'flat',
+          value: lvl * CrewQuartersConstants.WORKER_CREW_PRODUCTION_RATE
+        }
+      ]
     }
   },
   manufacturing: {
     cargoHoldExpansions: {
+      name: 'Cargo Hold Expansion',
       resource: 'scrap',
       cost: (s) =>
         Math.floor(
@@ -107,24 +128,29 @@ export const UPGRADE_CATALOG: Record<GameCategory, Record<string, UpgradeDef>> =
             ManufacturingConstants.EXPANSION_COST_MULTIPLIER
         ),
       incrementPath: 'categories.manufacturing.upgrades.cargoHoldExpansions',
-      apply: (s) => {
-        const lvl = s.categories.manufacturing.upgrades.cargoHoldExpansions;
-        s.categories.manufacturing.stats.scrapCapacity =
-          ManufacturingConstants.BASE_SCRAP_CAPACITY *
-          Math.pow(ManufacturingConstants.SCRAP_CAPACITY_MULTIPLIER, lvl);
-      }
+      modifiers: (lvl) => [
+        {
+          stat: 'categories.manufacturing.stats.scrapCapacity',
+          type: 'multiplier',
+          value: powNumber(ManufacturingConstants.SCRAP_CAPACITY_MULTIPLIER, lvl)
+        }
+      ]
     },
     manufacturingBays: {
+      name: 'Manufacturing Bay',
       resource: 'scrap',
       cost: (s) =>
         (s.categories.manufacturing.upgrades.manufacturingBays + 1) *
         ManufacturingConstants.BAY_COST_BASE,
+      energyUpkeep: ManufacturingConstants.BAY_ENERGY_UPKEEP,
       incrementPath: 'categories.manufacturing.upgrades.manufacturingBays',
-      apply: (s) => {
-        const lvl = s.categories.manufacturing.upgrades.manufacturingBays;
-        s.categories.manufacturing.stats.scrapPerSecond =
-          lvl * ManufacturingConstants.SCRAP_PER_BAY;
-      }
+      modifiers: (lvl) => [
+        {
+          stat: 'categories.manufacturing.stats.scrapPerSecond',
+          type: 'flat',
+          value: lvl * ManufacturingConstants.SCRAP_PER_BAY
+        }
+      ]
     }
   }
 }; 
\ No newline at end of file
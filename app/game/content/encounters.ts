@@ -4,6 +4,7 @@
  */
 
 import { RegionType, ResourceReward } from '../types';
+import { Rng } from '../core/RandomService';
 
 /**
  * Chances of getting encounters in different regions
@@ -122,31 +123,31 @@ export const EMPTY_ENCOUNTER_MESSAGES: Record<RegionType, string[]> = {
 /**
  * Helper function to get a random title for an empty encounter
  */
-export function getRandomEmptyEncounterTitle(region: RegionType): string {
+export function getRandomEmptyEncounterTitle(region: RegionType, rng: Rng): string {
     const titles = EMPTY_ENCOUNTER_TITLES[region];
-    return titles[Math.floor(Math.random() * titles.length)];
+    return rng.pick(titles);
 }
 
 /**
  * Helper function to get a random description for an empty encounter
  */
-export function getRandomEmptyEncounterDescription(region: RegionType): string {
+export function getRandomEmptyEncounterDescription(region: RegionType, rng: Rng): string {
     const descriptions = EMPTY_ENCOUNTER_DESCRIPTIONS[region];
-    return descriptions[Math.floor(Math.random() * descriptions.length)];
+    return rng.pick(descriptions);
 }
 
 /**
  * Helper function to get a random message for an empty encounter
  */
-export function getRandomEmptyEncounterMessage(region: RegionType): string {
+export function getRandomEmptyEncounterMessage(region: RegionType, rng: Rng): string {
     const messages = EMPTY_ENCOUNTER_MESSAGES[region];
-    return messages[Math.floor(Math.random() * messages.length)];
+    return rng.pick(messages);
 }
 
 /**
  * Helper function to generate a resource reward appropriate for the region
  */
-export function generateEmptyEncounterRewards(region: RegionType): ResourceReward[] {
+export function generateEmptyEncounterRewards(region: RegionType, rng: Rng): ResourceReward[] {
     const rewards: ResourceReward[] = [];
     
     // Define resource messages by type and region
@@ -222,87 +223,87 @@ export function generateEmptyEncounterRewards(region: RegionType): ResourceRewar
             return `The Dawn collected ${type} resources from the ${region} region.`;
         }
         
-        return messagesForType[Math.floor(Math.random() * messagesForType.length)];
+        return rng.pick(messagesForType);
     };
     
     // Different regions provide different resources and amounts
     switch(region) {
         case 'void':
-            if (Math.random() < 0.3) {
+            if (rng.chance(0.3)) {
                 rewards.push({ 
                     type: 'energy', 
-                    amount: Math.floor(Math.random() * 5) + 1,
+                    amount: rng.range(1, 5),
                     message: getRandomMessage('void', 'energy')
                 });
             }
             break;
         case 'nebula':
-            if (Math.random() < 0.4) {
+            if (rng.chance(0.4)) {
                 rewards.push({ 
                     type: 'energy', 
-                    amount: Math.floor(Math.random() * 10) + 5,
+                    amount: rng.range(5, 14),
                     message: getRandomMessage('nebula', 'energy')
                 });
             }
-            if (Math.random() < 0.2) {
+            if (rng.chance(0.2)) {
                 rewards.push({ 
                     type: 'insight', 
-                    amount: Math.floor(Math.random() * 3) + 1,
+                    amount: rng.range(1, 3),
                     message: getRandomMessage('nebula', 'insight')
                 });
             }
             break;
         case 'asteroid':
-            if (Math.random() < 0.5) {
+            if (rng.chance(0.5)) {
                 rewards.push({ 
                     type: 'scrap', 
-                    amount: Math.floor(Math.random() * 15) + 5,
+                    amount: rng.range(5, 19),
                     message: getRandomMessage('asteroid', 'scrap')
                 });
             }
-            if (Math.random() < 0.3) {
+            if (rng.chance(0.3)) {
                 rewards.push({ 
                     type: 'energy', 
-                    amount: Math.floor(Math.random() * 8) + 3,
+                    amount: rng.range(3, 10),
                     message: getRandomMessage('asteroid', 'energy')
                 });
             }
             break;
         case 'deepspace':
-            if (Math.random() < 0.6) {
+            if (rng.chance(0.6)) {
                 rewards.push({ 
                     type: 'insight', 
-                    amount: Math.floor(Math.random() * 5) + 3,
+                    amount: rng.range(3, 7),
                     message: getRandomMessage('deepspace', 'insight')
                 });
             }
-            if (Math.random() < 0.4) {
+            if (rng.chance(0.4)) {
                 rewards.push({ 
                     type: 'crew', 
-                    amount: Math.random() < 0.2 ? 1 : 0,
-                    message: Math.random() < 0.2 ? getRandomMessage('deepspace', 'crew') : undefined
+                    amount: rng.chance(0.2) ? 1 : 0,
+                    message: rng.chance(0.2) ? getRandomMessage('deepspace', 'crew') : undefined
                 });
             }
             break;
         case 'blackhole':
-            if (Math.random() < 0.7) {
+            if (rng.chance(0.7)) {
                 rewards.push({ 
                     type: 'insight', 
-                    amount: Math.floor(Math.random() * 10) + 5,
+                    amount: rng.range(5, 14),
                     message: getRandomMessage('blackhole', 'insight')
                 });
             }
-            if (Math.random() < 0.5) {
+            if (rng.chance(0.5)) {
                 rewards.push({ 
                     type: 'energy', 
-                    amount: Math.floor(Math.random() * 15) + 10,
+                    amount: rng.range(10, 24),
                     message: getRandomMessage('blackhole', 'energy')
                 });
             }
-            if (Math.random() < 0.3) {
+            if (rng.chance(0.3)) {
                 rewards.push({ 
                     type: 'scrap', 
-                    amount: Math.floor(Math.random() * 10) + 5,
+                    amount: rng.range(5, 14),
                     message: getRandomMessage('blackhole', 'scrap')
                 });
             }
@@ -0,0 +1,35 @@
+import { PowerPreset } from '../types';
+
+/**
+ * Power Presets
+ *
+ * Named ways to divide the reactor's output between ship systems, in
+ * display order. The player can save their own allocation over any of
+ * them (kept in `state.power.presets`); these are the defaults.
+ */
+export const POWER_PRESETS: Record<string, PowerPreset> = {
+    balanced: {
+        id: 'balanced',
+        name: 'Balanced',
+        description: 'Equal power to every system',
+        allocation: { processor: 0.25, crewQuarters: 0.25, manufacturing: 0.25, shields: 0.25 }
+    },
+    combat: {
+        id: 'combat',
+        name: 'Combat',
+        description: 'Divert power to the shields before a fight',
+        allocation: { processor: 0.15, crewQuarters: 0.1, manufacturing: 0.15, shields: 0.6 }
+    },
+    research: {
+        id: 'research',
+        name: 'Research',
+        description: 'Run the processor at full tilt',
+        allocation: { processor: 0.55, crewQuarters: 0.15, manufacturing: 0.15, shields: 0.15 }
+    },
+    salvage: {
+        id: 'salvage',
+        name: 'Salvage',
+        description: 'Feed the manufacturing bays',
+        allocation: { processor: 0.15, crewQuarters: 0.15, manufacturing: 0.55, shields: 0.15 }
+    }
+};
@@ -0,0 +1,66 @@
+import type { ResourceDefinition } from '../types';
+
+/**
+ * Resource Definitions
+ *
+ * Every resource in the game, in display order. Systems and pages read
+ * resources through these (see app/game/utils/resources.ts), and the
+ * fields a category stores for its resources are typed from them, so a
+ * new resource only needs an entry here and its starting values in
+ * initialGameState. It must belong to one of the existing categories.
+ */
+const DEFINITIONS = {
+    energy: {
+        id: 'energy',
+        name: 'Energy',
+        icon: 'Zap',
+        color: 'chart-1',
+        category: 'reactor',
+        capacityStat: 'energyCapacity',
+        rateStat: 'energyPerSecond',
+        production: 'rate',
+        decimals: 1
+    },
+    insight: {
+        id: 'insight',
+        name: 'Insight',
+        icon: 'Cpu',
+        color: 'chart-2',
+        category: 'processor',
+        capacityStat: 'insightCapacity',
+        rateStat: 'insightPerSecond',
+        production: 'rate',
+        decimals: 1
+    },
+    crew: {
+        id: 'crew',
+        name: 'Crew',
+        icon: 'Users',
+        color: 'chart-3',
+        category: 'crewQuarters',
+        capacityStat: 'crewCapacity',
+        // Awakening progress per second; crew members wake up every 10 points
+        rateStat: 'crewPerSecond',
+        production: 'custom',
+        wholeUnits: true,
+        decimals: 0
+    },
+    scrap: {
+        id: 'scrap',
+        name: 'Scrap',
+        icon: 'Package',
+        color: 'chart-4',
+        category: 'manufacturing',
+        capacityStat: 'scrapCapacity',
+        rateStat: 'scrapPerSecond',
+        production: 'rate',
+        decimals: 1
+    }
+} as const satisfies Record<string, ResourceDefinition>;
+
+/**
+ * The definitions as written, for deriving the category types
+ */
+export type ResourceDefinitions = typeof DEFINITIONS;
+
+export const RESOURCE_DEFINITIONS: Record<string, ResourceDefinition> = DEFINITIONS;
@@ -0,0 +1,21 @@
+import { StatModifier } from '../types';
+import { StatusEffectType } from '../types/combat';
+
+/**
+ * Status Effect Modifiers
+ *
+ * How status effects on the Dawn change its stats while they last, given
+ * the effect's magnitude. Effects not listed here only act in combat
+ * resolution (e.g. WEAKEN on damage).
+ */
+export const STATUS_EFFECT_MODIFIERS: Partial<
+    Record<StatusEffectType, (magnitude: number) => Pick<StatModifier, 'label' | 'stat' | 'type' | 'value'>>
+> = {
+    // Shocked shield emitters hold less charge
+    STUN: (magnitude) => ({
+        label: 'System Shock',
+        stat: 'combat.playerStats.maxShield',
+        type: 'percent',
+        value: -magnitude
+    })
+};
@@ -43,7 +43,7 @@ export const CrewQuartersTexts = {
    */
   upgradeDescriptions: {
     additionalQuarters: "Prepare {0} more crew quarters, increasing capacity to {1}",
-    workerCrews: "Dedicate crew to help awaken others (+{0} awakening progress per second)"
+    workerCrews: "Dedicate crew to help awaken others (+{0} awakening progress per second, draws {1} energy per second)"
   },
   
   /**
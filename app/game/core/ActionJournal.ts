@@ -0,0 +1,180 @@
+import { EventBus } from './EventBus';
+import { EventMap } from '../types/events';
+import { GameState } from '../types';
+import { GameAction } from '../types/actions';
+import { GameSystemManager } from '../systems';
+import { ManualClock } from './Clock';
+
+/**
+ * One recorded step of a session
+ * - `ticks`: `count` consecutive simulation steps of `delta` seconds
+ * - `action`: an action as it reached ActionSystem's handlers
+ * - `clock`: game time was re-synced to the wall clock
+ */
+export type JournalEntry =
+  | { kind: 'ticks'; delta: number; count: number }
+  | { kind: 'action'; action: GameAction }
+  | { kind: 'clock'; time: number };
+
+/**
+ * Everything needed to rebuild a session
+ */
+export interface ActionJournal {
+  /**
+   * Game time (ms) when recording started
+   */
+  startTime: number;
+
+  /**
+   * State when recording started
+   */
+  startState: GameState;
+
+  entries: JournalEntry[];
+}
+
+/**
+ * Advance the state by one simulation step
+ * Shared by the engine and the replayer so both step identically
+ */
+export function applyTick(systems: GameSystemManager, clock: ManualClock, state: GameState, delta: number) {
+  clock.advance(Math.round(delta * 1000));
+  state.lastUpdate = clock.now();
+  systems.update(state, delta);
+}
+
+/**
+ * JournalRecorder: collects ticks and actions while the game runs
+ *
+ * Consecutive ticks of the same length are stored as one entry, so a
+ * quiet minute of idling costs a single entry.
+ */
+export class JournalRecorder {
+  private journal: ActionJournal | null = null;
+
+  constructor(private maxEntries: number) {}
+
+  /**
+   * Start a new journal from the given state
+   */
+  begin(state: GameState, time: number) {
+    this.journal = { startTime: time, startState: state, entries: [] };
+  }
+
+  isRecording(): boolean {
+    return this.journal !== null;
+  }
+
+  /**
+   * Whether the journal reached its size limit and should be restarted
+   */
+  isFull(): boolean {
+    return !!this.journal && this.journal.entries.length >= this.maxEntries;
+  }
+
+  recordTick(delta: number) {
+    if (!this.journal) return;
+
+    const entries = this.journal.entries;
+    const last = entries[entries.length - 1];
+    if (last && last.kind === 'ticks' && last.delta === delta) {
+      last.count++;
+      return;
+    }
+    entries.push({ kind: 'ticks', delta, count: 1 });
+  }
+
+  recordAction(action: GameAction) {
+    this.journal?.entries.push({ kind: 'action', action });
+  }
+
+  recordClock(time: number) {
+    this.journal?.entries.push({ kind: 'clock', time });
+  }
+
+  /**
+   * A copy of the journal recorded so far
+   */
+  getJournal(): ActionJournal | null {
+    if (!this.journal) return null;
+
+    return {
+      ...this.journal,
+      entries: this.journal.entries.map(entry => ({ ...entry }))
+    };
+  }
+}
+
+/**
+ * JournalReplayer: rebuilds a session one entry at a time
+ *
+ * Runs a fresh set of game systems against a copy of the starting
+ * snapshot, so it works in vitest or a dev route without an engine.
+ */
+export class JournalReplayer {
+  private state: GameState;
+  private systems: GameSystemManager;
+  private clock: ManualClock;
+  private position = 0;
+
+  constructor(private journal: ActionJournal) {
+    this.state = JSON.parse(JSON.stringify(journal.startState));
+    this.clock = new ManualClock(journal.startTime);
+    this.systems = new GameSystemManager(new EventBus<EventMap>(), this.clock);
+  }
+
+  /**
+   * Apply the next entry
+   *
+   * @returns The entry that was applied, or null at the end of the journal
+   */
+  step(): JournalEntry | null {
+    const entry = this.journal.entries[this.position];
+    if (!entry) return null;
+
+    switch (entry.kind) {
+      case 'ticks':
+        for (let i = 0; i < entry.count; i++) {
+          applyTick(this.systems, this.clock, this.state, entry.delta);
+        }
+        break;
+      case 'action':
+        this.state = this.systems.processAction(this.state, entry.action);
+        break;
+      case 'clock':
+        this.clock.set(entry.time);
+        break;
+    }
+
+    this.position++;
+    return entry;
+  }
+
+  /**
+   * Apply entries until reaching `position` (exclusive) or the end
+   */
+  runTo(position: number = this.journal.entries.length): GameState {
+    while (this.position < position && this.step()) {
+      // keep stepping
+    }
+    return this.state;
+  }
+
+  /**
+   * Index of the next entry to apply
+   */
+  getPosition(): number {
+    return this.position;
+  }
+
+  getState(): GameState {
+    return this.state;
+  }
+}
+
+/**
+ * Replay a whole journal and return the final state
+ */
+export function replayJournal(journal: ActionJournal): GameState {
+  return new JournalReplayer(journal).runTo();
+}
@@ -0,0 +1,192 @@
+import { GameState } from '../types';
+import { GameActions, GameActionType } from '../types/actions';
+import { getLogContextForAction } from '../utils/logContextMapper';
+import Logger, { LogCategory, LogContext } from '@/app/utils/logger';
+
+/**
+ * What a middleware gets to see about the action being processed
+ */
+export interface ActionMiddlewareContext {
+  /**
+   * State the action is applied to; the handler may mutate it in place
+   */
+  state: GameState;
+
+  /**
+   * Log context derived from the original action
+   */
+  logContext: LogContext;
+}
+
+/**
+ * Hands the (possibly transformed) action to the rest of the pipeline
+ * and returns the resulting state
+ */
+export type ActionNext = (action: GameActions) => GameState;
+
+/**
+ * ActionMiddleware: runs around every validated GameAction
+ *
+ * Think of these as checkpoints an action passes on its way to
+ * ActionSystem. Each one can:
+ * - veto the action by returning `context.state` without calling `next`
+ * - transform it by calling `next` with a different action
+ * - observe the resulting state returned from `next`
+ *
+ * Middleware registered first runs outermost.
+ */
+export interface ActionMiddleware {
+  /**
+   * Shown in logs and rejection events
+   */
+  name: string;
+
+  handle(action: GameActions, context: ActionMiddlewareContext, next: ActionNext): GameState;
+}
+
+/**
+ * Outcome of running an action through the pipeline
+ */
+export interface ActionPipelineResult {
+  state: GameState;
+
+  /**
+   * Name of the middleware that stopped the action, if any
+   */
+  vetoedBy: string | null;
+}
+
+/**
+ * Run an action through the middleware chain and finally the handler
+ */
+export function runActionPipeline(
+  middleware: readonly ActionMiddleware[],
+  action: GameActions,
+  state: GameState,
+  handler: (state: GameState, action: GameActions) => GameState
+): ActionPipelineResult {
+  const context: ActionMiddlewareContext = {
+    state,
+    logContext: getLogContextForAction(action)
+  };
+  let vetoedBy: string | null = null;
+
+  const dispatch = (index: number, current: GameActions): GameState => {
+    if (index === middleware.length) {
+      return handler(context.state, current);
+    }
+
+    const entry = middleware[index];
+    let calledNext = false;
+    const result = entry.handle(current, context, (nextAction) => {
+      calledNext = true;
+      return dispatch(index + 1, nextAction);
+    });
+
+    if (!calledNext && vetoedBy === null) {
+      vetoedBy = entry.name;
+    }
+    return result;
+  };
+
+  return { state: dispatch(0, action), vetoedBy };
+}
+
+/**
+ * Logs each action with the energy before and after it ran
+ */
+export function createLoggingMiddleware(): ActionMiddleware {
+  return {
+    name: 'logging',
+    handle(action, context, next) {
+      const beforeEnergy = context.state.categories.reactor.resources.energy;
+      Logger.debug(
+        LogCategory.ENGINE,
+        `State BEFORE action: ${action.type} - Energy: ${beforeEnergy}`,
+        context.logContext
+      );
+
+      const result = next(action);
+
+      const afterEnergy = result.categories.reactor.resources.energy;
+      Logger.debug(
+        LogCategory.ENGINE,
+        `State AFTER action: ${action.type} - Energy: ${afterEnergy} (Changed: ${afterEnergy !== beforeEnergy})`,
+        context.logContext
+      );
+      return result;
+    }
+  };
+}
+
+export interface RateLimitOptions {
+  /**
+   * Action types to limit; each type has its own budget
+   */
+  types: readonly GameActionType[];
+
+  /**
+   * Maximum number of actions of one type per window
+   */
+  maxActions: number;
+
+  /**
+   * Length of the window in milliseconds
+   */
+  windowMs: number;
+
+  /**
+   * Current time in milliseconds
+   */
+  now?: () => number;
+}
+
+/**
+ * Drops actions that arrive faster than a human could click
+ */
+export function createRateLimitMiddleware(options: RateLimitOptions): ActionMiddleware {
+  const now = options.now || (() => Date.now());
+  const recent: Partial<Record<GameActionType, number[]>> = {};
+
+  return {
+    name: 'rateLimit',
+    handle(action, context, next) {
+      if (!options.types.includes(action.type)) {
+        return next(action);
+      }
+
+      const time = now();
+      const timestamps = (recent[action.type] || []).filter(t => time - t < options.windowMs);
+
+      if (timestamps.length >= options.maxActions) {
+        recent[action.type] = timestamps;
+        Logger.debug(LogCategory.ACTIONS, `Rate limited action: ${action.type}`, context.logContext);
+        return context.state;
+      }
+
+      timestamps.push(time);
+      recent[action.type] = timestamps;
+      return next(action);
+    }
+  };
+}
+
+/**
+ * Counts processed actions by type, e.g. for analytics
+ */
+export function createActionCounterMiddleware(): ActionMiddleware & {
+  getCounts(): Partial<Record<GameActionType, number>>;
+} {
+  const counts: Partial<Record<GameActionType, number>> = {};
+
+  return {
+    name: 'actionCounter',
+    handle(action, context, next) {
+      counts[action.type] = (counts[action.type] || 0) + 1;
+      return next(action);
+    },
+    getCounts() {
+      return { ...counts };
+    }
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Clock: where the game gets the current time from
+ *
+ * Systems ask a clock instead of calling Date.now() directly, so the
+ * engine can hand them a deterministic game time and a replay can
+ * reproduce the exact timestamps of the original session.
+ */
+export interface Clock {
+  /**
+   * Current time in milliseconds since the epoch
+   */
+  now(): number;
+}
+
+/**
+ * Wall-clock time
+ */
+export const systemClock: Clock = {
+  now: () => Date.now()
+};
+
+/**
+ * A clock that only moves when told to
+ * Used for game time, replays and tests
+ */
+export class ManualClock implements Clock {
+  constructor(private time: number = 0) {}
+
+  now(): number {
+    return this.time;
+  }
+
+  set(time: number) {
+    this.time = time;
+  }
+
+  advance(ms: number) {
+    this.time += ms;
+  }
+}
@@ -1,24 +1,93 @@
 /**
  * EventBus: Communication system for the game
- * 
- * Think of this as a messenger that delivers notifications 
+ *
+ * Think of this as a messenger that delivers notifications
  * between different parts of the game.
  */
 
 import Logger, { LogCategory, LogContext } from '@/app/utils/logger';
 import { getLogContextForEvent } from '../utils/logContextMapper';
-import { GameState } from '../types';
-import { GameAction } from '../types/actions';
+import { Clock, systemClock } from './Clock';
 
 /**
- * Event data can be GameState, GameAction, or unknown for other event types
+ * Options accepted when registering a listener
  */
-type EventData = GameState | GameAction | unknown;
+export interface ListenerOptions {
+    /**
+     * Listeners with a higher priority are called first (default 0)
+     * Listeners with equal priority are called in registration order
+     */
+    priority?: number;
+}
+
+/**
+ * How repeated emits of one event are coalesced
+ */
+export interface CoalesceRule<T> {
+    /**
+     * Minimum time between two deliveries in milliseconds
+     */
+    intervalMs: number;
+
+    /**
+     * Combine a pending payload with a newer one
+     * Defaults to keeping only the newer payload
+     */
+    merge?: (pending: T, next: T) => T;
+}
+
+/**
+ * Configuration for an EventBus
+ */
+export interface EventBusOptions<M extends Record<string, any>> {
+    /**
+     * Events that are rate limited; the last payload is always delivered
+     */
+    coalesce?: { [K in keyof M]?: CoalesceRule<M[K]> };
+
+    /**
+     * Number of delivered events kept for debugging (default 0, disabled)
+     */
+    historySize?: number;
+
+    /**
+     * Time source for coalescing and history timestamps (default wall clock)
+     */
+    clock?: Clock;
+}
 
 /**
- * Function that can be called when an event occurs
+ * One delivered event, as kept in the debug history
  */
-type EventCallback = (data: EventData) => void;
+export interface EventHistoryEntry<M extends Record<string, any>> {
+    event: keyof M;
+    payload: M[keyof M];
+    timestamp: number;
+    listenerCount: number;
+}
+
+interface Listener {
+    callback: (payload: any, event: string) => void;
+    priority: number;
+    once: boolean;
+    order: number;
+    // Set for wildcard listeners only
+    pattern?: RegExp;
+}
+
+interface PendingEmit {
+    payload: unknown;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Turn a subscription pattern into a regular expression
+ * `*` matches any sequence of characters, so `combat:*` subscribes to a namespace
+ */
+function patternToRegExp(pattern: string): RegExp {
+    const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(`^${escaped.join('.*')}$`);
+}
 
 /**
  * The EventBus manages communication between game systems
@@ -26,94 +95,251 @@ type EventCallback = (data: EventData) => void;
  */
 export class EventBus<M extends Record<string, any>> {
     /**
-     * Map of event names to arrays of callback functions
+     * Map of event names to listeners
      * Like a phonebook of who wants to receive which messages
      */
-    private listeners: { [K in keyof M]?: Array<(payload: M[K]) => void> } = {} as any;
+    private listeners = new Map<keyof M, Listener[]>();
 
-    private lastStateUpdateTime = 0;
+    /**
+     * Listeners subscribed by pattern rather than by exact name
+     */
+    private patternListeners: Listener[] = [];
 
-    constructor() {
-        // listeners object already initialised
+    /**
+     * Increasing counter keeping equal-priority listeners in registration order
+     */
+    private nextOrder = 0;
+
+    private options: EventBusOptions<M>;
+
+    private clock: Clock;
+
+    /**
+     * When each coalesced event was last delivered
+     */
+    private lastDelivery = new Map<keyof M, number>();
+
+    /**
+     * Coalesced payloads waiting for their trailing delivery
+     */
+    private pending = new Map<keyof M, PendingEmit>();
+
+    private history: EventHistoryEntry<M>[] = [];
+
+    constructor(options: EventBusOptions<M> = {}) {
+        this.options = options;
+        this.clock = options.clock || systemClock;
     }
 
     /**
      * Broadcast an event to all listeners
      * Like announcing a message over a loudspeaker
-     * 
+     *
+     * Coalesced events are delivered at most once per interval; emits in
+     * between are merged and delivered at the end of the interval
+     *
      * @param event - The name of the event
      * @param data - Data to send with the event
      */
     emit<K extends keyof M>(event: K, data: M[K]) {
-        // Add throttling for state updates
-        if (event === 'stateUpdated') {
-            const now = Date.now();
-            
-            // Skip if we've emitted a state update too recently
-            if (this.lastStateUpdateTime && now - this.lastStateUpdateTime < 50) {
-                return;
-            }
-            
-            this.lastStateUpdateTime = now;
+        const rule = this.options.coalesce?.[event];
+        if (!rule) {
+            this.deliver(event, data);
+            return;
         }
-        
-        // Determine context using centralised mapper
-        const context = getLogContextForEvent(String(event), data);
-        
-        Logger.debug(LogCategory.EVENT_BUS, `Emitting event: "${String(event)}"`, context);
-        
-        // Get all listeners for this event (or empty array if none)
-        const callbacks = this.listeners[event] || [];
-        
-        if (callbacks.length === 0) {
-            Logger.warn(LogCategory.EVENT_BUS, `No listeners registered for event: "${String(event)}"`, context);
-        } else {
-            Logger.debug(LogCategory.EVENT_BUS, `Found ${callbacks.length} listeners for event: "${String(event)}"`, context);
+
+        const pending = this.pending.get(event);
+        if (pending) {
+            pending.payload = rule.merge ? rule.merge(pending.payload as M[K], data) : data;
+            return;
         }
-        
-        // Clone stateUpdated payload to prevent accidental mutations hitting React equality
-        let dataToEmit = data;
-        if (event === 'stateUpdated') {
-            Logger.trace(LogCategory.EVENT_BUS, 'Deep copying state data before emitting', context);
-            dataToEmit = JSON.parse(JSON.stringify(data));
+
+        const now = this.clock.now();
+        const last = this.lastDelivery.get(event);
+        if (last === undefined || now - last >= rule.intervalMs) {
+            this.lastDelivery.set(event, now);
+            this.deliver(event, data);
+            return;
         }
-        
-        // Call each listener with the event data
-        callbacks.forEach(cb => (cb as any)(dataToEmit));
+
+        // Too soon after the last delivery: hold the payload for a trailing emit
+        const timer = setTimeout(() => this.flush(event), rule.intervalMs - (now - last));
+        this.pending.set(event, { payload: data, timer });
+    }
+
+    /**
+     * Deliver any coalesced payload that is still waiting
+     *
+     * @param event - Only flush this event; flushes all when omitted
+     */
+    flush(event?: keyof M) {
+        const events = event === undefined ? Array.from(this.pending.keys()) : [event];
+
+        events.forEach(name => {
+            const pending = this.pending.get(name);
+            if (!pending) return;
+
+            clearTimeout(pending.timer);
+            this.pending.delete(name);
+            this.lastDelivery.set(name, this.clock.now());
+            this.deliver(name, pending.payload as M[typeof name]);
+        });
     }
 
     /**
      * Register to listen for an event
      * Like signing up for a newsletter
-     * 
+     *
      * @param event - The name of the event to listen for
      * @param callback - Function to call when event happens
+     * @param options - Listener priority
      * @returns A function to remove this listener
      */
-    on<K extends keyof M>(event: K, callback: (payload: M[K]) => void) {
+    on<K extends keyof M>(event: K, callback: (payload: M[K]) => void, options: ListenerOptions = {}) {
+        return this.addListener(event, callback, options, false);
+    }
+
+    /**
+     * Listen for the next occurrence of an event only
+     *
+     * @returns A function to remove the listener before it fires
+     */
+    once<K extends keyof M>(event: K, callback: (payload: M[K]) => void, options: ListenerOptions = {}) {
+        return this.addListener(event, callback, options, true);
+    }
+
+    /**
+     * Listen for every event whose name matches a pattern
+     * `*` matches anything, e.g. `'*'` for all events or `'combat:*'` for a namespace
+     *
+     * @returns A function to remove this listener
+     */
+    onPattern(
+        pattern: string,
+        callback: (payload: M[keyof M], event: keyof M) => void,
+        options: ListenerOptions = {}
+    ) {
+        Logger.debug(LogCategory.EVENT_BUS, `Registering pattern listener: "${pattern}"`, LogContext.NONE);
+
+        const listener = this.createListener(callback, options, false);
+        listener.pattern = patternToRegExp(pattern);
+        this.patternListeners = [...this.patternListeners, listener];
+
+        return () => {
+            Logger.debug(LogCategory.EVENT_BUS, `Removing pattern listener: "${pattern}"`, LogContext.NONE);
+            this.patternListeners = this.patternListeners.filter(l => l !== listener);
+        };
+    }
+
+    /**
+     * Recently delivered events, oldest first
+     */
+    getHistory(): EventHistoryEntry<M>[] {
+        return [...this.history];
+    }
+
+    /**
+     * Forget the recorded event history
+     */
+    clearHistory() {
+        this.history = [];
+    }
+
+    private addListener<K extends keyof M>(
+        event: K,
+        callback: (payload: M[K]) => void,
+        options: ListenerOptions,
+        once: boolean
+    ) {
         // Log with appropriate context based on event type
         let context = LogContext.NONE;
-        
+
         if (event === 'stateUpdated') {
             context = LogContext.UI_RENDER;
         }
-        
+
         Logger.debug(LogCategory.EVENT_BUS, `Registering listener for event: "${String(event)}"`, context);
-        
-        if (!this.listeners[event]) {
-            this.listeners[event] = [];
-        }
-        (this.listeners[event] as Array<(p: M[K]) => void>).push(callback);
 
-        const currentCount = this.listeners[event]!.length;
+        const listener = this.createListener(callback, options, once);
+        this.listeners.set(event, [...(this.listeners.get(event) || []), listener]);
+
+        const currentCount = this.listeners.get(event)!.length;
         Logger.debug(LogCategory.EVENT_BUS, `Now have ${currentCount} listeners for event: "${String(event)}"`, context);
 
         return () => {
             Logger.debug(LogCategory.EVENT_BUS, `Removing listener for event: "${String(event)}"`, context);
-            const existing = this.listeners[event] || [];
-            this.listeners[event] = existing.filter(cb => cb !== callback);
-            const newCount = this.listeners[event]!.length;
+            this.removeListener(event, listener);
+            const newCount = this.listeners.get(event)?.length ?? 0;
             Logger.debug(LogCategory.EVENT_BUS, `Now have ${newCount} listeners for event: "${String(event)}"`, context);
         };
     }
-} 
\ No newline at end of file
+
+    private createListener(callback: Listener['callback'], options: ListenerOptions, once: boolean): Listener {
+        return {
+            callback,
+            priority: options.priority ?? 0,
+            once,
+            order: this.nextOrder++
+        };
+    }
+
+    private removeListener(event: keyof M, listener: Listener) {
+        const remaining = (this.listeners.get(event) || []).filter(l => l !== listener);
+        if (remaining.length > 0) {
+            this.listeners.set(event, remaining);
+        } else {
+            this.listeners.delete(event);
+        }
+    }
+
+    /**
+     * Call every listener for an event, isolating listener errors
+     */
+    private deliver<K extends keyof M>(event: K, data: M[K]) {
+        // Determine context using centralised mapper
+        const context = getLogContextForEvent(String(event), data);
+
+        Logger.debug(LogCategory.EVENT_BUS, `Emitting event: "${String(event)}"`, context);
+
+        // Exact listeners and matching pattern listeners, highest priority first
+        const callbacks = [
+            ...(this.listeners.get(event) || []),
+            ...this.patternListeners.filter(l => l.pattern!.test(String(event)))
+        ].sort((a, b) => b.priority - a.priority || a.order - b.order);
+
+        if (callbacks.length === 0) {
+            Logger.warn(LogCategory.EVENT_BUS, `No listeners registered for event: "${String(event)}"`, context);
+        } else {
+            Logger.debug(LogCategory.EVENT_BUS, `Found ${callbacks.length} listeners for event: "${String(event)}"`, context);
+        }
+
+        this.record(event, data, callbacks.length);
+
+        // Call each listener with the event data; one failing listener does not stop the rest
+        callbacks.forEach(listener => {
+            if (listener.once) {
+                this.removeListener(event, listener);
+            }
+
+            try {
+                listener.callback(data, String(event));
+            } catch (error) {
+                Logger.error(
+                    LogCategory.EVENT_BUS,
+                    `Listener for event "${String(event)}" threw: ${error instanceof Error ? error.message : String(error)}`,
+                    context
+                );
+            }
+        });
+    }
+
+    private record<K extends keyof M>(event: K, payload: M[K], listenerCount: number) {
+        const size = this.options.historySize ?? 0;
+        if (size <= 0) return;
+
+        this.history.push({ event, payload, timestamp: this.clock.now(), listenerCount });
+        if (this.history.length > size) {
+            this.history.splice(0, this.history.length - size);
+        }
+    }
+}
@@ -2,11 +2,89 @@ import { EventBus } from './EventBus';
 import { EventMap } from '../types/events';
 import { GameState, initialGameState } from '../types';
 import { GameSystemManager } from '../systems';
-import { GameAction } from '../types/actions';
+import { GameAction, GameActions } from '../types/actions';
 import Logger, { LogCategory, LogContext } from '@/app/utils/logger';
-import { SaveSystem } from './SaveSystem';
-import { getCachedState, cacheState } from './memoryCache';
+import {
+    SaveBackupInfo,
+    SaveImportResult,
+    SaveRecovery,
+    SaveSlotInfo,
+    SaveStatusInfo,
+    SaveSystem
+} from './SaveSystem';
+import { StateCache, sharedStateCache } from './memoryCache';
+import { StorageAdapter } from './storage/StorageAdapter';
 import { getLogContextForAction } from '../utils/logContextMapper';
+import { OfflineProgressReport, hasOfflineGains, simulateOfflineProgress } from './OfflineProgress';
+import {
+    ActionMiddlewareConstants,
+    AutoSaveConstants,
+    CloudSaveConstants,
+    EventBusConstants,
+    GameLoopConstants,
+    HistoryConstants,
+    JournalConstants,
+    OfflineProgressConstants
+} from '../config/gameConstants';
+import { createRandomState } from './RandomService';
+import { FixedStepLoop } from './GameLoop';
+import { Scheduler, createDefaultScheduler } from './Scheduler';
+import { StateStore, mergeChangedPaths } from './StateStore';
+import { ActionMiddleware, createLoggingMiddleware, createRateLimitMiddleware } from './ActionMiddleware';
+import { Clock, ManualClock, systemClock } from './Clock';
+import { ActionJournal, JournalRecorder, applyTick } from './ActionJournal';
+import { HistoryEntry, StateHistory } from './StateHistory';
+import { SyncConflict, SyncResult } from './SaveSync';
+import { TabCoordinator, createDefaultTabChannel } from './TabCoordinator';
+
+/**
+ * Optional configuration for the game engine
+ */
+export interface GameEngineOptions {
+    /**
+     * Wall-clock time source (defaults to Date.now)
+     */
+    clock?: Clock;
+
+    /**
+     * Decides when loop frames run (defaults to rAF / interval in the browser)
+     */
+    scheduler?: Scheduler;
+
+    /**
+     * Where saves are written (defaults to IndexedDB via localforage)
+     */
+    storage?: StorageAdapter;
+
+    /**
+     * Remote store to sync save slots with, such as a SupabaseAdapter
+     * (defaults to none; can be set later with setCloudStorage)
+     */
+    cloudStorage?: StorageAdapter;
+
+    /**
+     * How often changes are autosaved (defaults to AutoSaveConstants.INTERVAL_MS)
+     */
+    autoSaveIntervalMs?: number;
+
+    /**
+     * Decides which open tab runs the game
+     * (defaults to BroadcastChannel in the browser, sole owner elsewhere)
+     */
+    tabs?: TabCoordinator;
+
+    /**
+     * Keeps the latest state across in-app navigation
+     * (defaults to the shared module/window cache)
+     */
+    stateCache?: StateCache;
+
+    /**
+     * Keep a snapshot per action for undo/redo and time travel
+     * (defaults to on in development only)
+     */
+    history?: boolean;
+}
 
 /**
  * GameEngine: The heart of the game
@@ -18,8 +96,9 @@ import { getLogContextForAction } from '../utils/logContextMapper';
 export class GameEngine {
     /**
      * Current state of the game (resources, upgrades, etc.)
+     * Changes are tracked so only what changed is copied when publishing
      */
-    private state: GameState;
+    private store: StateStore<GameState>;
     
     /**
      * Communication system to notify about changes
@@ -32,9 +111,9 @@ export class GameEngine {
     private systems: GameSystemManager;
     
     /**
-     * Timestamp of the last update
+     * Fixed-step simulation loop
      */
-    private lastTick: number;
+    private loop: FixedStepLoop;
     
     /**
      * Whether the game loop is currently running
@@ -46,35 +125,172 @@ export class GameEngine {
      */
     private saveSystem: SaveSystem;
 
-    constructor() {
+    /**
+     * Time between autosaves while the game runs
+     */
+    private autoSaveIntervalMs: number;
+
+    /**
+     * Makes sure only one tab simulates and saves
+     */
+    private tabs: TabCoordinator;
+
+    /**
+     * False while another tab runs the game; this one only shows its last save
+     */
+    private activeTab = true;
+
+    /**
+     * Wall-clock time, used to sync game time and measure time away
+     */
+    private clock: Clock;
+
+    /**
+     * Latest published state, kept for in-app navigation
+     */
+    private stateCache: StateCache;
+
+    /**
+     * Report of the progress made while the game was closed, if any
+     */
+    private offlineReport: OfflineProgressReport | null = null;
+
+    /**
+     * Damaged save found while loading, until the player has seen it
+     */
+    private saveRecovery: SaveRecovery | null = null;
+
+    /**
+     * Slots changed both here and in the cloud, waiting for the player to pick a side
+     */
+    private syncConflicts: SyncConflict[] = [];
+
+    /**
+     * Sync waiting to send the latest saves to the cloud
+     */
+    private cloudSyncTimer: ReturnType<typeof setTimeout> | null = null;
+
+    /**
+     * Game time handed to the systems
+     * Advances with simulation steps and is re-synced to the wall clock
+     * when it drifts, so a replay sees exactly the same timestamps
+     */
+    private gameClock: ManualClock;
+
+    /**
+     * Records ticks and actions for deterministic replay
+     */
+    private journal = new JournalRecorder(JournalConstants.MAX_ENTRIES);
+
+    /**
+     * Timeline of snapshots per processed action, when enabled
+     */
+    private history: StateHistory | null;
+
+    /**
+     * Set when the action being processed reached its handler
+     */
+    private actionApplied = false;
+
+    /**
+     * Whether the simulation loop is paused while the engine keeps running
+     */
+    private simulationPaused = false;
+
+    /**
+     * Every dependency on the browser (time, frame scheduling, storage and
+     * the navigation cache) can be injected, so a full engine also runs
+     * in Node scripts and vitest
+     */
+    constructor(options: GameEngineOptions = {}) {
+        this.clock = options.clock || systemClock;
+        this.gameClock = new ManualClock(this.clock.now());
+        this.stateCache = options.stateCache || sharedStateCache;
+        
         // Check for cached state from in-app navigation
-        const cachedState = getCachedState();
+        const cachedState = this.stateCache.get();
+        let state: GameState;
         if (cachedState) {
             Logger.info(
                 LogCategory.ENGINE, 
                 "Using cached state from in-app navigation", 
                 LogContext.STARTUP
             );
-            this.state = JSON.parse(JSON.stringify(cachedState));
+            state = JSON.parse(JSON.stringify(cachedState));
         } else {
             // Start with a fresh game state if no cached state
-            this.state = JSON.parse(JSON.stringify(initialGameState));
+            state = JSON.parse(JSON.stringify(initialGameState));
+            
+            // Every new game gets its own random seed
+            state.rng = createRandomState();
         }
+        this.store = new StateStore(state);
+        
+        const historyEnabled = options.history ?? process.env.NODE_ENV === 'development';
+        this.history = historyEnabled ? new StateHistory(HistoryConstants.MAX_ENTRIES) : null;
         
         // Create our communication system
-        this.eventBus = new EventBus<EventMap>();
+        // State updates are coalesced; paths changed by skipped updates are merged into the next one
+        this.eventBus = new EventBus<EventMap>({
+            coalesce: {
+                stateUpdated: {
+                    intervalMs: EventBusConstants.STATE_UPDATE_INTERVAL_MS,
+                    merge: (pending, next) => ({
+                        state: next.state,
+                        changedPaths: mergeChangedPaths(pending.changedPaths, next.changedPaths)
+                    })
+                }
+            },
+            historySize: EventBusConstants.HISTORY_SIZE,
+            clock: this.clock
+        });
         
         // Initialize game systems, share the same event bus instance
-        this.systems = new GameSystemManager(this.eventBus);
+        this.systems = new GameSystemManager(this.eventBus, this.gameClock);
+        
+        // Built-in action middleware
+        this.use(createLoggingMiddleware());
+        this.use(createRateLimitMiddleware({
+            types: ['CLICK_RESOURCE'],
+            maxActions: ActionMiddlewareConstants.MAX_CLICKS_PER_WINDOW,
+            windowMs: ActionMiddlewareConstants.CLICK_WINDOW_MS,
+            now: () => this.clock.now()
+        }));
         
         // Initialize save system
-        this.saveSystem = new SaveSystem();
+        this.saveSystem = new SaveSystem(options.storage, this.clock);
+        if (options.cloudStorage) {
+            this.saveSystem.setCloudStorage(options.cloudStorage);
+        }
+        this.autoSaveIntervalMs = options.autoSaveIntervalMs ?? AutoSaveConstants.INTERVAL_MS;
+        this.saveSystem.onStatusChange(status => {
+            this.eventBus.emit('saveStatus', status);
+            if (status.status === 'saved') {
+                this.scheduleCloudSync();
+            }
+        });
+        
+        // Hand the game over cleanly when another tab takes it
+        this.tabs = options.tabs || new TabCoordinator(createDefaultTabChannel());
+        this.tabs.setReleaseHandler(() => this.handOver());
+        this.tabs.onOwnershipChange(isOwner => {
+            this.activeTab = isOwner;
+            this.eventBus.emit('tabOwnership', { isOwner });
+        });
         
         // Initialize game stats based on upgrades
-        this.systems.upgrade.updateAllStats(this.state);
+        this.store.mutate(draft => this.systems.upgrade.updateAllStats(draft));
+        this.store.commit();
         
-        // Initialize timing variables
-        this.lastTick = Date.now();
+        // Initialize the simulation loop
+        this.loop = new FixedStepLoop({
+            stepSeconds: GameLoopConstants.STEP_SECONDS,
+            maxStepsPerFrame: GameLoopConstants.MAX_STEPS_PER_FRAME,
+            scheduler: options.scheduler || createDefaultScheduler(GameLoopConstants.FALLBACK_INTERVAL_MS),
+            now: () => this.clock.now(),
+            update: (stepSeconds) => this.tick(stepSeconds),
+            render: () => this.render()
+        });
         this.isRunning = false;
         
         // Set up event handlers
@@ -94,6 +310,12 @@ export class GameEngine {
             this.processAction(action);
         });
         
+        // Journal every action that made it through validation and middleware
+        this.eventBus.on('actionApplied', ({ action }) => {
+            this.actionApplied = true;
+            this.journal.recordAction(action);
+        });
+        
         Logger.debug(LogCategory.ENGINE, "Event handlers configured", LogContext.STARTUP);
     }
 
@@ -107,7 +329,7 @@ export class GameEngine {
      */
     public async initialize(): Promise<void> {
         // If we already have a cached state, use it for immediate display
-        const cachedState = getCachedState();
+        const cachedState = this.stateCache.get();
         if (cachedState) {
             // We're using the cached state we loaded in the constructor
             // No need to update this.state again
@@ -118,6 +340,43 @@ export class GameEngine {
             );
         }
         
+        // Only one tab may run the simulation and write saves
+        if (!await this.tabs.connect()) {
+            this.activeTab = false;
+            this.eventBus.emit('tabOwnership', { isOwner: false });
+            await this.showLatestSave();
+            return;
+        }
+        
+        await this.runAsOwner();
+    }
+
+    /**
+     * Set this tab up to run the game once it owns it, from the start or
+     * after taking over
+     */
+    private async runAsOwner(): Promise<void> {
+        // Closing the page must free the game for the other tabs
+        if (typeof window !== 'undefined') {
+            window.addEventListener('pagehide', this.handlePageClose);
+        }
+        
+        // A device without saves may continue from the cloud, so it syncs
+        // first; otherwise the local save loads straight away, even offline,
+        // and the cloud catches up once it has
+        if (this.saveSystem.hasCloudStorage() && !await this.saveSystem.getMostRecentSaveId()) {
+            await this.syncSaves();
+            await this.loadOrStartFresh();
+        } else {
+            await this.loadOrStartFresh();
+            this.syncInBackground();
+        }
+    }
+
+    /**
+     * Load the most recent save, or start a new game if there is none
+     */
+    private async loadOrStartFresh(): Promise<void> {
         // Initialize save system
         await this.saveSystem.init();
         
@@ -141,6 +400,64 @@ export class GameEngine {
         }
     }
 
+    /**
+     * Show the most recent save without running it, while another tab plays
+     */
+    private async showLatestSave(): Promise<void> {
+        await this.saveSystem.init();
+        const saveData = await this.saveSystem.load();
+        if (saveData) {
+            this.store.replace(saveData.state);
+            this.publish();
+        }
+    }
+
+    /**
+     * Whether this tab runs the game (false while another tab does)
+     */
+    isActiveTab(): boolean {
+        return this.activeTab;
+    }
+
+    /**
+     * Take the game over from the tab running it
+     * That tab saves one last time, then this one continues from its save
+     */
+    async takeOver(): Promise<void> {
+        if (this.activeTab) return;
+        
+        await this.tabs.takeOver();
+        await this.runAsOwner();
+    }
+
+    /**
+     * Another tab is taking over: save one last time and stop
+     */
+    private async handOver(): Promise<void> {
+        if (this.isRunning) {
+            this.saveSystem.stopAutoSave();
+            await this.saveGame();
+        }
+        this.halt();
+    }
+
+    /**
+     * Save one last time when the page goes away, then let the other tabs
+     * know the game is free, so a tab that takes over loads this save
+     */
+    private handlePageClose = (event: PageTransitionEvent) => {
+        // Failures are already logged by the save system. The page may not
+        // come back, so the save goes to the cloud now rather than later.
+        const saved = this.isRunning
+            ? this.saveGame().then(() => this.flushCloudSync()).catch(() => undefined)
+            : Promise.resolve();
+        
+        // Pages kept in the back/forward cache may still come back
+        if (!event.persisted) {
+            saved.then(() => this.tabs.disconnect());
+        }
+    };
+
     /**
      * Start the game loop
      * Like turning on the clock
@@ -150,13 +467,59 @@ export class GameEngine {
         
         Logger.info(LogCategory.ENGINE, "Game engine started", LogContext.STARTUP);
         this.isRunning = true;
-        this.lastTick = Date.now();
+        
+        this.beginSession();
         
         // Start autosave
-        this.saveSystem.startAutoSave(() => this.getState(), 250); // Save every 250ms (quarter second)
+        this.startAutoSave();
+        
+        // Hiding the tab may be the last chance to save (closing the page
+        // is handled by handlePageClose)
+        if (typeof document !== 'undefined') {
+            document.addEventListener('visibilitychange', this.handlePageHide);
+        }
         
         // Start the game loop
-        this.gameLoop();
+        if (!this.simulationPaused) {
+            this.loop.start();
+        }
+    }
+
+    private startAutoSave() {
+        this.saveSystem.startAutoSave(
+            () => this.getState(),
+            this.autoSaveIntervalMs,
+            () => this.journal.getJournal()
+        );
+    }
+
+    /**
+     * Save when the tab is hidden
+     * Always writes, so the saved lastUpdate is current and the time
+     * away is measured from here rather than from an older save
+     */
+    private handlePageHide = () => {
+        if (document.visibilityState !== 'hidden') return;
+        
+        // Failures are already logged by the save system. The page may not
+        // come back, so the save goes to the cloud now rather than later.
+        this.saveGame()
+            .then(() => this.flushCloudSync())
+            .catch(() => undefined);
+    };
+
+    /**
+     * Start a fresh journal (and timeline) from the current state
+     */
+    private beginSession() {
+        this.publish();
+        this.gameClock.set(this.clock.now());
+        this.journal.begin(this.getState(), this.gameClock.now());
+        
+        // The first point on the timeline is where the session started
+        if (this.history && !this.history.getCurrent()) {
+            this.recordHistory('Session start');
+        }
     }
 
     /**
@@ -164,81 +527,97 @@ export class GameEngine {
      * Like pausing the clock
      */
     stop() {
-        // Save game state before stopping
-        this.saveGame();
-        
-        // Stop autosave
-        this.saveSystem.stopAutoSave();
+        // Save game state before stopping (a tab that only watches never saves)
+        if (this.activeTab) {
+            this.saveGame();
+        }
         
-        Logger.info(LogCategory.ENGINE, "Game engine stopped", LogContext.NONE);
-        this.isRunning = false;
+        this.halt();
     }
 
     /**
-     * The main game loop that runs continuously
-     * Like the ticking of a clock
+     * Stop the loop and autosave without saving
      */
-    private gameLoop() {
-        // Exit if we're no longer running
-        if (!this.isRunning) {
-            console.error("🛑 Game loop stopped: isRunning=false");
-            return;
+    private halt() {
+        // Stop autosave
+        this.saveSystem.stopAutoSave();
+        this.cancelCloudSync();
+        if (typeof document !== 'undefined') {
+            document.removeEventListener('visibilitychange', this.handlePageHide);
         }
-
-        // Log once every 5 seconds to avoid flooding the console
-        const now = Date.now();
-        if (Math.floor(now / 5000) !== Math.floor(this.lastTick / 5000)) {
-            Logger.debug(LogCategory.ENGINE, "🔄 Game loop running - timestamp: " + new Date().toLocaleTimeString(), LogContext.NONE);
+        if (typeof window !== 'undefined') {
+            window.removeEventListener('pagehide', this.handlePageClose);
         }
-
-        // Calculate time since last update
-        const delta = (now - this.lastTick) / 1000; // Convert to seconds
         
-        // Performance tracking for game loop
-        const endMeasure = Logger.measure("Game loop cycle", LogCategory.PERFORMANCE);
+        // Stop the game loop
+        this.loop.stop();
         
-        // Update game state
-        this.tick(delta);
+        // Deliver any state update still waiting to be coalesced
+        this.eventBus.flush();
         
-        // Remember when we did this update
-        this.lastTick = now;
-        
-        // End performance measurement
-        endMeasure();
-
-        // Schedule the next update
-        // This is like scheduling the next tick of the clock
-        requestAnimationFrame(() => this.gameLoop());
+        Logger.info(LogCategory.ENGINE, "Game engine stopped", LogContext.NONE);
+        this.isRunning = false;
     }
 
     /**
-     * Update the game state for a single frame
+     * Advance the simulation by a fixed step
      * This is where all the game logic happens
      * 
-     * @param delta - Time in seconds since last update
+     * @param delta - Length of the step in seconds
      */
     private tick(delta: number) {
-        // Store the previous state for comparison
-        const prevState = JSON.stringify(this.state);
-        
-        // Update the last update timestamp
-        this.state.lastUpdate = Date.now();
-        
         // Trace level logging for game ticks
         Logger.trace(LogCategory.ENGINE, `Tick with delta: ${delta.toFixed(5)}s`, LogContext.NONE);
         
-        // Update all game systems
-        this.systems.update(this.state, delta);
+        // Advance game time, update the last update timestamp and all game systems
+        this.store.mutate(draft => applyTick(this.systems, this.gameClock, draft, delta));
+        this.journal.recordTick(delta);
+    }
+
+    /**
+     * Publish the state once per frame, after all steps have run
+     */
+    private render() {
+        // Pull game time back to the wall clock if steps were dropped
+        const now = this.clock.now();
+        if (Math.abs(now - this.gameClock.now()) > JournalConstants.MAX_CLOCK_DRIFT_MS) {
+            this.gameClock.set(now);
+            this.journal.recordClock(now);
+        }
+        
+        this.publish();
         
-        // Only emit state updates if something actually changed
-        const currentState = JSON.stringify(this.state);
-        if (currentState !== prevState) {
-            // Cache the state whenever it changes
-            cacheState(this.state);
-            
-            this.eventBus.emit('stateUpdated', this.state);
+        // Keep the journal bounded by restarting it from the current state
+        if (this.journal.isFull()) {
+            this.journal.begin(this.getState(), this.gameClock.now());
         }
     }
+
+    /**
+     * Commit pending changes and notify listeners
+     * Does nothing if no change was recorded since the last publish
+     */
+    private publish() {
+        const changedPaths = this.store.commit();
+        if (changedPaths.length === 0) return;
+        
+        const state = this.store.getSnapshot();
+        
+        // Cache the state whenever it changes
+        this.stateCache.set(state);
+        
+        this.eventBus.emit('stateUpdated', { state, changedPaths });
+    }
+
+    /**
+     * Advance the simulation manually, independent of the scheduler
+     * Used by tests and scripts that drive the engine without a browser
+     * 
+     * @param seconds - Amount of game time to simulate
+     */
+    advanceTime(seconds: number) {
+        this.loop.advance(seconds);
+    }
     
     /**
      * Process an action and update the game state
@@ -251,52 +630,62 @@ export class GameEngine {
         
         Logger.debug(LogCategory.ENGINE, `Processing action: ${action.type}`, context);
         
-        // Log state before processing
-        const beforeEnergy = this.state.categories.reactor.resources.energy;
-        Logger.debug(
-            LogCategory.ENGINE, 
-            `State BEFORE action: ${action.type} - Energy: ${beforeEnergy}`, 
-            context
-        );
-        
-        // Pass the action to game systems and get updated state
-        const updatedState = this.systems.processAction(this.state, action);
-        
-        // Update the internal state
-        this.state = updatedState;
-        
-        // Log state after processing
-        const afterEnergy = this.state.categories.reactor.resources.energy;
-        Logger.debug(
-            LogCategory.ENGINE, 
-            `State AFTER action: ${action.type} - Energy: ${afterEnergy} (Changed: ${afterEnergy !== beforeEnergy})`, 
-            context
-        );
+        if (!this.activeTab) {
+            Logger.warn(LogCategory.ENGINE, `Ignoring ${action.type}: the game is running in another tab`, context);
+            return;
+        }
         
-        // Cache the state for in-app navigation
-        cacheState(this.state);
+        // Pass the action through the middleware pipeline to the game systems
+        const before = this.getState();
+        this.actionApplied = false;
+        this.store.mutate(draft => this.systems.processAction(draft, action));
         
-        // Notify that state has been updated
+        // Notify that state has been updated (and cache it for in-app navigation)
         Logger.debug(LogCategory.ENGINE, "Emitting stateUpdated event", context);
-        this.eventBus.emit('stateUpdated', this.state);
+        this.publish();
+        
+        // Add the resulting state to the timeline
+        if (this.actionApplied) {
+            this.recordHistory(action.type);
+            
+            // Progress that would hurt to lose is saved without waiting for the interval
+            const combatEnded = before.combat.active && !this.getState().combat.active;
+            if (action.type === 'PURCHASE_UPGRADE' || combatEnded) {
+                this.saveSystem.requestSave();
+            }
+        }
+    }
+    
+    /**
+     * Register a middleware that runs around every action
+     * Use it for cross-cutting behavior (validation, analytics, history)
+     * instead of editing the engine
+     * 
+     * @returns A function to remove the middleware again
+     */
+    use(middleware: ActionMiddleware): () => void {
+        return this.systems.useActionMiddleware(middleware);
     }
     
     /**
      * Dispatch an action to modify the game state
      * 
+     * Only registered action shapes type-check; anything else that slips
+     * through at runtime is rejected by ActionSystem validation
+     * 
      * @param action - The action to dispatch
      */
-    dispatch(action: GameAction) {
+    dispatch(action: GameActions) {
         this.eventBus.emit('DISPATCH_ACTION', action);
     }
 
     /**
      * Get the current game state
-     * Returns a deep copy to prevent direct state mutation
+     * Returns the latest published snapshot, which is frozen and
+     * shares unchanged parts with earlier snapshots
      */
     getState(): GameState {
-        // Return a deep copy of the state to prevent accidental mutations
-        return JSON.parse(JSON.stringify(this.state));
+        return this.store.getSnapshot();
     }
     
     /**
@@ -304,36 +693,444 @@ export class GameEngine {
      * @returns Promise<string> - The save ID
      */
     public async saveGame(): Promise<string> {
-        // Cache the state as we save
-        cacheState(this.state);
-        return await this.saveSystem.save(this.getState());
+        this.assertActiveTab('save');
+        
+        // Publish pending changes so the snapshot is current, then save it
+        this.publish();
+        return await this.saveSystem.save(this.getState(), {}, this.journal.getJournal());
+    }
+    
+    /**
+     * Where the last save stands; changes are announced with `saveStatus` events
+     */
+    public getSaveStatus(): SaveStatusInfo {
+        return this.saveSystem.getStatus();
     }
     
     /**
      * Load a game state
+     * @param saveId - Slot to load (defaults to the current or most recent one)
      * @returns Promise<boolean> - Whether a save was loaded
      */
-    public async loadGame(): Promise<boolean> {
-        const saveData = await this.saveSystem.load();
+    public async loadGame(saveId?: string): Promise<boolean> {
+        const saveData = await this.saveSystem.load(saveId);
+        
+        // A damaged save was replaced by a backup (or could not be)
+        const recovery = this.saveSystem.getLastRecovery();
+        if (recovery) {
+            this.saveRecovery = recovery;
+            this.eventBus.emit('saveRecovered', recovery);
+        }
         
         if (!saveData) {
             return false;
         }
         
         // Replace current state with saved state
-        this.state = saveData.state;
+        this.store.replace(saveData.state);
+        this.history?.clear();
         
-        // Cache the newly loaded state
-        cacheState(this.state);
+        // Catch up on the time that passed since the save was written
+        this.applyOfflineProgress();
         
-        // Notify about state update
-        this.eventBus.emit('stateUpdated', this.state);
+        // Cache the newly loaded state and notify about it
+        this.publish();
         
         // Start the game if not already running
         if (!this.isRunning) {
             this.start();
+        } else {
+            this.beginSession();
         }
         
         return true;
     }
+
+    /**
+     * Save the current slot, then continue from another one
+     * @returns Whether the other slot was loaded
+     */
+    public async switchSave(saveId: string): Promise<boolean> {
+        await this.saveGame();
+        return this.loadGame(saveId);
+    }
+
+    /**
+     * Save the current slot, then start a new game in a new slot
+     * @returns The ID of the new slot
+     */
+    public async newGame(name: string): Promise<string> {
+        this.assertActiveTab('start a new game');
+        await this.saveGame();
+        
+        const state: GameState = JSON.parse(JSON.stringify(initialGameState));
+        state.rng = createRandomState();
+        state.lastUpdate = this.clock.now();
+        
+        this.saveSystem.startNewSave(name);
+        this.store.replace(state);
+        this.store.mutate(draft => this.systems.upgrade.updateAllStats(draft));
+        this.history?.clear();
+        this.offlineReport = null;
+        
+        if (this.isRunning) {
+            this.beginSession();
+        }
+        
+        Logger.info(LogCategory.ENGINE, `Started new game "${name}"`, LogContext.SAVE_LOAD);
+        return this.saveGame();
+    }
+
+    /**
+     * List every save slot, most recently saved first
+     */
+    public listSaves(): Promise<SaveSlotInfo[]> {
+        return this.saveSystem.listSaves();
+    }
+
+    /**
+     * ID of the slot the game is currently saving to
+     */
+    public getCurrentSaveId(): string | null {
+        return this.saveSystem.getCurrentSaveId();
+    }
+
+    public renameSave(saveId: string, name: string): Promise<boolean> {
+        return this.saveSystem.renameSave(saveId, name);
+    }
+
+    public duplicateSave(saveId: string, name?: string): Promise<string | null> {
+        return this.saveSystem.duplicateSave(saveId, name);
+    }
+
+    /**
+     * Delete a slot other than the one in use
+     */
+    public deleteSave(saveId: string): Promise<boolean> {
+        return this.saveSystem.deleteSave(saveId);
+    }
+
+    /**
+     * List the backups of a slot, newest first
+     */
+    public listBackups(saveId: string): Promise<SaveBackupInfo[]> {
+        return this.saveSystem.listBackups(saveId);
+    }
+
+    /**
+     * Put a backup back into its slot, reloading it if it is the slot in use
+     * @returns Whether the backup was restored
+     */
+    public async restoreBackup(saveId: string, timestamp: number): Promise<boolean> {
+        this.assertActiveTab('restore a backup');
+        return this.withAutoSavePaused(async () => {
+            const restored = await this.saveSystem.restoreBackup(saveId, timestamp);
+            if (restored && this.isRunning && saveId === this.saveSystem.getCurrentSaveId()) {
+                await this.loadGame(saveId);
+            }
+            return restored;
+        });
+    }
+
+    /**
+     * Refuse to write saves while another tab runs the game: this tab only
+     * holds that tab's last save and would overwrite newer progress
+     */
+    private assertActiveTab(operation: string) {
+        if (!this.activeTab) {
+            throw new Error(`Cannot ${operation} while the game is running in another tab`);
+        }
+    }
+
+    /**
+     * Get the damaged save found while loading, if any
+     */
+    getSaveRecovery(): SaveRecovery | null {
+        return this.saveRecovery;
+    }
+
+    /**
+     * Forget the damaged save report once the player has seen it
+     */
+    clearSaveRecovery() {
+        this.saveRecovery = null;
+    }
+
+    /**
+     * Export a slot (the current one by default) as a portable string
+     * The current slot is saved first so the export is up to date, except
+     * while another tab runs the game: that tab writes the slots, so they
+     * are exported as it last saved them
+     */
+    public async exportSave(saveId?: string): Promise<string | null> {
+        const current = this.saveSystem.getCurrentSaveId();
+        if (!this.activeTab) {
+            saveId = saveId || current || undefined;
+        } else if (!saveId || saveId === current) {
+            saveId = await this.saveGame();
+        }
+        return saveId ? this.saveSystem.exportSave(saveId) : null;
+    }
+
+    /**
+     * Import an exported save into a new slot
+     */
+    public importSave(text: string): Promise<SaveImportResult> {
+        return this.saveSystem.importSave(text);
+    }
+
+    /**
+     * Sync save slots with a remote store from now on (null turns syncing off)
+     */
+    public setCloudStorage(remote: StorageAdapter | null) {
+        this.saveSystem.setCloudStorage(remote);
+        this.syncConflicts = [];
+    }
+
+    public hasCloudStorage(): boolean {
+        return this.saveSystem.hasCloudStorage();
+    }
+
+    /**
+     * Sync every slot with the cloud
+     * 
+     * A downloaded save for the slot in use is loaded straight away.
+     * Conflicts are kept for the player and announced with a `cloudSync` event.
+     * 
+     * @returns The outcome, or null when no cloud storage is set
+     */
+    public async syncSaves(): Promise<SyncResult | null> {
+        if (!this.saveSystem.hasCloudStorage()) return null;
+        
+        const result = await this.withAutoSavePaused(async () => {
+            const result = await this.saveSystem.syncWithCloud();
+            
+            const current = this.saveSystem.getCurrentSaveId();
+            if (result && this.isRunning && current && result.downloaded.includes(current)) {
+                await this.loadGame(current);
+            }
+            return result;
+        });
+        if (!result) return null;
+        
+        if (result.online) {
+            this.syncConflicts = result.conflicts;
+        }
+        // Every save so far went up with this sync, including its own
+        this.cancelCloudSync();
+        this.eventBus.emit('cloudSync', result);
+        return result;
+    }
+
+    /**
+     * Sync a while after a save, unless a sync is already waiting
+     */
+    private scheduleCloudSync() {
+        if (!this.isRunning || !this.saveSystem.hasCloudStorage() || this.cloudSyncTimer) return;
+        
+        this.cloudSyncTimer = setTimeout(() => {
+            this.cloudSyncTimer = null;
+            this.syncInBackground();
+        }, CloudSaveConstants.SYNC_DELAY_MS);
+    }
+
+    /**
+     * Run a waiting sync now
+     */
+    private flushCloudSync() {
+        if (!this.cloudSyncTimer) return;
+        
+        this.cancelCloudSync();
+        this.syncInBackground();
+    }
+
+    private cancelCloudSync() {
+        if (this.cloudSyncTimer) {
+            clearTimeout(this.cloudSyncTimer);
+            this.cloudSyncTimer = null;
+        }
+    }
+
+    /**
+     * Sync without holding up the caller; the outcome is announced with a `cloudSync` event
+     */
+    private syncInBackground() {
+        this.syncSaves().catch(error => {
+            Logger.error(LogCategory.ENGINE, `Cloud sync failed: ${error}`, LogContext.SAVE_LOAD);
+        });
+    }
+
+    /**
+     * Slots waiting for the player to choose between this device and the cloud
+     */
+    public getSyncConflicts(): SyncConflict[] {
+        return this.syncConflicts;
+    }
+
+    /**
+     * Settle a sync conflict, reloading the slot if it is in use and the cloud save was kept
+     * @returns Whether the conflict was resolved
+     */
+    public async resolveSyncConflict(saveId: string, keep: 'local' | 'remote'): Promise<boolean> {
+        const resolved = await this.withAutoSavePaused(async () => {
+            const resolved = await this.saveSystem.resolveSyncConflict(saveId, keep);
+            if (resolved && keep === 'remote' && this.isRunning && saveId === this.saveSystem.getCurrentSaveId()) {
+                await this.loadGame(saveId);
+            }
+            return resolved;
+        });
+        
+        if (resolved) {
+            this.syncConflicts = this.syncConflicts.filter(conflict => conflict.saveId !== saveId);
+        }
+        return resolved;
+    }
+
+    /**
+     * Save, then hold off autosave while `operation` rewrites slots in storage,
+     * so a slot written by it cannot be overwritten before it is loaded
+     */
+    private async withAutoSavePaused<T>(operation: () => Promise<T>): Promise<T> {
+        if (!this.isRunning) {
+            return operation();
+        }
+        
+        await this.saveGame();
+        this.saveSystem.stopAutoSave();
+        try {
+            return await operation();
+        } finally {
+            if (this.isRunning) {
+                this.startAutoSave();
+            }
+        }
+    }
+
+    /**
+     * Simulate the time elapsed since the loaded state was last updated
+     * and publish a "while you were away" report
+     */
+    private applyOfflineProgress() {
+        const now = this.clock.now();
+        this.gameClock.set(now);
+        
+        // Assigned inside the recipe, so keep TypeScript from narrowing it to null
+        let report = null as OfflineProgressReport | null;
+        
+        this.store.mutate(draft => {
+            const elapsedSeconds = (now - (draft.lastUpdate || now)) / 1000;
+            
+            if (elapsedSeconds < OfflineProgressConstants.MIN_OFFLINE_SECONDS) {
+                return;
+            }
+            
+            report = simulateOfflineProgress(this.systems, draft, elapsedSeconds);
+            draft.lastUpdate = now;
+        });
+        
+        if (!report || !hasOfflineGains(report)) {
+            return;
+        }
+        
+        this.offlineReport = report;
+        this.eventBus.emit('offlineProgress', report);
+    }
+
+    /**
+     * Get the undo/redo timeline, or null when history is disabled
+     */
+    getHistory(): StateHistory | null {
+        return this.history;
+    }
+
+    /**
+     * Return to the state before the last action
+     * @returns Whether there was anything to undo
+     */
+    undo(): boolean {
+        return this.applyHistoryEntry(this.history?.undo() ?? null);
+    }
+
+    /**
+     * Re-apply the most recently undone action
+     * @returns Whether there was anything to redo
+     */
+    redo(): boolean {
+        return this.applyHistoryEntry(this.history?.redo() ?? null);
+    }
+
+    /**
+     * Jump to any point on the timeline
+     * The next action branches off from there
+     */
+    travelTo(entryId: number): boolean {
+        return this.applyHistoryEntry(this.history?.travelTo(entryId) ?? null);
+    }
+
+    /**
+     * Pause or resume the simulation without stopping the engine
+     * Handy while stepping through history
+     */
+    setSimulationPaused(paused: boolean) {
+        this.simulationPaused = paused;
+        if (!this.isRunning) return;
+        
+        if (paused) {
+            this.loop.stop();
+        } else {
+            this.loop.start();
+        }
+    }
+
+    isSimulationPaused(): boolean {
+        return this.simulationPaused;
+    }
+
+    private recordHistory(label: string) {
+        if (!this.history) return;
+        
+        const entry = this.history.record(label, this.getState(), this.gameClock.now());
+        this.eventBus.emit('historyChanged', { currentId: entry.id });
+    }
+
+    /**
+     * Replace the live state with a snapshot from the timeline
+     */
+    private applyHistoryEntry(entry: HistoryEntry | null): boolean {
+        if (!entry) return false;
+        
+        Logger.info(LogCategory.ENGINE, `Travelling to history entry ${entry.id} (${entry.label})`, LogContext.NONE);
+        
+        // Snapshots are frozen, so the live state gets its own copy
+        this.store.replace(JSON.parse(JSON.stringify(entry.state)));
+        this.publish();
+        
+        // The journal cannot bridge a jump in time, so it restarts here
+        this.journal.begin(this.getState(), this.gameClock.now());
+        
+        this.eventBus.emit('historyChanged', { currentId: entry.id });
+        return true;
+    }
+
+    /**
+     * Get the journal recorded since the game was started
+     * Feed it to `replayJournal` to rebuild the session
+     */
+    getJournal(): ActionJournal | null {
+        return this.journal.getJournal();
+    }
+
+    /**
+     * Get the report of the last offline catch-up, if any
+     */
+    getOfflineReport(): OfflineProgressReport | null {
+        return this.offlineReport;
+    }
+
+    /**
+     * Forget the offline report once the player has seen it
+     */
+    clearOfflineReport() {
+        this.offlineReport = null;
+    }
 } 
\ No newline at end of file
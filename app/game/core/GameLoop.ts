@@ -0,0 +1,144 @@
+import { Scheduler } from './Scheduler';
+import Logger, { LogCategory, LogContext } from '@/app/utils/logger';
+
+// Tolerance for floating point drift when comparing the accumulator to a step
+const EPSILON = 1e-9;
+
+export interface FixedStepLoopOptions {
+  /**
+   * Length of one simulation step in seconds
+   */
+  stepSeconds: number;
+
+  /**
+   * Maximum number of steps run in a single frame; time beyond this is dropped
+   */
+  maxStepsPerFrame: number;
+
+  /**
+   * Decides when frames run
+   */
+  scheduler: Scheduler;
+
+  /**
+   * Current time in milliseconds
+   */
+  now?: () => number;
+
+  /**
+   * Advance the simulation by exactly one step
+   */
+  update: (stepSeconds: number) => void;
+
+  /**
+   * Called once per frame after all steps have run
+   * `steps` is how many simulation steps the frame contained
+   */
+  render?: (steps: number) => void;
+}
+
+/**
+ * FixedStepLoop: accumulator-based simulation loop
+ *
+ * Real time is collected into an accumulator and consumed in steps of a
+ * fixed length, so production and timers behave the same at 144 fps,
+ * 30 fps, or in a throttled background tab. Rendering happens once per
+ * frame, independent of how many steps ran.
+ */
+export class FixedStepLoop {
+  private options: FixedStepLoopOptions;
+  private now: () => number;
+  private accumulator = 0;
+  private lastFrame = 0;
+  private running = false;
+
+  constructor(options: FixedStepLoopOptions) {
+    this.options = options;
+    this.now = options.now || (() => Date.now());
+  }
+
+  /**
+   * Start pulling frames from the scheduler
+   */
+  start() {
+    if (this.running) return;
+
+    this.running = true;
+    this.accumulator = 0;
+    this.lastFrame = this.now();
+    this.options.scheduler.start(() => this.frame());
+  }
+
+  /**
+   * Stop the loop; any partial step left in the accumulator is discarded
+   */
+  stop() {
+    if (!this.running) return;
+
+    this.running = false;
+    this.options.scheduler.stop();
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Advance the simulation by an explicit amount of time, ignoring the clock
+   * Useful for tests and scripts driving the loop manually; unlike a
+   * real frame, no time is dropped however large `seconds` is
+   *
+   * @returns Number of steps that ran
+   */
+  advance(seconds: number): number {
+    this.accumulator += seconds;
+    let steps = this.runSteps(false);
+    while (this.hasPendingStep()) {
+      steps += this.runSteps(false);
+    }
+    return steps;
+  }
+
+  /**
+   * Run one frame: measure elapsed time and consume it in fixed steps
+   */
+  private frame() {
+    if (!this.running) return;
+
+    const now = this.now();
+    this.accumulator += Math.max(0, now - this.lastFrame) / 1000;
+    this.lastFrame = now;
+
+    this.runSteps(true);
+  }
+
+  private hasPendingStep(): boolean {
+    return this.accumulator + EPSILON >= this.options.stepSeconds;
+  }
+
+  private runSteps(dropBacklog: boolean): number {
+    const { stepSeconds, maxStepsPerFrame, update, render } = this.options;
+    const endMeasure = Logger.measure("Game loop cycle", LogCategory.PERFORMANCE);
+    let steps = 0;
+
+    while (this.hasPendingStep() && steps < maxStepsPerFrame) {
+      update(stepSeconds);
+      this.accumulator = Math.max(0, this.accumulator - stepSeconds);
+      steps++;
+    }
+
+    // Too far behind: drop the backlog rather than spiralling
+    if (dropBacklog && this.hasPendingStep()) {
+      Logger.warn(
+        LogCategory.ENGINE,
+        `Game loop fell behind, dropping ${this.accumulator.toFixed(2)}s of simulation`,
+        LogContext.NONE
+      );
+      this.accumulator = 0;
+    }
+
+    render?.(steps);
+    endMeasure();
+    return steps;
+  }
+}
@@ -0,0 +1,51 @@
+import { EncounterHistory, EncounterSummary, GameState } from '../types';
+import { SaveBudgetConstants } from '../config/gameConstants';
+
+const increment = <K extends string>(counts: Partial<Record<K, number>>, key: K) => {
+  counts[key] = (counts[key] ?? 0) + 1;
+};
+
+/**
+ * Fold encounters into a summary
+ * @returns A new summary; the one passed in is not modified
+ */
+export function summarizeEncounters(summary: EncounterSummary, entries: EncounterHistory[]): EncounterSummary {
+  const next: EncounterSummary = {
+    count: summary.count,
+    byType: { ...summary.byType },
+    byRegion: { ...summary.byRegion },
+    byResult: { ...summary.byResult },
+    firstDate: summary.firstDate,
+    lastDate: summary.lastDate
+  };
+
+  entries.forEach(entry => {
+    next.count++;
+    increment(next.byType, entry.type);
+    increment(next.byRegion, entry.region);
+    increment(next.byResult, entry.result);
+    next.firstDate = next.firstDate === null ? entry.date : Math.min(next.firstDate, entry.date);
+    next.lastDate = next.lastDate === null ? entry.date : Math.max(next.lastDate, entry.date);
+  });
+
+  return next;
+}
+
+/**
+ * Add an encounter to the history, keeping the history bounded
+ *
+ * The newest `SaveBudgetConstants.RECENT_ENCOUNTERS` are kept one by one;
+ * older ones only survive as totals in `encounters.archive`, so the
+ * history no longer grows with every jump.
+ */
+export function recordEncounter(state: GameState, entry: EncounterHistory) {
+  const history = [...(Array.isArray(state.encounters.history) ? state.encounters.history : []), entry];
+  const overflow = history.length - SaveBudgetConstants.RECENT_ENCOUNTERS;
+
+  if (overflow > 0) {
+    state.encounters.archive = summarizeEncounters(state.encounters.archive, history.slice(0, overflow));
+    state.encounters.history = history.slice(overflow);
+  } else {
+    state.encounters.history = history;
+  }
+}
@@ -0,0 +1,99 @@
+import { GameState } from '../types';
+import { GameSystemManager } from '../systems';
+import { getLogEntry } from '../systems/LogSystem';
+import { readResources } from '../utils/resources';
+import { OfflineProgressConstants } from '../config/gameConstants';
+import Logger, { LogCategory, LogContext } from '@/app/utils/logger';
+
+/**
+ * Summary of what happened while the player was away
+ */
+export interface OfflineProgressReport {
+  elapsedSeconds: number;     // Real time since the last update
+  simulatedSeconds: number;   // Time actually simulated (after the cap)
+  wasCapped: boolean;         // Whether the absence exceeded the cap
+  resourcesGained: Record<string, number>;
+  logsUnlocked: { id: string; title: string }[];
+  capsReached: string[];      // Resources that ended the absence full
+}
+
+export interface OfflineProgressOptions {
+  maxSeconds?: number;
+  chunkSeconds?: number;
+}
+
+/**
+ * Simulate the time that passed while the game was closed
+ *
+ * Runs the regular system update in bounded chunks so that crew awakening
+ * and log unlocks behave the same as they would have during live play.
+ * The state is mutated in place.
+ *
+ * @param systems - Game systems used for the simulation
+ * @param state - Game state restored from the save
+ * @param elapsedSeconds - Time since state.lastUpdate
+ * @param options - Optional overrides for the cap and chunk size
+ * @returns A report of what was produced
+ */
+export function simulateOfflineProgress(
+  systems: GameSystemManager,
+  state: GameState,
+  elapsedSeconds: number,
+  options: OfflineProgressOptions = {}
+): OfflineProgressReport {
+  const maxSeconds = options.maxSeconds ?? OfflineProgressConstants.MAX_OFFLINE_SECONDS;
+  const chunkSeconds = options.chunkSeconds ?? OfflineProgressConstants.CHUNK_SECONDS;
+
+  const elapsed = Math.max(0, elapsedSeconds);
+  const simulatedSeconds = Math.min(elapsed, maxSeconds);
+
+  const before = readResources(state);
+  const discoveredBefore = new Set(Object.keys(state.logs?.discovered || {}));
+
+  Logger.info(
+    LogCategory.ENGINE,
+    `Simulating ${simulatedSeconds.toFixed(0)}s of offline progress (away ${elapsed.toFixed(0)}s)`,
+    LogContext.STARTUP
+  );
+
+  let remaining = simulatedSeconds;
+  while (remaining > 0) {
+    const step = Math.min(chunkSeconds, remaining);
+    systems.update(state, step);
+    remaining -= step;
+  }
+
+  const after = readResources(state);
+  const resourcesGained: Record<string, number> = {};
+  const capsReached: string[] = [];
+
+  Object.keys(after).forEach(resource => {
+    const gained = after[resource].amount - before[resource].amount;
+    if (gained > 0) {
+      resourcesGained[resource] = gained;
+    }
+    if (gained > 0 && after[resource].amount >= after[resource].capacity) {
+      capsReached.push(resource);
+    }
+  });
+
+  const logsUnlocked = Object.values(state.logs?.discovered || {})
+    .filter(log => !discoveredBefore.has(log.id))
+    .map(log => ({ id: log.id, title: getLogEntry(log)?.title ?? log.id }));
+
+  return {
+    elapsedSeconds: elapsed,
+    simulatedSeconds,
+    wasCapped: elapsed > maxSeconds,
+    resourcesGained,
+    logsUnlocked,
+    capsReached
+  };
+}
+
+/**
+ * Whether a report contains anything worth showing the player
+ */
+export function hasOfflineGains(report: OfflineProgressReport): boolean {
+  return Object.keys(report.resourcesGained).length > 0 || report.logsUnlocked.length > 0;
+}
@@ -0,0 +1,106 @@
+import { v4 as uuidv4 } from 'uuid';
+import { GameState, RandomState } from '../types';
+
+/**
+ * Random number source bound to a game state
+ *
+ * Every call advances the cursor stored in the state, so the same
+ * save followed by the same actions always produces the same rolls.
+ */
+export interface Rng {
+  /** Float in [0, 1) */
+  next(): number;
+  /** Integer in [0, maxExclusive) */
+  int(maxExclusive: number): number;
+  /** Integer in [min, max] */
+  range(min: number, max: number): number;
+  /** True with the given probability */
+  chance(probability: number): boolean;
+  /** Random element of a non-empty array */
+  pick<T>(items: readonly T[]): T;
+  /** Random element weighted by `weight` */
+  weighted<T extends { weight: number }>(items: readonly T[]): T;
+  /** UUID built from the seeded stream */
+  uuid(): string;
+}
+
+/**
+ * Create a fresh random state for a new game
+ */
+export function createRandomState(seed?: number): RandomState {
+  return {
+    seed: (seed ?? Math.floor(Math.random() * 0x100000000)) >>> 0,
+    cursor: 0
+  };
+}
+
+/**
+ * Counter-based generator: hashes (seed, cursor) into a float in [0, 1)
+ * Uses the murmur3 finalizer so neighbouring cursors are uncorrelated
+ */
+function hash(seed: number, cursor: number): number {
+  let z = (seed + Math.imul(cursor + 1, 0x9e3779b9)) | 0;
+  z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+  z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+  z ^= z >>> 16;
+  return (z >>> 0) / 0x100000000;
+}
+
+/**
+ * RandomService
+ *
+ * Single source of randomness for all game systems. The seed and cursor
+ * live in GameState.rng so they are saved and restored with the game.
+ */
+export class RandomService {
+  /**
+   * Get a generator that reads and advances the state's random cursor
+   *
+   * @param state - Game state holding the seed and cursor
+   */
+  forState(state: GameState): Rng {
+    return this.fromRandomState(state.rng);
+  }
+
+  /**
+   * Reseed a game state, e.g. for a seeded challenge run
+   */
+  reseed(state: GameState, seed: number): void {
+    state.rng = createRandomState(seed);
+  }
+
+  /**
+   * Build a generator over a standalone random state
+   */
+  fromRandomState(random: RandomState): Rng {
+    const next = () => hash(random.seed, random.cursor++);
+
+    const rng: Rng = {
+      next,
+      int: (maxExclusive) => Math.floor(next() * maxExclusive),
+      range: (min, max) => min + Math.floor(next() * (max - min + 1)),
+      chance: (probability) => next() < probability,
+      pick: (items) => items[Math.floor(next() * items.length)],
+      weighted: (items) => {
+        const totalWeight = items.reduce((sum, item) => sum + item.weight, 0);
+        let roll = next() * totalWeight;
+        for (const item of items) {
+          roll -= item.weight;
+          if (roll <= 0) {
+            return item;
+          }
+        }
+        return items[0];
+      },
+      uuid: () => {
+        const bytes = new Uint8Array(16);
+        for (let i = 0; i < bytes.length; i++) {
+          bytes[i] = Math.floor(next() * 256);
+        }
+        return uuidv4({ random: bytes });
+      }
+    };
+
+    return rng;
+  }
+}
@@ -0,0 +1,84 @@
+import { GameState } from '../types';
+import { SaveBudgetConstants } from '../config/gameConstants';
+
+/**
+ * Serialized size of one part of a save
+ */
+export interface SaveSectionSize {
+  /**
+   * `state.<field>` for each top-level state field, or `journal` / `metadata`
+   */
+  section: string;
+  bytes: number;
+}
+
+/**
+ * Serialized size of a save, split by section
+ */
+export interface SaveSizeReport {
+  totalBytes: number;
+  /**
+   * Largest first
+   */
+  sections: SaveSectionSize[];
+  /**
+   * Whether the save is larger than `SaveBudgetConstants.MAX_SAVE_BYTES`
+   */
+  overBudget: boolean;
+}
+
+const byteLength = (value: unknown) =>
+  value === undefined ? 0 : new TextEncoder().encode(JSON.stringify(value)).length;
+
+/**
+ * Measure how much each part of a save takes up as JSON
+ */
+export function measureSave(save: { state: GameState; journal?: unknown; metadata?: unknown }): SaveSizeReport {
+  const sections: SaveSectionSize[] = Object.entries(save.state || {}).map(([field, value]) => ({
+    section: `state.${field}`,
+    bytes: byteLength(value)
+  }));
+  sections.push({ section: 'journal', bytes: byteLength(save.journal) });
+  sections.push({ section: 'metadata', bytes: byteLength(save.metadata) });
+  sections.sort((a, b) => b.bytes - a.bytes);
+
+  const totalBytes = byteLength(save);
+  return {
+    totalBytes,
+    sections,
+    overBudget: totalBytes > SaveBudgetConstants.MAX_SAVE_BYTES
+  };
+}
+
+/**
+ * Human-readable byte count, e.g. "12.3 KB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * The state as it should be written to a save
+ *
+ * The battle log only matters while a fight is on screen: outside combat
+ * it is left out, and during combat only the last
+ * `SaveBudgetConstants.SAVED_BATTLE_LOG_ENTRIES` are kept. The running
+ * game's state is never modified; unchanged states are returned as is.
+ */
+export function compactStateForSave(state: GameState): GameState {
+  const battleLog = state.combat?.battleLog;
+  if (!Array.isArray(battleLog)) return state;
+
+  const keep = state.combat.active ? SaveBudgetConstants.SAVED_BATTLE_LOG_ENTRIES : 0;
+  if (battleLog.length <= keep) return state;
+
+  return {
+    ...state,
+    combat: {
+      ...state.combat,
+      battleLog: keep > 0 ? battleLog.slice(-keep) : []
+    }
+  };
+}
@@ -0,0 +1,177 @@
+import { EncounterHistory, EncounterSummary, GameState, initialGameState } from '../types';
+import { createRandomState } from './RandomService';
+import { summarizeEncounters } from './HistoryArchive';
+import { SaveBudgetConstants } from '../config/gameConstants';
+
+/**
+ * A saved state from any version, before it has been migrated
+ */
+export type LegacyState = Record<string, unknown>;
+
+/**
+ * One step that upgrades a saved state by a single version
+ */
+export interface SaveMigration {
+  /**
+   * Version the state has after this step; it runs on states of `version - 1`
+   */
+  version: number;
+
+  /**
+   * What changed, for logs and the changelog
+   */
+  description: string;
+
+  /**
+   * Upgrade the state in place
+   */
+  migrate: (state: LegacyState) => void;
+}
+
+/**
+ * Every migration, in version order
+ *
+ * To change the shape of GameState: bump `initialGameState.version`,
+ * add a step here for the new version and cover it in
+ * tests/saveMigrations.test.ts. Purely additive fields need no step;
+ * they are filled in from initialGameState after the last migration.
+ */
+export const SAVE_MIGRATIONS: SaveMigration[] = [
+  {
+    version: 2,
+    description: 'Add seeded random number generator state',
+    migrate: (state) => {
+      if (!state.rng) {
+        state.rng = createRandomState();
+      }
+    }
+  },
+  {
+    version: 3,
+    description: 'Keep discovered logs as references and summarize old encounter history',
+    migrate: (state) => {
+      const logs = state.logs as { discovered?: Record<string, Record<string, unknown>> } | undefined;
+      Object.values(logs?.discovered || {}).forEach(log => {
+        // The text is looked up in LOG_DEFINITIONS now
+        delete log.title;
+        delete log.content;
+        delete log.category;
+      });
+
+      const encounters = state.encounters as { history?: EncounterHistory[]; archive?: EncounterSummary } | undefined;
+      if (encounters && Array.isArray(encounters.history)) {
+        const overflow = Math.max(0, encounters.history.length - SaveBudgetConstants.RECENT_ENCOUNTERS);
+        encounters.archive = summarizeEncounters(initialGameState.encounters.archive, encounters.history.slice(0, overflow));
+        encounters.history = encounters.history.slice(overflow);
+      }
+    }
+  }
+];
+
+/**
+ * Version written into new saves
+ */
+export const CURRENT_STATE_VERSION = initialGameState.version;
+
+/**
+ * Outcome of migrating a saved state
+ */
+export type MigrationResult =
+  | { success: true; state: GameState; fromVersion: number; applied: number[] }
+  | { success: false; error: string };
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Copy every field present in `defaults` but missing from `target`
+ * Existing values are never replaced, and arrays are treated as values
+ */
+export function fillMissingFields(target: Record<string, unknown>, defaults: Record<string, unknown>) {
+  Object.entries(defaults).forEach(([key, value]) => {
+    if (target[key] === undefined) {
+      target[key] = JSON.parse(JSON.stringify(value));
+    } else if (isPlainObject(target[key]) && isPlainObject(value)) {
+      fillMissingFields(target[key] as Record<string, unknown>, value);
+    }
+  });
+}
+
+/**
+ * Bring a saved state of any older version up to date
+ *
+ * Runs the registered steps in order starting at the state's version,
+ * then fills in fields added since from initialGameState. States from a
+ * newer version of the game are refused rather than guessed at.
+ *
+ * @param raw - The saved state; it is copied, never modified
+ * @param migrations - Steps to run (defaults to SAVE_MIGRATIONS)
+ */
+export function migrateState(
+  raw: unknown,
+  migrations: SaveMigration[] = SAVE_MIGRATIONS,
+  targetVersion: number = CURRENT_STATE_VERSION
+): MigrationResult {
+  if (!isPlainObject(raw)) {
+    return { success: false, error: 'The save contains no game state.' };
+  }
+
+  const state: LegacyState = JSON.parse(JSON.stringify(raw));
+  // Saves from before versioning have no version field
+  const fromVersion = typeof state.version === 'number' ? state.version : 1;
+
+  if (fromVersion > targetVersion) {
+    return {
+      success: false,
+      error: `This save was made by a newer version of the game (save version ${fromVersion}, supported up to ${targetVersion}).`
+    };
+  }
+
+  const applied: number[] = [];
+  for (let version = fromVersion + 1; version <= targetVersion; version++) {
+    const step = migrations.find(migration => migration.version === version);
+    if (step) {
+      step.migrate(state);
+      applied.push(version);
+    }
+    state.version = version;
+  }
+
+  fillMissingFields(state, initialGameState as unknown as Record<string, unknown>);
+  state.version = targetVersion;
+
+  return { success: true, state: state as unknown as GameState, fromVersion, applied };
+}
+
+/**
+ * Outcome of migrating a whole save
+ */
+export type SaveDataMigrationResult =
+  | { success: true; saveData: Record<string, unknown>; fromVersion: number; applied: number[] }
+  | { success: false; error: string };
+
+/**
+ * Migrate the state inside a save and stamp the save with the current version
+ *
+ * A journal recorded by an older version cannot be replayed by this one,
+ * so it is dropped when any migration ran.
+ */
+export function migrateSaveData(saveData: Record<string, unknown>): SaveDataMigrationResult {
+  const result = migrateState(saveData.state);
+  if (!result.success) {
+    return result;
+  }
+
+  const migrated = result.fromVersion !== CURRENT_STATE_VERSION;
+  return {
+    success: true,
+    saveData: {
+      ...saveData,
+      version: CURRENT_STATE_VERSION,
+      state: result.state,
+      journal: migrated ? null : saveData.journal
+    },
+    fromVersion: result.fromVersion,
+    applied: result.applied
+  };
+}
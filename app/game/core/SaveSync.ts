@@ -0,0 +1,257 @@
+import { StorageAdapter } from './storage/StorageAdapter';
+import { SaveData } from './SaveSystem';
+import { checksum } from '../utils/checksum';
+import Logger, { LogCategory, LogContext } from '@/app/utils/logger';
+
+// Storage key prefixes for save slots and their sync records
+const SAVE_KEY_PREFIX = 'save:';
+const SYNC_KEY_PREFIX = 'sync:';
+const CURRENT_SAVE_KEY = 'currentSave';
+
+/**
+ * What a slot looked like the last time both sides agreed on it
+ * Stored locally only, under `sync:<id>`
+ */
+interface SyncRecord {
+  hash: string;
+  timestamp: number;
+}
+
+/**
+ * Progress of one side of a conflict, for the player to compare
+ */
+export interface SyncSide {
+  name: string;
+  timestamp: number;
+  playTime: number;
+  region: string;
+  hash: string;
+}
+
+/**
+ * A slot changed on this device and in the cloud since they last agreed
+ */
+export interface SyncConflict {
+  saveId: string;
+  local: SyncSide;
+  remote: SyncSide;
+  /**
+   * The side with more play time (or, on a tie, the newer one)
+   */
+  suggested: 'local' | 'remote';
+}
+
+/**
+ * Outcome of one sync pass
+ */
+export interface SyncResult {
+  /**
+   * False when the remote could not be reached; nothing was changed
+   */
+  online: boolean;
+  uploaded: string[];
+  downloaded: string[];
+  deleted: string[];
+  conflicts: SyncConflict[];
+  /**
+   * Slots skipped because a request failed part way; retried next pass
+   */
+  failed: string[];
+}
+
+/**
+ * JSON with object keys sorted, so equal content hashes equally no matter
+ * how a store (Postgres JSONB, for one) reorders keys
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Hash of what the player would notice in a save: its state and metadata
+ * The journal is left out since remote stores may not keep it
+ */
+export function saveContentHash(save: SaveData): string {
+  return checksum(stableStringify({ state: save.state, metadata: save.metadata }));
+}
+
+function describeSide(save: SaveData): SyncSide {
+  return {
+    name: save.metadata.name || save.id,
+    timestamp: save.timestamp,
+    playTime: save.metadata.playTime || 0,
+    region: save.metadata.region || save.state.navigation?.currentRegion || 'void',
+    hash: saveContentHash(save)
+  };
+}
+
+const slotIds = (keys: string[]) =>
+  keys.filter(key => key.startsWith(SAVE_KEY_PREFIX)).map(key => key.slice(SAVE_KEY_PREFIX.length));
+
+/**
+ * SaveSync: keeps local save slots and a remote store in step
+ *
+ * Every slot is compared three ways: the local save, the remote save and
+ * the hash both had when they last agreed. Whichever side changed since
+ * then is copied to the other. When both changed, nothing is touched and
+ * the slot is reported as a conflict for the player to settle with
+ * `resolve`. Deleting a slot on one side deletes it on the other, unless
+ * the other side has changed it since.
+ *
+ * Local storage is never blocked on the remote: if the remote cannot be
+ * reached the pass is abandoned and simply runs again later.
+ */
+export class SaveSync {
+  constructor(private local: StorageAdapter, private remote: StorageAdapter) {}
+
+  /**
+   * Run one sync pass over every slot
+   */
+  async sync(): Promise<SyncResult> {
+    const result: SyncResult = { online: true, uploaded: [], downloaded: [], deleted: [], conflicts: [], failed: [] };
+
+    let remoteIds: string[];
+    let remoteCurrentId: string | null;
+    try {
+      remoteIds = slotIds(await this.remote.getAllKeys());
+      remoteCurrentId = await this.remote.load(CURRENT_SAVE_KEY);
+    } catch (error) {
+      Logger.warn(LogCategory.ENGINE, `Cloud sync skipped, remote unavailable: ${error}`, LogContext.SAVE_LOAD);
+      return { ...result, online: false };
+    }
+
+    const localIds = slotIds(await this.local.getAllKeys());
+    const localCurrentId: string | null = await this.local.load(CURRENT_SAVE_KEY);
+    const allIds = Array.from(new Set([...localIds, ...remoteIds]));
+
+    for (const saveId of allIds) {
+      try {
+        await this.syncSlot(saveId, localCurrentId, result);
+      } catch (error) {
+        Logger.warn(LogCategory.ENGINE, `Cloud sync of save ${saveId} failed: ${error}`, LogContext.SAVE_LOAD);
+        result.failed.push(saveId);
+      }
+    }
+
+    // A fresh device continues where the cloud left off; otherwise the
+    // cloud follows the slot this device is playing
+    try {
+      if (!localCurrentId && remoteCurrentId && result.downloaded.includes(remoteCurrentId)) {
+        await this.local.save(CURRENT_SAVE_KEY, remoteCurrentId);
+      } else if (localCurrentId && localCurrentId !== remoteCurrentId && !result.failed.includes(localCurrentId)) {
+        await this.remote.save(CURRENT_SAVE_KEY, localCurrentId);
+      }
+    } catch (error) {
+      Logger.warn(LogCategory.ENGINE, `Cloud sync could not update the current save: ${error}`, LogContext.SAVE_LOAD);
+    }
+
+    Logger.info(
+      LogCategory.ENGINE,
+      `Cloud sync: ${result.uploaded.length} uploaded, ${result.downloaded.length} downloaded, ` +
+        `${result.deleted.length} deleted, ${result.conflicts.length} conflicts`,
+      LogContext.SAVE_LOAD
+    );
+    return result;
+  }
+
+  /**
+   * Settle a conflict by copying one side over the other
+   * @returns Whether the chosen side still exists and was copied
+   */
+  async resolve(saveId: string, keep: 'local' | 'remote'): Promise<boolean> {
+    const key = `${SAVE_KEY_PREFIX}${saveId}`;
+    const [from, to] = keep === 'local' ? [this.local, this.remote] : [this.remote, this.local];
+
+    try {
+      const save: SaveData | null = await from.load(key);
+      if (!save) return false;
+
+      await to.save(key, save);
+      await this.writeRecord(saveId, save);
+    } catch (error) {
+      Logger.error(LogCategory.ENGINE, `Failed to resolve sync conflict for ${saveId}: ${error}`, LogContext.SAVE_LOAD);
+      return false;
+    }
+
+    Logger.info(LogCategory.ENGINE, `Resolved sync conflict for ${saveId} keeping the ${keep} save`, LogContext.SAVE_LOAD);
+    return true;
+  }
+
+  private async syncSlot(saveId: string, localCurrentId: string | null, result: SyncResult): Promise<void> {
+    const key = `${SAVE_KEY_PREFIX}${saveId}`;
+    const [localSave, remoteSave, record] = await Promise.all([
+      this.local.load(key) as Promise<SaveData | null>,
+      this.remote.load(key) as Promise<SaveData | null>,
+      this.local.load(`${SYNC_KEY_PREFIX}${saveId}`) as Promise<SyncRecord | null>
+    ]);
+
+    const localHash = localSave && saveContentHash(localSave);
+    const remoteHash = remoteSave && saveContentHash(remoteSave);
+    const localChanged = localHash !== record?.hash;
+    const remoteChanged = remoteHash !== record?.hash;
+
+    if (localSave && remoteSave) {
+      if (localHash === remoteHash) {
+        if (localChanged) await this.writeRecord(saveId, localSave);
+      } else if (!remoteChanged) {
+        await this.remote.save(key, localSave);
+        await this.writeRecord(saveId, localSave);
+        result.uploaded.push(saveId);
+      } else if (!localChanged) {
+        await this.local.save(key, remoteSave);
+        await this.writeRecord(saveId, remoteSave);
+        result.downloaded.push(saveId);
+      } else {
+        const local = describeSide(localSave);
+        const remote = describeSide(remoteSave);
+        const localAhead = local.playTime !== remote.playTime
+          ? local.playTime > remote.playTime
+          : local.timestamp >= remote.timestamp;
+        result.conflicts.push({ saveId, local, remote, suggested: localAhead ? 'local' : 'remote' });
+      }
+      return;
+    }
+
+    if (localSave) {
+      // Deleted in the cloud; keep it if it changed here since, or is in use
+      if (record && !localChanged && saveId !== localCurrentId) {
+        await this.local.delete(key);
+        await this.local.delete(`${SYNC_KEY_PREFIX}${saveId}`);
+        result.deleted.push(saveId);
+      } else {
+        await this.remote.save(key, localSave);
+        await this.writeRecord(saveId, localSave);
+        result.uploaded.push(saveId);
+      }
+      return;
+    }
+
+    if (remoteSave) {
+      // Deleted on this device; keep it if it changed in the cloud since
+      if (record && !remoteChanged) {
+        await this.remote.delete(key);
+        await this.local.delete(`${SYNC_KEY_PREFIX}${saveId}`);
+        result.deleted.push(saveId);
+      } else {
+        await this.local.save(key, remoteSave);
+        await this.writeRecord(saveId, remoteSave);
+        result.downloaded.push(saveId);
+      }
+    }
+  }
+
+  private async writeRecord(saveId: string, save: SaveData): Promise<void> {
+    const record: SyncRecord = { hash: saveContentHash(save), timestamp: save.timestamp };
+    await this.local.save(`${SYNC_KEY_PREFIX}${saveId}`, record);
+  }
+}
@@ -1,6 +1,13 @@
 import { v4 as uuidv4 } from 'uuid';
 import { LocalForageAdapter, StorageAdapter } from './storage/StorageAdapter';
 import { GameState } from '../types';
+import { ActionJournal } from './ActionJournal';
+import { Clock, systemClock } from './Clock';
+import { decodeSave, encodeSave, validateSaveData } from './SaveTransfer';
+import { CURRENT_STATE_VERSION, migrateSaveData } from './SaveMigrations';
+import { SaveSync, SyncResult, saveContentHash } from './SaveSync';
+import { SaveSizeReport, compactStateForSave, formatBytes, measureSave } from './SaveBudget';
+import { AutoSaveConstants, BackupConstants } from '../config/gameConstants';
 import Logger, { LogCategory, LogContext } from '@/app/utils/logger';
 
 /**
@@ -8,16 +15,129 @@ import Logger, { LogCategory, LogContext } from '@/app/utils/logger';
  */
 export interface SaveData {
   id: string;
-  version: string;
+  /**
+   * Schema version of `state` when saved (older saves used '1.0.0')
+   */
+  version: number;
   timestamp: number;
   state: GameState;
+  /**
+   * Ticks and actions of the session that produced this save, for replay
+   * Slots keep it under a key of its own (`journal:<id>`) so their size
+   * stays that of the game; it is only part of exported saves
+   */
+  journal?: ActionJournal | null;
   metadata: {
     playTime: number;
     lastPlayed: string;
+    /**
+     * Player-facing slot name
+     */
+    name?: string;
+    /**
+     * Region the ship was in when saved
+     */
+    region?: string;
     // other metadata can be added here
   };
+  /**
+   * Hash of state and metadata, to detect saves damaged after writing
+   * (missing from saves written before checksums were added)
+   */
+  checksum?: string;
 }
 
+/**
+ * Summary of one save slot, for listing slots without loading them
+ */
+export interface SaveSlotInfo {
+  id: string;
+  name: string;
+  timestamp: number;
+  playTime: number;
+  region: string;
+  lastPlayed: string;
+  /**
+   * Whether this is the slot the game is currently saving to
+   */
+  isCurrent: boolean;
+  /**
+   * False for saves made by a newer version of the game, which cannot be loaded
+   */
+  isCompatible: boolean;
+  /**
+   * How much room the slot takes up, per section
+   */
+  size: SaveSizeReport;
+}
+
+/**
+ * One backup of a slot
+ */
+export interface SaveBackupInfo {
+  saveId: string;
+  /**
+   * When the backed up save was written; identifies the backup
+   */
+  timestamp: number;
+  playTime: number;
+  region: string;
+  /**
+   * False if the backup itself is damaged or cannot be loaded
+   */
+  isValid: boolean;
+}
+
+/**
+ * A damaged save found while loading, and what was done about it
+ */
+export interface SaveRecovery {
+  saveId: string;
+  /**
+   * What was wrong with the save
+   */
+  reason: string;
+  /**
+   * Backup that replaced it, or null if no usable backup was left
+   */
+  restoredFrom: number | null;
+}
+
+/**
+ * Outcome of checking a stored save before using it
+ * `damaged` is false for saves that are fine but cannot be used, such as
+ * saves from a newer version of the game
+ */
+type SaveCheck =
+  | { success: true; save: SaveData }
+  | { success: false; error: string; damaged: boolean };
+
+/**
+ * Where the last save stands, for the save indicator
+ */
+export interface SaveStatusInfo {
+  status: 'idle' | 'saving' | 'saved' | 'failed';
+  /**
+   * When the game was last saved successfully
+   */
+  lastSaved: number | null;
+  error?: string;
+}
+
+/**
+ * Outcome of importing an exported save
+ */
+export type SaveImportResult =
+  | { success: true; saveId: string }
+  | { success: false; error: string };
+
+// Storage key prefixes for save slots and their backups (`backup:<id>:<timestamp>`)
+const SAVE_KEY_PREFIX = 'save:';
+const BACKUP_KEY_PREFIX = 'backup:';
+const JOURNAL_KEY_PREFIX = 'journal:';
+
+const DEFAULT_SAVE_NAME = 'Save 1';
+
 /**
  * SaveSystem handles saving and loading game state
  * with support for multiple save files and cloud sync
@@ -25,41 +145,65 @@ export interface SaveData {
 export class SaveSystem {
   private storage: StorageAdapter;
   private currentSaveId: string | null = null;
+  private currentSaveName: string = DEFAULT_SAVE_NAME;
   private autoSaveInterval: NodeJS.Timeout | null = null;
-  private version: string = '1.0.0';
-  private gameStartTime: number = Date.now();
+  private autoSaveDebounce: NodeJS.Timeout | null = null;
+  private autoSaveSource: { getState: () => GameState; getJournal?: () => ActionJournal | null } | null = null;
+  /**
+   * State written by the last successful save, to skip saves with nothing new
+   */
+  private lastSavedState: GameState | null = null;
+  private pendingSave: Promise<string> | null = null;
+  private status: SaveStatusInfo = { status: 'idle', lastSaved: null };
+  private statusListeners = new Set<(status: SaveStatusInfo) => void>();
+  /**
+   * Timestamp of the newest backup per slot, once known
+   */
+  private lastBackupAt = new Map<string, number>();
+  private lastRecovery: SaveRecovery | null = null;
+  private gameStartTime: number;
   private totalPlayTime: number = 0;
+  private clock: Clock;
+  private cloudSync: SaveSync | null = null;
   
-  constructor(adapter?: StorageAdapter) {
+  /**
+   * @param adapter - Where saves are written (defaults to IndexedDB via localforage)
+   * @param clock - Time source for save timestamps and play time
+   */
+  constructor(adapter?: StorageAdapter, clock: Clock = systemClock) {
     this.storage = adapter || new LocalForageAdapter();
+    this.clock = clock;
+    this.gameStartTime = clock.now();
     Logger.info(LogCategory.ENGINE, "SaveSystem initialized", LogContext.STARTUP);
   }
 
   /**
    * Initialize the save system and check for existing saves
+   * 
+   * Does not switch to the most recent slot: the load that follows verifies
+   * it (recovering it from a backup and reporting that) and only then makes
+   * it current, so a slot that load refuses is never saved over.
    */
   public async init(): Promise<void> {
-    const mostRecentSave = await this.getMostRecentSave();
-    if (mostRecentSave) {
-      this.currentSaveId = mostRecentSave.id;
-      this.totalPlayTime = mostRecentSave.metadata.playTime || 0;
+    const mostRecentId = await this.getMostRecentSaveId();
+    if (mostRecentId) {
       Logger.info(
         LogCategory.ENGINE, 
-        `Found existing save (${this.currentSaveId})`, 
+        `Found existing save (${mostRecentId})`, 
         LogContext.STARTUP
       );
     } else {
       Logger.info(LogCategory.ENGINE, "No existing saves found", LogContext.STARTUP);
     }
-    this.gameStartTime = Date.now();
+    this.gameStartTime = this.clock.now();
   }
   
   /**
    * Save game state with metadata
    */
-  public async save(state: GameState, metadata: any = {}): Promise<string> {
+  public async save(state: GameState, metadata: any = {}, journal?: ActionJournal | null): Promise<string> {
     // Update play time tracking
-    const currentTime = Date.now();
+    const currentTime = this.clock.now();
     const sessionTime = (currentTime - this.gameStartTime) / 1000; // in seconds
     this.totalPlayTime += sessionTime;
     this.gameStartTime = currentTime;
@@ -70,26 +214,41 @@ export class SaveSystem {
     // Prepare save data
     const saveData: SaveData = {
       id: saveId,
-      version: this.version,
+      version: CURRENT_STATE_VERSION,
       timestamp: currentTime,
-      state,
+      state: compactStateForSave(state),
       metadata: {
         playTime: Math.floor(this.totalPlayTime),
-        lastPlayed: new Date().toISOString().split('T')[0],
+        lastPlayed: new Date(currentTime).toISOString().split('T')[0],
+        name: this.currentSaveName,
+        region: state.navigation.currentRegion,
         ...metadata
       }
     };
     
-    const saveKey = `save:${saveId}`;
-    
-    try {
+    this.setStatus({ status: 'saving', lastSaved: this.status.lastSaved });
+    const write = (async () => {
       // Save the game data
-      await this.storage.save(saveKey, saveData);
+      await this.writeSlot(saveData);
+      this.reportOverBudget(saveData);
+      if (journal !== undefined) {
+        await this.writeJournal(saveId, journal);
+      }
       
       // Save a pointer to the most recent save
       await this.storage.save('currentSave', saveId);
       
+      await this.rotateBackups(saveData);
+      return saveId;
+    })();
+    this.pendingSave = write;
+    
+    try {
+      await write;
+      
       this.currentSaveId = saveId;
+      this.lastSavedState = state;
+      this.setStatus({ status: 'saved', lastSaved: currentTime });
       
       Logger.debug(
         LogCategory.ENGINE, 
@@ -99,12 +258,17 @@ export class SaveSystem {
       
       return saveId;
     } catch (error) {
+      this.setStatus({ status: 'failed', lastSaved: this.status.lastSaved, error: String(error) });
       Logger.error(
         LogCategory.ENGINE, 
         `Failed to save game: ${error}`, 
         LogContext.SAVE_LOAD
       );
       throw error;
+    } finally {
+      if (this.pendingSave === write) {
+        this.pendingSave = null;
+      }
     }
   }
   
@@ -113,18 +277,20 @@ export class SaveSystem {
    */
   public async load(saveId?: string): Promise<SaveData | null> {
     const idToLoad = saveId || this.currentSaveId;
+    this.lastRecovery = null;
     
     if (!idToLoad) {
       const mostRecentSave = await this.getMostRecentSave();
       if (mostRecentSave) {
         this.currentSaveId = mostRecentSave.id;
+        this.currentSaveName = mostRecentSave.metadata.name || DEFAULT_SAVE_NAME;
         this.totalPlayTime = mostRecentSave.metadata.playTime || 0;
         return mostRecentSave;
       }
       return null;
     }
     
-    const saveKey = `save:${idToLoad}`;
+    const saveKey = `${SAVE_KEY_PREFIX}${idToLoad}`;
     
     try {
       const saveData = await this.storage.load(saveKey);
@@ -138,18 +304,27 @@ export class SaveSystem {
         return null;
       }
       
-      // Handle version migrations
-      if (saveData.version !== this.version) {
-        Logger.info(
-          LogCategory.ENGINE, 
-          `Migrating save from ${saveData.version} to ${this.version}`, 
-          LogContext.STARTUP
-        );
-        return this.migrateSaveData(saveData);
+      // Bring older saves up to date; saves from newer versions are refused
+      // before the slot becomes current, so they are never overwritten
+      const check = this.checkSave(saveData);
+      let migrated: SaveData;
+      if (check.success) {
+        migrated = check.save;
+      } else if (check.damaged) {
+        const recovered = await this.recoverFromBackup(idToLoad, check.error);
+        if (!recovered) {
+          return null;
+        }
+        migrated = recovered;
+      } else {
+        return null;
       }
       
-      this.totalPlayTime = saveData.metadata.playTime || 0;
-      this.gameStartTime = Date.now();
+      // Further saves go to the slot that was loaded
+      this.currentSaveId = idToLoad;
+      this.currentSaveName = migrated.metadata.name || DEFAULT_SAVE_NAME;
+      this.totalPlayTime = migrated.metadata.playTime || 0;
+      this.gameStartTime = this.clock.now();
       
       Logger.info(
         LogCategory.ENGINE, 
@@ -157,7 +332,7 @@ export class SaveSystem {
         LogContext.STARTUP
       );
       
-      return saveData;
+      return migrated;
     } catch (error) {
       Logger.error(
         LogCategory.ENGINE, 
@@ -170,14 +345,15 @@ export class SaveSystem {
   
   /**
    * Start autosaving at specified interval
+   * Each interval only writes if the state changed since the last save
    */
   public startAutoSave(
     getStateCallback: () => GameState, 
-    intervalMs: number = 250 // Every quarter second as requested
+    intervalMs: number = AutoSaveConstants.INTERVAL_MS,
+    getJournalCallback?: () => ActionJournal | null
   ): void {
-    if (this.autoSaveInterval) {
-      clearInterval(this.autoSaveInterval);
-    }
+    this.stopAutoSave();
+    this.autoSaveSource = { getState: getStateCallback, getJournal: getJournalCallback };
     
     Logger.info(
       LogCategory.ENGINE, 
@@ -185,15 +361,19 @@ export class SaveSystem {
       LogContext.STARTUP
     );
     
-    this.autoSaveInterval = setInterval(() => {
-      this.save(getStateCallback());
-    }, intervalMs);
+    this.autoSaveInterval = setInterval(() => this.autoSave(), intervalMs);
   }
   
   /**
    * Stop autosaving
    */
   public stopAutoSave(): void {
+    if (this.autoSaveDebounce) {
+      clearTimeout(this.autoSaveDebounce);
+      this.autoSaveDebounce = null;
+    }
+    this.autoSaveSource = null;
+    
     if (this.autoSaveInterval) {
       clearInterval(this.autoSaveInterval);
       this.autoSaveInterval = null;
@@ -202,11 +382,341 @@ export class SaveSystem {
     }
   }
   
+  /**
+   * Autosave soon instead of waiting for the next interval
+   * Requests made in quick succession result in a single save
+   */
+  public requestSave(): void {
+    if (!this.autoSaveSource) return;
+    
+    if (this.autoSaveDebounce) {
+      clearTimeout(this.autoSaveDebounce);
+    }
+    this.autoSaveDebounce = setTimeout(() => {
+      this.autoSaveDebounce = null;
+      this.autoSave();
+    }, AutoSaveConstants.DEBOUNCE_MS);
+  }
+  
+  /**
+   * Whether `state` holds progress the last save does not
+   * `lastUpdate` moves on every tick, so a change to it alone does not count
+   */
+  public hasUnsavedChanges(state: GameState): boolean {
+    const saved = this.lastSavedState;
+    if (!saved) return true;
+    
+    // Snapshots share unchanged subtrees, so comparing references is enough
+    return (Object.keys(state) as Array<keyof GameState>)
+      .some(key => key !== 'lastUpdate' && state[key] !== saved[key]);
+  }
+  
+  public getStatus(): SaveStatusInfo {
+    return this.status;
+  }
+  
+  /**
+   * Listen for save status changes
+   * @returns A function to stop listening
+   */
+  public onStatusChange(listener: (status: SaveStatusInfo) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => this.statusListeners.delete(listener);
+  }
+  
+  /**
+   * Save the autosave source if it changed, after any save still in progress
+   */
+  private async autoSave(): Promise<void> {
+    if (this.pendingSave) {
+      await this.pendingSave.catch(() => undefined);
+    }
+    
+    const source = this.autoSaveSource;
+    if (!source) return;
+    
+    const state = source.getState();
+    if (!this.hasUnsavedChanges(state)) return;
+    
+    // Failures are already logged by save(); the next interval simply tries again
+    await this.save(state, {}, source.getJournal?.()).catch(() => undefined);
+  }
+  
+  private setStatus(status: SaveStatusInfo) {
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+  
   /**
    * Get play time in seconds
    */
   public getPlayTime(): number {
-    return this.totalPlayTime + (Date.now() - this.gameStartTime) / 1000;
+    return this.totalPlayTime + (this.clock.now() - this.gameStartTime) / 1000;
+  }
+  
+  /**
+   * ID of the slot the game is currently saving to
+   */
+  public getCurrentSaveId(): string | null {
+    return this.currentSaveId;
+  }
+  
+  /**
+   * Get the ID of the most recent slot, without reading it
+   */
+  public async getMostRecentSaveId(): Promise<string | null> {
+    try {
+      return (await this.storage.load('currentSave')) || null;
+    } catch (error) {
+      Logger.error(
+        LogCategory.ENGINE, 
+        `Error retrieving most recent save: ${error}`, 
+        LogContext.SAVE_LOAD
+      );
+      return null;
+    }
+  }
+  
+  /**
+   * List every save slot, most recently saved first
+   */
+  public async listSaves(): Promise<SaveSlotInfo[]> {
+    try {
+      const keys = await this.storage.getAllKeys();
+      const saves = await Promise.all(
+        keys
+          .filter(key => key.startsWith(SAVE_KEY_PREFIX))
+          .map(key => this.storage.load(key) as Promise<SaveData | null>)
+      );
+      
+      return saves
+        .filter((save): save is SaveData => !!save)
+        .map(save => ({
+          id: save.id,
+          name: save.metadata.name || DEFAULT_SAVE_NAME,
+          timestamp: save.timestamp,
+          playTime: save.metadata.playTime || 0,
+          region: save.metadata.region || save.state.navigation?.currentRegion || 'void',
+          lastPlayed: save.metadata.lastPlayed,
+          isCurrent: save.id === this.currentSaveId,
+          isCompatible: (save.state?.version ?? 1) <= CURRENT_STATE_VERSION,
+          size: measureSave(save)
+        }))
+        .sort((a, b) => b.timestamp - a.timestamp);
+    } catch (error) {
+      Logger.error(
+        LogCategory.ENGINE, 
+        `Failed to list saves: ${error}`, 
+        LogContext.SAVE_LOAD
+      );
+      return [];
+    }
+  }
+  
+  /**
+   * Point further saves at a brand new slot
+   * Nothing is written until the next save()
+   */
+  public startNewSave(name: string): string {
+    this.currentSaveId = uuidv4();
+    this.currentSaveName = name;
+    this.totalPlayTime = 0;
+    this.gameStartTime = this.clock.now();
+    
+    Logger.info(LogCategory.ENGINE, `Started new save slot "${name}"`, LogContext.SAVE_LOAD);
+    return this.currentSaveId;
+  }
+  
+  /**
+   * Give a slot a new name
+   * @returns Whether the slot exists
+   */
+  public async renameSave(saveId: string, name: string): Promise<boolean> {
+    const saveData = await this.readSlot(saveId);
+    if (!saveData) return false;
+    
+    saveData.metadata.name = name;
+    await this.writeSlot(saveData);
+    
+    if (saveId === this.currentSaveId) {
+      this.currentSaveName = name;
+    }
+    return true;
+  }
+  
+  /**
+   * Copy a slot into a new one
+   * @returns The ID of the copy, or null if the slot does not exist
+   */
+  public async duplicateSave(saveId: string, name?: string): Promise<string | null> {
+    const saveData = await this.readSlot(saveId);
+    if (!saveData) return null;
+    
+    const copyId = uuidv4();
+    const copy: SaveData = {
+      ...saveData,
+      id: copyId,
+      metadata: {
+        ...saveData.metadata,
+        name: name || `${saveData.metadata.name || DEFAULT_SAVE_NAME} (copy)`
+      }
+    };
+    await this.writeSlot(copy);
+    
+    Logger.info(LogCategory.ENGINE, `Duplicated save ${saveId} as ${copyId}`, LogContext.SAVE_LOAD);
+    return copyId;
+  }
+  
+  /**
+   * Delete a slot
+   * The slot currently in use cannot be deleted; switch to another one first
+   * 
+   * @returns Whether the slot was deleted
+   */
+  public async deleteSave(saveId: string): Promise<boolean> {
+    if (saveId === this.currentSaveId) {
+      Logger.warn(
+        LogCategory.ENGINE, 
+        `Refusing to delete the save in use (${saveId})`, 
+        LogContext.SAVE_LOAD
+      );
+      return false;
+    }
+    
+    try {
+      await this.storage.delete(`${SAVE_KEY_PREFIX}${saveId}`);
+      await this.storage.delete(`${JOURNAL_KEY_PREFIX}${saveId}`);
+      await Promise.all((await this.getBackupKeys(saveId)).map(key => this.storage.delete(key)));
+      this.lastBackupAt.delete(saveId);
+      Logger.info(LogCategory.ENGINE, `Deleted save ${saveId}`, LogContext.SAVE_LOAD);
+      return true;
+    } catch (error) {
+      Logger.error(
+        LogCategory.ENGINE, 
+        `Failed to delete save ${saveId}: ${error}`, 
+        LogContext.SAVE_LOAD
+      );
+      return false;
+    }
+  }
+  
+  /**
+   * List the backups of a slot, newest first
+   */
+  public async listBackups(saveId: string): Promise<SaveBackupInfo[]> {
+    try {
+      const keys = await this.getBackupKeys(saveId);
+      const backups = await Promise.all(keys.map(key => this.storage.load(key)));
+      
+      return backups
+        .filter((backup): backup is SaveData => !!backup)
+        .map(backup => ({
+          saveId,
+          timestamp: backup.timestamp,
+          playTime: backup.metadata?.playTime || 0,
+          region: backup.metadata?.region || 'void',
+          isValid: this.checkSave(backup).success
+        }));
+    } catch (error) {
+      Logger.error(
+        LogCategory.ENGINE, 
+        `Failed to list backups of ${saveId}: ${error}`, 
+        LogContext.SAVE_LOAD
+      );
+      return [];
+    }
+  }
+  
+  /**
+   * Put a backup back into its slot, replacing the save there
+   * Reload the slot afterwards if it is the current one
+   * 
+   * @returns Whether the backup was usable and restored
+   */
+  public async restoreBackup(saveId: string, timestamp: number): Promise<boolean> {
+    const check = this.checkSave(await this.storage.load(`${BACKUP_KEY_PREFIX}${saveId}:${timestamp}`));
+    if (!check.success) {
+      Logger.warn(LogCategory.ENGINE, `Cannot restore backup of ${saveId}: ${check.error}`, LogContext.SAVE_LOAD);
+      return false;
+    }
+    
+    await this.writeSlot(check.save);
+    Logger.info(
+      LogCategory.ENGINE, 
+      `Restored save ${saveId} from the backup of ${new Date(timestamp).toISOString()}`, 
+      LogContext.SAVE_LOAD
+    );
+    return true;
+  }
+  
+  /**
+   * Damaged save found by the last load(), if any
+   */
+  public getLastRecovery(): SaveRecovery | null {
+    return this.lastRecovery;
+  }
+  
+  /**
+   * Export a slot as a portable, checksummed string
+   * @returns The exported text, or null if the slot does not exist
+   */
+  public async exportSave(saveId: string): Promise<string | null> {
+    const saveData = await this.readSlot(saveId);
+    if (!saveData) return null;
+    
+    // Slots written before journals had their own key still hold theirs
+    const journal = await this.storage.load(`${JOURNAL_KEY_PREFIX}${saveId}`);
+    return encodeSave({ ...saveData, journal: journal ?? saveData.journal ?? null });
+  }
+  
+  /**
+   * Import an exported save into a new slot
+   * The text is fully validated first; existing slots are never touched
+   */
+  public async importSave(text: string): Promise<SaveImportResult> {
+    const result = await decodeSave(text);
+    if (!result.success) {
+      Logger.warn(LogCategory.ENGINE, `Rejected save import: ${result.error}`, LogContext.SAVE_LOAD);
+      return result;
+    }
+    
+    const saveId = uuidv4();
+    const { journal, ...save } = result.save;
+    const saveData: SaveData = {
+      ...save,
+      id: saveId,
+      metadata: {
+        ...result.save.metadata,
+        name: `${result.save.metadata.name || DEFAULT_SAVE_NAME} (imported)`
+      }
+    };
+    
+    try {
+      await this.writeSlot(saveData);
+      await this.writeJournal(saveId, journal ?? null);
+    } catch (error) {
+      Logger.error(LogCategory.ENGINE, `Failed to store imported save: ${error}`, LogContext.SAVE_LOAD);
+      return { success: false, error: 'The save could not be stored.' };
+    }
+    
+    Logger.info(LogCategory.ENGINE, `Imported save as ${saveId}`, LogContext.SAVE_LOAD);
+    return { success: true, saveId };
+  }
+  
+  /**
+   * Read a slot as stored, without switching to it
+   */
+  private async readSlot(saveId: string): Promise<SaveData | null> {
+    try {
+      return await this.storage.load(`${SAVE_KEY_PREFIX}${saveId}`);
+    } catch (error) {
+      Logger.error(
+        LogCategory.ENGINE, 
+        `Failed to read save ${saveId}: ${error}`, 
+        LogContext.SAVE_LOAD
+      );
+      return null;
+    }
   }
   
   /**
@@ -230,44 +740,204 @@ export class SaveSystem {
   }
   
   /**
-   * Migrate save data between versions
+   * Verify a stored save and bring it up to the current version
+   * 
+   * Checks the checksum first (saves written before checksums existed
+   * have none), then migrates, then validates against the schema.
    */
-  private migrateSaveData(saveData: SaveData): SaveData {
-    // Migration logic would be expanded as game evolves
+  private checkSave(saveData: unknown): SaveCheck {
+    const raw = saveData as SaveData;
+    if (typeof raw !== 'object' || raw === null || typeof raw.state !== 'object' || raw.state === null) {
+      return { success: false, error: 'The save contains no game state.', damaged: true };
+    }
     
-    // Example migration from older versions
-    if (saveData.version === '0.9.0') {
-      // Add new fields or adjust data structure
-      // saveData.state.newFeature = defaultValue;
-      Logger.debug(
+    if (raw.checksum && raw.checksum !== saveContentHash(raw)) {
+      return { success: false, error: 'Checksum mismatch: the save was damaged after it was written.', damaged: true };
+    }
+    
+    const migration = migrateSaveData(raw as unknown as Record<string, unknown>);
+    if (!migration.success) {
+      Logger.error(
         LogCategory.ENGINE, 
-        `Migrated save from version 0.9.0`, 
+        `Cannot load save ${raw.id}: ${migration.error}`, 
+        LogContext.SAVE_LOAD
+      );
+      return { ...migration, damaged: false };
+    }
+    
+    if (migration.applied.length > 0 || migration.fromVersion !== CURRENT_STATE_VERSION) {
+      Logger.info(
+        LogCategory.ENGINE, 
+        `Migrated save ${raw.id} from version ${migration.fromVersion} to ${CURRENT_STATE_VERSION}`, 
         LogContext.STARTUP
       );
     }
     
-    // Update to current version
-    saveData.version = this.version;
-    return saveData;
+    const validation = validateSaveData(migration.saveData);
+    return validation.success ? validation : { ...validation, damaged: true };
   }
   
-  // Future Supabase integration methods
-  public async syncToCloud(userId: string): Promise<void> {
-    // This will be implemented when Supabase is added
-    Logger.info(
+  /**
+   * Replace a damaged slot with its newest usable backup
+   * The outcome is kept for getLastRecovery() either way
+   * 
+   * @returns The restored save, or null if no backup could be used
+   */
+  private async recoverFromBackup(saveId: string, reason: string): Promise<SaveData | null> {
+    Logger.error(
       LogCategory.ENGINE, 
-      `[Future] Sync to cloud for user: ${userId}`, 
-      LogContext.NONE
+      `Save ${saveId} is damaged (${reason}), looking for a backup`, 
+      LogContext.SAVE_LOAD
     );
+    
+    for (const key of await this.getBackupKeys(saveId)) {
+      const check = this.checkSave(await this.storage.load(key));
+      if (!check.success) {
+        Logger.warn(LogCategory.ENGINE, `Skipping unusable backup ${key}: ${check.error}`, LogContext.SAVE_LOAD);
+        continue;
+      }
+      
+      await this.writeSlot(check.save);
+      this.lastRecovery = { saveId, reason, restoredFrom: check.save.timestamp };
+      Logger.warn(
+        LogCategory.ENGINE, 
+        `Restored save ${saveId} from the backup of ${new Date(check.save.timestamp).toISOString()}`, 
+        LogContext.SAVE_LOAD
+      );
+      return check.save;
+    }
+    
+    this.lastRecovery = { saveId, reason, restoredFrom: null };
+    Logger.error(LogCategory.ENGINE, `No usable backup of save ${saveId}`, LogContext.SAVE_LOAD);
+    return null;
+  }
+  
+  /**
+   * Write a slot, stamping it with a fresh checksum
+   */
+  private async writeSlot(saveData: SaveData): Promise<void> {
+    await this.storage.save(`${SAVE_KEY_PREFIX}${saveData.id}`, {
+      ...saveData,
+      checksum: saveContentHash(saveData)
+    });
   }
   
-  public async syncFromCloud(userId: string): Promise<boolean> {
-    // This will be implemented when Supabase is added
+  /**
+   * Keep the latest journal of a slot (null removes it)
+   */
+  private async writeJournal(saveId: string, journal: ActionJournal | null): Promise<void> {
+    const key = `${JOURNAL_KEY_PREFIX}${saveId}`;
+    if (journal) {
+      await this.storage.save(key, journal);
+    } else {
+      await this.storage.delete(key);
+    }
+  }
+  
+  /**
+   * Warn when a save outgrows `SaveBudgetConstants.MAX_SAVE_BYTES`,
+   * naming the sections that take up the most room
+   */
+  private reportOverBudget(saveData: SaveData): void {
+    const size = measureSave(saveData);
+    if (!size.overBudget) return;
+    
+    const largest = size.sections
+      .slice(0, 3)
+      .map(section => `${section.section} ${formatBytes(section.bytes)}`)
+      .join(', ');
+    Logger.warn(
+      LogCategory.ENGINE,
+      `Save ${saveData.id} is ${formatBytes(size.totalBytes)}, over its budget (largest: ${largest})`,
+      LogContext.SAVE_LOAD
+    );
+  }
+  
+  /**
+   * Backup keys of a slot, newest first
+   */
+  private async getBackupKeys(saveId: string): Promise<string[]> {
+    const prefix = `${BACKUP_KEY_PREFIX}${saveId}:`;
+    const keys = (await this.storage.getAllKeys()).filter(key => key.startsWith(prefix));
+    return keys
+      .map(key => ({ key, timestamp: Number(key.slice(prefix.length)) }))
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .map(({ key }) => key);
+  }
+  
+  /**
+   * Back up a save that was just written, at most once per
+   * `BackupConstants.INTERVAL_MS`, keeping the newest `MAX_BACKUPS`
+   * Only saves that pass validation are kept, so every backup is usable
+   */
+  private async rotateBackups(saveData: SaveData): Promise<void> {
+    try {
+      const lastBackup = this.lastBackupAt.get(saveData.id);
+      if (lastBackup !== undefined && saveData.timestamp - lastBackup < BackupConstants.INTERVAL_MS) {
+        return;
+      }
+      
+      const keys = await this.getBackupKeys(saveData.id);
+      const newest = keys.length > 0 ? Number(keys[0].split(':').pop()) : null;
+      if (newest !== null && saveData.timestamp - newest < BackupConstants.INTERVAL_MS) {
+        this.lastBackupAt.set(saveData.id, newest);
+        return;
+      }
+      
+      const validation = validateSaveData(saveData);
+      if (!validation.success) {
+        Logger.warn(LogCategory.ENGINE, `Not backing up invalid save ${saveData.id}: ${validation.error}`, LogContext.SAVE_LOAD);
+        return;
+      }
+      
+      await this.storage.save(`${BACKUP_KEY_PREFIX}${saveData.id}:${saveData.timestamp}`, {
+        ...saveData,
+        checksum: saveContentHash(saveData)
+      });
+      this.lastBackupAt.set(saveData.id, saveData.timestamp);
+      
+      await Promise.all(
+        keys.slice(BackupConstants.MAX_BACKUPS - 1).map(key => this.storage.delete(key))
+      );
+    } catch (error) {
+      // A missed backup must never fail the save itself
+      Logger.warn(LogCategory.ENGINE, `Failed to back up save ${saveData.id}: ${error}`, LogContext.SAVE_LOAD);
+    }
+  }
+  
+  /**
+   * Sync slots with a remote store from now on (null turns syncing off)
+   */
+  public setCloudStorage(remote: StorageAdapter | null): void {
+    this.cloudSync = remote ? new SaveSync(this.storage, remote) : null;
     Logger.info(
       LogCategory.ENGINE, 
-      `[Future] Sync from cloud for user: ${userId}`, 
-      LogContext.NONE
+      remote ? "Cloud sync enabled" : "Cloud sync disabled", 
+      LogContext.SAVE_LOAD
     );
-    return false;
+  }
+  
+  public hasCloudStorage(): boolean {
+    return this.cloudSync !== null;
+  }
+  
+  /**
+   * Upload and download every slot that changed on only one side
+   * Slots changed on both sides are returned as conflicts and left alone
+   * 
+   * @returns The outcome, or null when no cloud storage is set
+   */
+  public async syncWithCloud(): Promise<SyncResult | null> {
+    if (!this.cloudSync) return null;
+    return this.cloudSync.sync();
+  }
+  
+  /**
+   * Settle a sync conflict by keeping one side
+   * Reload the slot afterwards if it is the current one and the cloud save was kept
+   */
+  public async resolveSyncConflict(saveId: string, keep: 'local' | 'remote'): Promise<boolean> {
+    if (!this.cloudSync) return false;
+    return this.cloudSync.resolve(saveId, keep);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,149 @@
+import { z } from 'zod';
+import { SaveData } from './SaveSystem';
+import { gameStateSchema } from '../types/gameStateSchema';
+import { checksum } from '../utils/checksum';
+import { migrateSaveData } from './SaveMigrations';
+
+/**
+ * Save export format
+ *
+ * `DERELICT-DAWN-SAVE:<format>:<crc32 of the JSON>:<base64 of gzipped JSON>`
+ *
+ * The text survives copy/paste, chat messages and bug trackers. The
+ * format number changes whenever the layout of the string changes;
+ * changes to the save itself are handled by the save version.
+ */
+const EXPORT_PREFIX = 'DERELICT-DAWN-SAVE';
+const EXPORT_FORMAT = 1;
+
+const journalEntrySchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('ticks'), delta: z.number().positive(), count: z.number().int().positive() }),
+  z.object({ kind: z.literal('action'), action: z.object({ type: z.string(), payload: z.any() }) }),
+  z.object({ kind: z.literal('clock'), time: z.number() })
+]);
+
+const saveDataSchema = z.object({
+  id: z.string().min(1),
+  version: z.number(),
+  timestamp: z.number(),
+  state: gameStateSchema,
+  journal: z.object({
+    startTime: z.number(),
+    startState: gameStateSchema,
+    entries: z.array(journalEntrySchema)
+  }).nullable().optional(),
+  metadata: z.object({
+    playTime: z.number().nonnegative(),
+    lastPlayed: z.string(),
+    name: z.string().optional(),
+    region: z.string().optional()
+  }).passthrough(),
+  checksum: z.string().optional()
+});
+
+/**
+ * Outcome of reading an exported save
+ */
+export type DecodeSaveResult =
+  | { success: true; save: SaveData }
+  | { success: false; error: string };
+
+/**
+ * Check a save of the current version against the schema
+ * The first problems found are described in a message for the player
+ */
+export function validateSaveData(data: unknown): DecodeSaveResult {
+  const result = saveDataSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const more = result.error.issues.length > 1 ? ` (and ${result.error.issues.length - 1} more problems)` : '';
+    return { success: false, error: `Invalid save data at ${issue.path.join('.') || 'root'}: ${issue.message}${more}` };
+  }
+
+  return { success: true, save: result.data as SaveData };
+}
+
+async function gzip(text: string): Promise<Uint8Array> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function gunzip(bytes: Uint8Array): Promise<string> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return await new Response(stream).text();
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked, since spreading a large array into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Turn a save into a portable, checksummed string
+ */
+export async function encodeSave(save: SaveData): Promise<string> {
+  const json = JSON.stringify(save);
+  const payload = toBase64(await gzip(json));
+  return `${EXPORT_PREFIX}:${EXPORT_FORMAT}:${checksum(json)}:${payload}`;
+}
+
+/**
+ * Read a string produced by encodeSave
+ *
+ * Every step is checked (format, encoding, checksum, version, schema) and
+ * the first failure is reported as a message that can be shown to the player.
+ * Saves from older versions are migrated before they are validated.
+ */
+export async function decodeSave(text: string): Promise<DecodeSaveResult> {
+  const parts = text.trim().split(':');
+  if (parts.length !== 4 || parts[0] !== EXPORT_PREFIX) {
+    return { success: false, error: 'This is not a Derelict Dawn save.' };
+  }
+
+  const [, format, expectedChecksum, payload] = parts;
+  if (Number(format) !== EXPORT_FORMAT) {
+    return { success: false, error: `Unsupported save format ${format}; this game reads format ${EXPORT_FORMAT}.` };
+  }
+
+  let json: string;
+  try {
+    json = await gunzip(fromBase64(payload));
+  } catch {
+    return { success: false, error: 'The save is incomplete or damaged and could not be decoded.' };
+  }
+
+  if (checksum(json) !== expectedChecksum) {
+    return { success: false, error: 'Checksum mismatch: the save was modified or damaged.' };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { success: false, error: 'The save contents are not valid JSON.' };
+  }
+
+  if (typeof data !== 'object' || data === null) {
+    return { success: false, error: 'The save contents are not a save.' };
+  }
+
+  const migration = migrateSaveData(data as Record<string, unknown>);
+  if (!migration.success) {
+    return migration;
+  }
+
+  return validateSaveData(migration.saveData);
+}
@@ -0,0 +1,149 @@
+/**
+ * Schedulers decide when the game loop gets to run a frame
+ *
+ * The loop itself is time-based, so a scheduler only has to call the
+ * frame callback "often enough". Swapping the scheduler lets the same
+ * engine run in a visible tab, a hidden tab, or under vitest.
+ */
+export interface Scheduler {
+  /**
+   * Begin calling `frame` repeatedly until stop() is called
+   */
+  start(frame: () => void): void;
+
+  /**
+   * Stop calling the frame callback
+   */
+  stop(): void;
+}
+
+/**
+ * Runs frames on requestAnimationFrame
+ * Smooth while visible, but browsers pause it in hidden tabs
+ */
+export class AnimationFrameScheduler implements Scheduler {
+  private handle: number | null = null;
+
+  start(frame: () => void): void {
+    this.stop();
+    const loop = () => {
+      frame();
+      this.handle = requestAnimationFrame(loop);
+    };
+    this.handle = requestAnimationFrame(loop);
+  }
+
+  stop(): void {
+    if (this.handle !== null) {
+      cancelAnimationFrame(this.handle);
+      this.handle = null;
+    }
+  }
+}
+
+/**
+ * Runs frames on setInterval
+ * Keeps running in hidden tabs (browsers throttle it to about once per second)
+ */
+export class IntervalScheduler implements Scheduler {
+  private handle: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private intervalMs: number) {}
+
+  start(frame: () => void): void {
+    this.stop();
+    this.handle = setInterval(frame, this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.handle !== null) {
+      clearInterval(this.handle);
+      this.handle = null;
+    }
+  }
+}
+
+/**
+ * Uses requestAnimationFrame while the page is visible and falls back
+ * to an interval while it is hidden, so the simulation never pauses
+ */
+export class BrowserScheduler implements Scheduler {
+  private animationFrame = new AnimationFrameScheduler();
+  private interval: IntervalScheduler;
+  private active: Scheduler | null = null;
+  private frame: (() => void) | null = null;
+
+  constructor(hiddenIntervalMs: number) {
+    this.interval = new IntervalScheduler(hiddenIntervalMs);
+  }
+
+  start(frame: () => void): void {
+    this.stop();
+    this.frame = frame;
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    this.switchTo(document.hidden ? this.interval : this.animationFrame);
+  }
+
+  stop(): void {
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    this.active?.stop();
+    this.active = null;
+    this.frame = null;
+  }
+
+  private handleVisibilityChange = () => {
+    this.switchTo(document.hidden ? this.interval : this.animationFrame);
+  };
+
+  private switchTo(scheduler: Scheduler) {
+    if (!this.frame || this.active === scheduler) return;
+    this.active?.stop();
+    this.active = scheduler;
+    scheduler.start(this.frame);
+  }
+}
+
+/**
+ * Only runs a frame when asked to
+ * Intended for Node scripts and tests, where there is no browser clock
+ */
+export class ManualScheduler implements Scheduler {
+  private frame: (() => void) | null = null;
+
+  start(frame: () => void): void {
+    this.frame = frame;
+  }
+
+  stop(): void {
+    this.frame = null;
+  }
+
+  /**
+   * Run the given number of frames immediately
+   */
+  runFrames(count: number = 1): void {
+    for (let i = 0; i < count && this.frame; i++) {
+      this.frame();
+    }
+  }
+
+  /**
+   * Whether the scheduler has been started and not stopped
+   */
+  isRunning(): boolean {
+    return this.frame !== null;
+  }
+}
+
+/**
+ * Pick a scheduler suitable for the current environment
+ */
+export function createDefaultScheduler(hiddenIntervalMs: number): Scheduler {
+  if (typeof document !== 'undefined' && typeof requestAnimationFrame !== 'undefined') {
+    return new BrowserScheduler(hiddenIntervalMs);
+  }
+  if (typeof setInterval !== 'undefined') {
+    return new IntervalScheduler(hiddenIntervalMs);
+  }
+  return new ManualScheduler();
+}
@@ -0,0 +1,213 @@
+import { GameState, StatModifier } from '../types';
+import { STAT_DEFINITIONS } from '../config/statDefinitions';
+import { UPGRADE_CATALOG } from '../config/upgradeCatalog';
+import { REGION_DEFINITIONS } from '../content/regions';
+import { STATUS_EFFECT_MODIFIERS } from '../content/statusEffects';
+import { getResourceDefinitions } from '../utils/resources';
+import { getRoutingFactor, POWER_SYSTEMS } from '../utils/powerRouting';
+import { getAtPath, setAtPath } from '../utils/objectPath';
+import { finiteNumber } from '../utils/numbers';
+
+/**
+ * Where a stat's value comes from
+ */
+export interface StatBreakdown {
+  stat: string;
+  label: string;
+  base: number;
+  /**
+   * In the order they are applied: flat, then percent, then multiplier
+   */
+  modifiers: StatModifier[];
+  value: number;
+}
+
+/**
+ * Something that derives modifiers from the state every time stats are
+ * recomputed, so they never need to be stored or cleaned up
+ */
+type ModifierProvider = (state: GameState) => StatModifier[];
+
+const rateStatPath = (category: string, stat: string) => `categories.${category}.stats.${stat}`;
+
+const upgradeModifiers: ModifierProvider = (state) => {
+  const modifiers: StatModifier[] = [];
+  Object.values(UPGRADE_CATALOG).forEach(upgrades => {
+    Object.entries(upgrades).forEach(([upgradeType, def]) => {
+      const owned = getAtPath(state, def.incrementPath);
+      const level = typeof owned === 'number' ? owned : 0;
+      if (level <= 0) return;
+      def.modifiers(level).forEach(modifier => modifiers.push({
+        ...modifier,
+        source: `upgrade:${upgradeType}`,
+        label: `${def.name} x${level}`
+      }));
+    });
+  });
+  return modifiers;
+};
+
+const regionModifiers: ModifierProvider = (state) => {
+  const region = Object.values(REGION_DEFINITIONS)
+    .find(definition => definition.type === state.navigation?.currentRegion);
+  if (!region?.resourceModifiers) return [];
+
+  return getResourceDefinitions()
+    .filter(resource => (region.resourceModifiers![resource.id] ?? 1) !== 1)
+    .map((resource): StatModifier => ({
+      source: `region:${region.id}`,
+      label: region.name,
+      stat: rateStatPath(resource.category, resource.rateStat),
+      type: 'multiplier',
+      value: region.resourceModifiers![resource.id]
+    }));
+};
+
+const powerModifiers: ModifierProvider = (state) => {
+  const modifiers: StatModifier[] = [];
+  POWER_SYSTEMS.forEach(system => {
+    const factor = getRoutingFactor(state, system);
+    if (factor === 1) return;
+
+    const stats = system === 'shields'
+      ? ['combat.playerStats.maxShield']
+      : getResourceDefinitions()
+        .filter(resource => resource.category === system)
+        .map(resource => rateStatPath(resource.category, resource.rateStat));
+    stats.forEach(stat => modifiers.push({
+      source: `power:${system}`,
+      label: 'Power Routing',
+      stat,
+      type: 'multiplier',
+      value: factor
+    }));
+  });
+  return modifiers;
+};
+
+const statusEffectModifiers: ModifierProvider = (state) => {
+  const effects = state.combat?.active ? state.combat.playerStats.statusEffects || [] : [];
+  const modifiers: StatModifier[] = [];
+  effects.forEach(effect => {
+    const toModifier = STATUS_EFFECT_MODIFIERS[effect.type as keyof typeof STATUS_EFFECT_MODIFIERS];
+    if (toModifier) {
+      modifiers.push({ ...toModifier(effect.magnitude), source: `status:${effect.type}` });
+    }
+  });
+  return modifiers;
+};
+
+/**
+ * Every source of derived modifiers; crew assignments will add theirs here
+ */
+const MODIFIER_PROVIDERS: ModifierProvider[] = [
+  upgradeModifiers,
+  regionModifiers,
+  powerModifiers,
+  statusEffectModifiers
+];
+
+const isActive = (modifier: StatModifier, now: number) =>
+  modifier.expiresAt === undefined || modifier.expiresAt > now;
+
+const TYPE_ORDER: Record<StatModifier['type'], number> = { flat: 0, percent: 1, multiplier: 2 };
+
+/**
+ * Every modifier currently in effect: derived ones and unexpired stored ones
+ */
+export function collectModifiers(state: GameState): StatModifier[] {
+  const now = state.lastUpdate;
+  const stored = (state.modifiers || []).filter(modifier => isActive(modifier, now));
+  return [...MODIFIER_PROVIDERS.flatMap(provider => provider(state)), ...stored];
+}
+
+/**
+ * Apply modifiers to a base value
+ *
+ * Flat modifiers are added first, then the percentages (summed) scale the
+ * result, then every multiplier is applied in turn.
+ */
+export function applyModifiers(base: number, modifiers: StatModifier[]): number {
+  let flat = base;
+  let percent = 0;
+  let multiplier = 1;
+  modifiers.forEach(modifier => {
+    if (modifier.type === 'flat') flat += modifier.value;
+    else if (modifier.type === 'percent') percent += modifier.value;
+    else multiplier *= modifier.value;
+  });
+  return finiteNumber(flat * (1 + percent) * multiplier);
+}
+
+/**
+ * Explain how a stat arrives at its value
+ *
+ * @returns The breakdown, or undefined for stats without a definition
+ */
+export function getStatBreakdown(state: GameState, stat: string): StatBreakdown | undefined {
+  const definition = STAT_DEFINITIONS[stat];
+  if (!definition) return undefined;
+
+  const modifiers = collectModifiers(state)
+    .filter(modifier => modifier.stat === stat)
+    .sort((a, b) => TYPE_ORDER[a.type] - TYPE_ORDER[b.type]);
+
+  return {
+    stat,
+    label: definition.label,
+    base: definition.base,
+    modifiers,
+    value: applyModifiers(definition.base, modifiers)
+  };
+}
+
+/**
+ * Recompute every stat in STAT_DEFINITIONS from its base and modifiers
+ *
+ * Stored modifiers that have expired are dropped. Values limited by a
+ * stat (like the shield by its capacity) are brought down to it.
+ */
+export function recalculateStats(state: GameState) {
+  const now = state.lastUpdate;
+  if (Array.isArray(state.modifiers) && state.modifiers.some(modifier => !isActive(modifier, now))) {
+    state.modifiers = state.modifiers.filter(modifier => isActive(modifier, now));
+  }
+
+  const byStat: Record<string, StatModifier[]> = {};
+  collectModifiers(state).forEach(modifier => {
+    (byStat[modifier.stat] = byStat[modifier.stat] || []).push(modifier);
+  });
+
+  Object.entries(STAT_DEFINITIONS).forEach(([stat, definition]) => {
+    const value = applyModifiers(definition.base, byStat[stat] || []);
+    if (!setAtPath(state, stat, value) || !definition.limits) return;
+
+    const limited = getAtPath(state, definition.limits);
+    if (typeof limited === 'number' && limited > value) {
+      setAtPath(state, definition.limits, value);
+    }
+  });
+}
+
+/**
+ * Add a stored modifier, replacing any from the same source on the same stat
+ *
+ * @param durationSeconds How long it lasts in game time; permanent if omitted
+ */
+export function addModifier(state: GameState, modifier: Omit<StatModifier, 'expiresAt'>, durationSeconds?: number) {
+  const stored: StatModifier = durationSeconds === undefined
+    ? { ...modifier }
+    : { ...modifier, expiresAt: state.lastUpdate + durationSeconds * 1000 };
+
+  state.modifiers = [
+    ...(state.modifiers || []).filter(existing => existing.source !== modifier.source || existing.stat !== modifier.stat),
+    stored
+  ];
+}
+
+/**
+ * Remove every stored modifier from a source
+ */
+export function removeModifiers(state: GameState, source: string) {
+  state.modifiers = (state.modifiers || []).filter(modifier => modifier.source !== source);
+}
@@ -0,0 +1,173 @@
+import { GameState } from '../types';
+
+/**
+ * A point on the timeline: the state right after an action was processed
+ */
+export interface HistoryEntry {
+  id: number;
+
+  /**
+   * Entry this one was recorded on top of, or null for the first entry
+   */
+  parentId: number | null;
+
+  /**
+   * What produced this state, usually the action type
+   */
+  label: string;
+
+  timestamp: number;
+
+  /**
+   * Frozen snapshot; shares unchanged subtrees with its neighbours
+   */
+  state: GameState;
+}
+
+/**
+ * One field that differs between two points in time
+ */
+export interface StateChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * StateHistory: a branching timeline of snapshots
+ *
+ * Think of this as the save-scum button for developers. Every processed
+ * action adds a snapshot; stepping back and then doing something else
+ * starts a new branch instead of throwing the old future away.
+ *
+ * Snapshots come from StateStore, so consecutive entries share every
+ * subtree the action did not touch and storing one costs very little.
+ */
+export class StateHistory {
+  private entries: HistoryEntry[] = [];
+  private currentId: number | null = null;
+  private nextId = 1;
+
+  constructor(private maxEntries: number) {}
+
+  /**
+   * Add a snapshot on top of the current entry
+   */
+  record(label: string, state: GameState, timestamp: number): HistoryEntry {
+    const entry: HistoryEntry = {
+      id: this.nextId++,
+      parentId: this.currentId,
+      label,
+      timestamp,
+      state
+    };
+
+    this.entries.push(entry);
+    this.currentId = entry.id;
+    this.prune();
+    return entry;
+  }
+
+  /**
+   * Entry the game is currently at
+   */
+  getCurrent(): HistoryEntry | null {
+    return this.currentId === null ? null : this.get(this.currentId);
+  }
+
+  get(id: number): HistoryEntry | null {
+    return this.entries.find(entry => entry.id === id) || null;
+  }
+
+  /**
+   * All entries in the order they were recorded
+   */
+  getEntries(): readonly HistoryEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * Move to the parent of the current entry
+   */
+  undo(): HistoryEntry | null {
+    const current = this.getCurrent();
+    if (!current || current.parentId === null) return null;
+    return this.travelTo(current.parentId);
+  }
+
+  /**
+   * Move to the most recently recorded child of the current entry
+   */
+  redo(): HistoryEntry | null {
+    const children = this.entries.filter(entry => entry.parentId === this.currentId);
+    if (this.currentId === null || children.length === 0) return null;
+    return this.travelTo(children[children.length - 1].id);
+  }
+
+  canUndo(): boolean {
+    return this.getCurrent()?.parentId != null;
+  }
+
+  canRedo(): boolean {
+    return this.currentId !== null && this.entries.some(entry => entry.parentId === this.currentId);
+  }
+
+  /**
+   * Make any entry the current one; the next record() branches from it
+   */
+  travelTo(id: number): HistoryEntry | null {
+    const entry = this.get(id);
+    if (!entry) return null;
+    this.currentId = id;
+    return entry;
+  }
+
+  clear() {
+    this.entries = [];
+    this.currentId = null;
+  }
+
+  /**
+   * Drop the oldest entries once over the limit; their children become roots
+   */
+  private prune() {
+    while (this.entries.length > this.maxEntries) {
+      const oldest = this.entries.shift()!;
+      this.entries.forEach(entry => {
+        if (entry.parentId === oldest.id) {
+          entry.parentId = null;
+        }
+      });
+    }
+  }
+}
+
+/**
+ * List the fields that differ between two states
+ * Subtrees that are the same object are skipped, so comparing
+ * neighbouring snapshots only walks what actually changed
+ *
+ * @param limit - Stop after this many changes
+ */
+export function diffStates(before: unknown, after: unknown, limit: number = 200): StateChange[] {
+  const changes: StateChange[] = [];
+
+  const walk = (a: unknown, b: unknown, path: string[]) => {
+    if (a === b || changes.length >= limit) return;
+
+    const bothObjects = a !== null && b !== null && typeof a === 'object' && typeof b === 'object'
+      && Array.isArray(a) === Array.isArray(b);
+    if (!bothObjects) {
+      changes.push({ path: path.join('.'), before: a, after: b });
+      return;
+    }
+
+    const left = a as Record<string, unknown>;
+    const right = b as Record<string, unknown>;
+    const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+    keys.forEach(key => walk(left[key], right[key], [...path, key]));
+  };
+
+  walk(before, after, []);
+  return changes;
+}
@@ -0,0 +1,265 @@
+/**
+ * StateStore: change-tracked game state
+ *
+ * Systems keep mutating state in place, but they do it through a
+ * recording proxy handed out by mutate(). Every write marks the object
+ * it touched (and that object's ancestors) as dirty and records the path.
+ *
+ * commit() turns the live state into a frozen snapshot. Untouched
+ * subtrees are reused from the previous snapshot, so publishing costs
+ * grow with what changed rather than with the size of the state.
+ */
+
+type Path = Array<string | number>;
+
+/**
+ * Bookkeeping for a proxy handed out during a mutation
+ */
+interface ProxyMeta {
+  raw: object;
+  path: Path;
+  ancestors: object[];
+}
+
+// Lets the traps recognise a proxy and get back to the raw object
+const RAW = Symbol('raw');
+
+function isDraftable(value: unknown): value is Record<string | number, unknown> {
+  if (value === null || typeof value !== 'object') return false;
+  if (Array.isArray(value)) return true;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function toRaw<V>(value: V): V {
+  if (value !== null && typeof value === 'object') {
+    const raw = (value as Record<symbol, unknown>)[RAW];
+    if (raw) return raw as V;
+  }
+  return value;
+}
+
+/**
+ * Replace any proxies inside a freshly built value with their raw objects
+ * Only descends into objects that are not proxies themselves
+ */
+function unwrap<V>(value: V): V {
+  const raw = toRaw(value);
+  if (raw !== value || !isDraftable(value)) return raw;
+
+  const target = value as Record<string | number, unknown>;
+  for (const key of Object.keys(target)) {
+    const child = target[key];
+    const unwrapped = unwrap(child);
+    if (unwrapped !== child) {
+      target[key] = unwrapped;
+    }
+  }
+  return value;
+}
+
+export class StateStore<T extends object> {
+  /**
+   * Mutable working state, only touched through mutate()
+   */
+  private live: T;
+
+  /**
+   * Frozen copy of the live state as of the last commit
+   */
+  private snapshot: T;
+
+  /**
+   * Raw object -> frozen copy from an earlier commit
+   */
+  private snapshots = new WeakMap<object, object>();
+
+  /**
+   * Raw objects written to since the last commit
+   */
+  private dirty = new Set<object>();
+
+  /**
+   * Paths written to since the last commit, keyed by their dotted form
+   */
+  private changes = new Map<string, Path>();
+
+  constructor(initial: T) {
+    this.live = initial;
+    this.snapshot = this.freeze(initial);
+  }
+
+  /**
+   * Apply a change to the live state
+   *
+   * The recipe receives a tracking proxy and may either mutate it in place
+   * or return a replacement root (e.g. `{ ...state }`).
+   */
+  mutate(recipe: (draft: T) => T | void): void {
+    const proxies = new WeakMap<object, object>();
+    const draft = this.createProxy(this.live, [], [], proxies) as T;
+    const result = recipe(draft);
+
+    if (result && result !== draft && toRaw(result) !== this.live) {
+      this.adoptRoot(result);
+    }
+  }
+
+  /**
+   * Swap in an entirely new state, e.g. after loading a save
+   */
+  replace(state: T) {
+    this.live = state;
+    this.dirty.add(state);
+    this.changes.clear();
+    this.changes.set('', []);
+  }
+
+  /**
+   * Whether anything changed since the last commit
+   */
+  hasChanges(): boolean {
+    return this.changes.size > 0;
+  }
+
+  /**
+   * Publish pending changes as a new frozen snapshot
+   *
+   * @returns Dotted paths that changed, `''` meaning the whole state was
+   * replaced; empty when nothing did
+   */
+  commit(): string[] {
+    if (this.changes.size === 0) return [];
+
+    const changedPaths = this.compactPaths();
+    this.snapshot = this.freeze(this.live);
+    this.dirty.clear();
+    this.changes.clear();
+    return changedPaths;
+  }
+
+  /**
+   * The latest committed snapshot; frozen, safe to share without copying
+   */
+  getSnapshot(): T {
+    return this.snapshot;
+  }
+
+  private createProxy(raw: object, path: Path, ancestors: object[], proxies: WeakMap<object, object>): object {
+    const existing = proxies.get(raw);
+    if (existing) return existing;
+
+    const meta: ProxyMeta = { raw, path, ancestors };
+    const isArray = Array.isArray(raw);
+
+    const proxy = new Proxy(raw, {
+      get: (target, key, receiver) => {
+        if (key === RAW) return target;
+        const value = Reflect.get(target, key, receiver);
+        if (typeof key === 'symbol' || !isDraftable(value)) return value;
+        return this.createProxy(value, [...path, key], [...ancestors, target], proxies);
+      },
+      set: (target, key, value) => {
+        const unwrapped = unwrap(value);
+        if (Reflect.get(target, key) === unwrapped) return true;
+        Reflect.set(target, key, unwrapped);
+        this.recordChange(meta, key, isArray);
+        return true;
+      },
+      deleteProperty: (target, key) => {
+        if (!(key in target)) return true;
+        Reflect.deleteProperty(target, key);
+        this.recordChange(meta, key, isArray);
+        return true;
+      }
+    });
+
+    proxies.set(raw, proxy);
+    return proxy;
+  }
+
+  private recordChange(meta: ProxyMeta, key: string | symbol, isArray: boolean) {
+    this.dirty.add(meta.raw);
+    meta.ancestors.forEach(ancestor => this.dirty.add(ancestor));
+
+    // Array writes are reported against the array itself
+    const path = isArray || typeof key === 'symbol' ? meta.path : [...meta.path, key];
+    this.changes.set(path.join('.'), path);
+  }
+
+  /**
+   * Merge a replacement root returned from a recipe into the live state
+   */
+  private adoptRoot(next: T) {
+    const live = this.live as Record<string, unknown>;
+    const incoming = next as Record<string, unknown>;
+    let changed = false;
+
+    for (const key of Object.keys(incoming)) {
+      const value = unwrap(incoming[key]);
+      if (live[key] !== value) {
+        live[key] = value;
+        this.changes.set(key, [key]);
+        changed = true;
+      }
+    }
+    for (const key of Object.keys(live)) {
+      if (!(key in incoming)) {
+        delete live[key];
+        this.changes.set(key, [key]);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this.dirty.add(live);
+    }
+  }
+
+  /**
+   * Drop paths already covered by a recorded ancestor
+   */
+  private compactPaths(): string[] {
+    if (this.changes.has('')) return [''];
+
+    const result: string[] = [];
+    this.changes.forEach((path, key) => {
+      const covered = path.some((_, i) => i > 0 && this.changes.has(path.slice(0, i).join('.')));
+      if (!covered) result.push(key);
+    });
+    return result.sort();
+  }
+
+  /**
+   * Build the frozen copy of a raw value, reusing clean subtrees
+   */
+  private freeze<V>(value: V): V {
+    if (!isDraftable(value)) return value;
+
+    const raw = value as object;
+    const cached = this.snapshots.get(raw);
+    if (cached && !this.dirty.has(raw)) return cached as V;
+
+    const source = raw as Record<string | number, unknown>;
+    const copy = (Array.isArray(raw) ? new Array(raw.length) : {}) as Record<string | number, unknown>;
+    for (const key of Object.keys(source)) {
+      copy[key] = this.freeze(source[key]);
+    }
+
+    Object.freeze(copy);
+    this.snapshots.set(raw, copy);
+    return copy as V;
+  }
+}
+
+/**
+ * Combine the changed paths of two commits, e.g. when updates are coalesced
+ */
+export function mergeChangedPaths(a: readonly string[], b: readonly string[]): string[] {
+  if (a.includes('') || b.includes('')) return [''];
+
+  const merged = new Set([...a, ...b]);
+  return Array.from(merged)
+    .filter(path => !path.split('.').some((_, i, parts) => i > 0 && merged.has(parts.slice(0, i).join('.'))))
+    .sort();
+}
@@ -0,0 +1,314 @@
+import { v4 as uuidv4 } from 'uuid';
+import { TabConstants } from '../config/gameConstants';
+import Logger, { LogCategory, LogContext } from '@/app/utils/logger';
+
+/**
+ * Messages exchanged between tabs of the same game
+ */
+export type TabMessage =
+  | { type: 'hello'; from: string }
+  | { type: 'owner'; from: string }
+  | { type: 'takeover'; from: string }
+  | { type: 'released'; from: string; to: string | null };
+
+/**
+ * Delivers messages to the other open tabs (never back to the sender)
+ */
+export interface TabChannel {
+  post(message: TabMessage): void;
+
+  /**
+   * @returns A function to stop listening
+   */
+  subscribe(listener: (message: TabMessage) => void): () => void;
+
+  close(): void;
+}
+
+const CHANNEL_NAME = 'derelict-dawn-tabs';
+
+/**
+ * Tab messages over BroadcastChannel
+ */
+export class BroadcastTabChannel implements TabChannel {
+  private channel = new BroadcastChannel(CHANNEL_NAME);
+
+  post(message: TabMessage): void {
+    this.channel.postMessage(message);
+  }
+
+  subscribe(listener: (message: TabMessage) => void): () => void {
+    const handler = (event: MessageEvent<TabMessage>) => listener(event.data);
+    this.channel.addEventListener('message', handler);
+    return () => this.channel.removeEventListener('message', handler);
+  }
+
+  close(): void {
+    this.channel.close();
+  }
+}
+
+/**
+ * Tab messages over localStorage `storage` events
+ * For browsers without BroadcastChannel; the event only fires in other tabs
+ */
+export class StorageTabChannel implements TabChannel {
+  private key = `${CHANNEL_NAME}:message`;
+
+  post(message: TabMessage): void {
+    // The nonce makes repeated messages distinct, or no event would fire
+    localStorage.setItem(this.key, JSON.stringify({ message, nonce: Math.random() }));
+  }
+
+  subscribe(listener: (message: TabMessage) => void): () => void {
+    const handler = (event: StorageEvent) => {
+      if (event.key === this.key && event.newValue) {
+        listener(JSON.parse(event.newValue).message);
+      }
+    };
+    window.addEventListener('storage', handler);
+    return () => window.removeEventListener('storage', handler);
+  }
+
+  close(): void {}
+}
+
+/**
+ * Pick a tab channel suitable for the current environment
+ * @returns null outside the browser, where there are no other tabs
+ */
+export function createDefaultTabChannel(): TabChannel | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  if (typeof BroadcastChannel !== 'undefined') {
+    return new BroadcastTabChannel();
+  }
+  return typeof localStorage !== 'undefined' ? new StorageTabChannel() : null;
+}
+
+/**
+ * Optional timing for the tab coordinator
+ */
+export interface TabCoordinatorOptions {
+  /**
+   * How long a new tab waits for an owner to answer before taking ownership
+   */
+  responseTimeoutMs?: number;
+
+  /**
+   * How long a takeover waits for the owner to hand over before taking it anyway
+   */
+  handoverTimeoutMs?: number;
+}
+
+/**
+ * TabCoordinator: makes sure only one tab plays at a time
+ *
+ * Every tab of the game joins the same channel. A new tab asks whether
+ * anyone owns the game; if nobody answers in time it becomes the owner,
+ * otherwise it only watches. A watching tab can take over: the owner
+ * runs its release handler (a final save), gives up ownership and tells
+ * the new owner to go ahead. An owner that has crashed or is frozen
+ * cannot answer, so a takeover goes ahead anyway after a timeout.
+ *
+ * Without a channel (outside the browser) the coordinator always owns.
+ */
+export class TabCoordinator {
+  private owner = false;
+  private tabId = uuidv4();
+  private unsubscribe: (() => void) | null = null;
+  private joining: Promise<void> | null = null;
+  private listeners = new Set<(isOwner: boolean) => void>();
+  private releaseHandler: () => Promise<void> = async () => undefined;
+  private responseTimeoutMs: number;
+  private handoverTimeoutMs: number;
+
+  /**
+   * Whether another tab is known to own the game right now
+   */
+  private ownerElsewhere = false;
+
+  /**
+   * Called once an owner answers `hello`
+   */
+  private ownerAnswered: (() => void) | null = null;
+
+  /**
+   * Called once the owner has handed over to this tab
+   */
+  private handedOver: (() => void) | null = null;
+
+  constructor(private channel: TabChannel | null, options: TabCoordinatorOptions = {}) {
+    this.responseTimeoutMs = options.responseTimeoutMs ?? TabConstants.RESPONSE_TIMEOUT_MS;
+    this.handoverTimeoutMs = options.handoverTimeoutMs ?? TabConstants.HANDOVER_TIMEOUT_MS;
+  }
+
+  /**
+   * Join the other tabs
+   * Calling it again while connected (React mounts the provider twice
+   * in development) waits for the same join instead of starting another
+   * @returns Whether this tab owns the game
+   */
+  async connect(): Promise<boolean> {
+    if (!this.joining) {
+      this.joining = this.join();
+    }
+    await this.joining;
+    return this.owner;
+  }
+
+  private async join(): Promise<void> {
+    const channel = this.channel;
+    if (!channel) {
+      this.setOwner(true);
+      return;
+    }
+
+    this.unsubscribe = channel.subscribe(message => this.handleMessage(message));
+
+    const answered = await new Promise<boolean>(resolve => {
+      const timer = setTimeout(() => {
+        this.ownerAnswered = null;
+        resolve(false);
+      }, this.responseTimeoutMs);
+      this.ownerAnswered = () => {
+        clearTimeout(timer);
+        this.ownerAnswered = null;
+        resolve(true);
+      };
+      channel.post({ type: 'hello', from: this.tabId });
+    });
+
+    if (!answered) {
+      this.claim();
+    }
+  }
+
+  /**
+   * Take ownership from the tab that has it
+   * Resolves once the owner has saved and let go, or did not answer in time
+   */
+  async takeOver(): Promise<void> {
+    const channel = this.channel;
+    if (this.owner) return;
+
+    if (channel && this.ownerElsewhere) {
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(() => {
+          Logger.warn(LogCategory.ENGINE, "Owning tab did not hand over in time, taking over", LogContext.STARTUP);
+          done();
+        }, this.handoverTimeoutMs);
+        const done = () => {
+          clearTimeout(timer);
+          this.handedOver = null;
+          resolve();
+        };
+        this.handedOver = done;
+        channel.post({ type: 'takeover', from: this.tabId });
+      });
+    }
+
+    this.claim();
+  }
+
+  /**
+   * Leave the other tabs, letting them know the game is free
+   */
+  disconnect(): void {
+    if (this.owner) {
+      this.channel?.post({ type: 'released', from: this.tabId, to: null });
+    }
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.joining = null;
+    this.channel?.close();
+  }
+
+  isOwner(): boolean {
+    return this.owner;
+  }
+
+  /**
+   * Work to finish before another tab takes over, such as a final save
+   */
+  setReleaseHandler(handler: () => Promise<void>): void {
+    this.releaseHandler = handler;
+  }
+
+  /**
+   * Listen for this tab gaining or losing ownership
+   * @returns A function to stop listening
+   */
+  onOwnershipChange(listener: (isOwner: boolean) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async handleMessage(message: TabMessage) {
+    if (message.from === this.tabId) return;
+
+    switch (message.type) {
+      case 'hello':
+        if (this.owner) {
+          this.channel?.post({ type: 'owner', from: this.tabId });
+        }
+        break;
+
+      case 'owner':
+        this.ownerElsewhere = true;
+        this.ownerAnswered?.();
+        // Two tabs that opened at the same moment both claimed; the lower ID keeps it
+        if (this.owner) {
+          if (message.from < this.tabId) {
+            await this.release(message.from);
+          } else {
+            this.channel?.post({ type: 'owner', from: this.tabId });
+          }
+        }
+        break;
+
+      case 'takeover':
+        if (this.owner) {
+          await this.release(message.from);
+        }
+        break;
+
+      case 'released':
+        this.ownerElsewhere = false;
+        if (message.to === this.tabId) {
+          this.handedOver?.();
+        }
+        break;
+    }
+  }
+
+  private claim() {
+    this.ownerElsewhere = false;
+    this.setOwner(true);
+    this.channel?.post({ type: 'owner', from: this.tabId });
+  }
+
+  private async release(to: string) {
+    try {
+      await this.releaseHandler();
+    } catch (error) {
+      Logger.error(LogCategory.ENGINE, `Failed to finish before handing over: ${error}`, LogContext.SAVE_LOAD);
+    }
+
+    this.setOwner(false);
+    this.ownerElsewhere = true;
+    this.channel?.post({ type: 'released', from: this.tabId, to });
+  }
+
+  private setOwner(owner: boolean) {
+    if (this.owner === owner) return;
+    this.owner = owner;
+    Logger.info(
+      LogCategory.ENGINE,
+      owner ? "This tab now runs the game" : "The game is running in another tab",
+      LogContext.STARTUP
+    );
+    this.listeners.forEach(listener => listener(owner));
+  }
+}
@@ -28,14 +28,46 @@ export function getCachedState(): GameState | null {
 
 /**
  * Cache the current game state for quick access
+ * Expects a frozen snapshot, so it is stored without copying
  */
 export function cacheState(state: GameState): void {
   // Store in module-level variable for in-app navigation
-  cachedGameState = JSON.parse(JSON.stringify(state));
+  cachedGameState = state;
   
   // Also store in window object for more resilience
   if (typeof window !== 'undefined') {
     // @ts-expect-error
-    window.__GAME_STATE_CACHE__ = JSON.parse(JSON.stringify(state));
+    window.__GAME_STATE_CACHE__ = state;
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Somewhere the engine can park its latest state between page navigations
+ */
+export interface StateCache {
+  get(): GameState | null;
+  set(state: GameState): void;
+}
+
+/**
+ * The module-level (and window-level) cache above
+ * Used by the engine unless another cache is injected
+ */
+export const sharedStateCache: StateCache = {
+  get: getCachedState,
+  set: cacheState
+};
+
+/**
+ * A private cache that never touches `window`
+ * Lets several engines run side by side in Node or vitest
+ */
+export function createStateCache(initial: GameState | null = null): StateCache {
+  let state = initial;
+  return {
+    get: () => state,
+    set: (next) => {
+      state = next;
+    }
+  };
+}
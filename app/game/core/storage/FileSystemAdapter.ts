@@ -0,0 +1,66 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { StorageAdapter } from './StorageAdapter';
+
+const FILE_EXTENSION = '.json';
+const TEMP_EXTENSION = '.tmp';
+
+const isMissing = (error: unknown) => (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+
+/**
+ * Node file system implementation of storage adapter
+ * For headless runs and balancing scripts; never import it from the browser
+ *
+ * Every key is one JSON file in the directory. Keys are URI-encoded into
+ * file names, so `save:<id>` and `backup:<id>:<timestamp>` stay valid on
+ * every platform. Writes go to a temporary file that is then renamed over
+ * the old one, so a crash mid-write leaves the previous value intact.
+ */
+export class FileSystemAdapter implements StorageAdapter {
+  constructor(private directory: string) {}
+
+  async save(key: string, data: unknown): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const file = this.getPath(key);
+    // A unique name per write, so concurrent writes never share a temporary file
+    const tempFile = `${file}.${uuidv4()}${TEMP_EXTENSION}`;
+    try {
+      await fs.writeFile(tempFile, JSON.stringify(data), 'utf8');
+      await fs.rename(tempFile, file);
+    } catch (error) {
+      await fs.rm(tempFile, { force: true });
+      throw error;
+    }
+  }
+
+  async load(key: string): Promise<any | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.getPath(key), 'utf8'));
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.getPath(key), { force: true });
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.directory);
+      return files
+        .filter(file => file.endsWith(FILE_EXTENSION))
+        .map(file => decodeURIComponent(file.slice(0, -FILE_EXTENSION.length)));
+    } catch (error) {
+      if (isMissing(error)) return [];
+      throw error;
+    }
+  }
+
+  private getPath(key: string): string {
+    return path.join(this.directory, `${encodeURIComponent(key)}${FILE_EXTENSION}`);
+  }
+}
@@ -0,0 +1,29 @@
+import { StorageAdapter } from './StorageAdapter';
+
+/**
+ * In-memory implementation of storage adapter
+ * For tests and headless runs; nothing outlives the adapter
+ *
+ * Values are copied through JSON on the way in and out, like a real
+ * store would serialize them, so callers can never share objects with it
+ */
+export class InMemoryAdapter implements StorageAdapter {
+  private data = new Map<string, string>();
+
+  async save(key: string, data: unknown): Promise<void> {
+    this.data.set(key, JSON.stringify(data));
+  }
+
+  async load(key: string): Promise<any | null> {
+    const json = this.data.get(key);
+    return json === undefined ? null : JSON.parse(json);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    return Array.from(this.data.keys());
+  }
+}
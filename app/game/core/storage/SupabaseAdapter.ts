@@ -1,134 +1,284 @@
+import { SupabaseClient, createClient } from '@supabase/supabase-js';
 import { StorageAdapter } from './StorageAdapter';
+import { CloudSaveConstants } from '../../config/gameConstants';
 import Logger, { LogCategory, LogContext } from '@/app/utils/logger';
 
+const SAVES_TABLE = 'game_saves';
+const POINTERS_TABLE = 'game_save_pointers';
+const CURRENT_SAVE_KEY = 'currentSave';
+const SAVE_KEY_PREFIX = 'save:';
+
+/**
+ * Optional configuration for the Supabase adapter
+ */
+export interface SupabaseAdapterOptions {
+  /**
+   * Attempts after the first failed request
+   */
+  maxRetries?: number;
+
+  /**
+   * Delay before the first retry in milliseconds; doubles per attempt
+   */
+  retryDelayMs?: number;
+}
+
+/**
+ * Row of the game_saves table (see supabase/migrations/20240816_game_saves.sql)
+ */
+interface GameSaveRow {
+  id: string;
+  user_id: string;
+  version: string;
+  timestamp: string;
+  state: unknown;
+  metadata: unknown;
+}
+
+/**
+ * Result shape shared by every PostgREST call
+ */
+interface QueryResult<T> {
+  data: T | null;
+  error: { message: string; code?: string } | null;
+  status: number;
+}
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Network failures (status 0), rate limiting and server errors are worth
+ * retrying; anything else (bad request, row-level security) will fail again
+ */
+const isRetryable = (status: number) => status === 0 || status === 429 || status >= 500;
+
 /**
  * SupabaseAdapter implements the StorageAdapter interface for cloud storage
- * This is a template for future implementation when Supabase is integrated
+ *
+ * Keys map onto the game_saves schema:
+ * - `save:<id>` is a row of `game_saves`
+ * - `currentSave` is the user's row of `game_save_pointers`
+ *
+ * Every request is async and retried with backoff on transient failures.
+ * Writes to the same key are coalesced: while one is in flight, only the
+ * newest pending value is sent afterwards, so frequent autosaves never
+ * queue up behind a slow connection.
  */
 export class SupabaseAdapter implements StorageAdapter {
-  private userId: string;
-  
-  constructor(userId: string) {
-    this.userId = userId;
+  private maxRetries: number;
+  private retryDelayMs: number;
+
+  /**
+   * Write currently being sent, per key
+   */
+  private inFlight = new Map<string, Promise<void>>();
+
+  /**
+   * Newest value waiting for the in-flight write of its key to finish
+   */
+  private queued = new Map<string, { data: unknown; promise: Promise<void> }>();
+
+  /**
+   * @param client - Supabase client, signed in as `userId`
+   * @param userId - Owner of the saves (auth.users id)
+   */
+  constructor(private client: SupabaseClient, private userId: string, options: SupabaseAdapterOptions = {}) {
+    this.maxRetries = options.maxRetries ?? CloudSaveConstants.MAX_RETRIES;
+    this.retryDelayMs = options.retryDelayMs ?? CloudSaveConstants.RETRY_BASE_DELAY_MS;
     Logger.info(LogCategory.ENGINE, `Initialized SupabaseAdapter for user: ${userId}`, LogContext.SAVE_LOAD);
   }
-  
+
   /**
    * Save data to Supabase
    */
   async save(key: string, data: any): Promise<void> {
-    Logger.info(
-      LogCategory.ENGINE, 
-      `[Future] Save to Supabase: ${key} for user ${this.userId}`, 
-      LogContext.SAVE_LOAD
-    );
-    
-    // Future implementation will use Supabase client:
-    // if (key === 'currentSave') {
-    //   await this.supabase.from('game_save_pointers').upsert({
-    //     user_id: this.userId,
-    //     current_save_id: data
-    //   });
-    //   return;
-    // }
-    //
-    // // Extract save ID from key (format: 'save:uuid')
-    // const saveId = key.split(':')[1];
-    //
-    // await this.supabase.from('game_saves').upsert({
-    //   id: saveId,
-    //   user_id: this.userId,
-    //   version: data.version,
-    //   timestamp: new Date(data.timestamp),
-    //   state: data.state,
-    //   metadata: data.metadata
-    // });
+    const queued = this.queued.get(key);
+    if (queued) {
+      // A newer value replaces the one that was waiting
+      queued.data = data;
+      return queued.promise;
+    }
+
+    const running = this.inFlight.get(key);
+    if (!running) {
+      return this.startWrite(key, data);
+    }
+
+    const entry: { data: unknown; promise: Promise<void> } = {
+      data,
+      promise: running
+        .catch(() => undefined)
+        .then(() => {
+          this.queued.delete(key);
+          return this.startWrite(key, entry.data);
+        })
+    };
+    this.queued.set(key, entry);
+    return entry.promise;
   }
-  
+
   /**
    * Load data from Supabase
+   * @returns The stored value, or null if missing or unreachable
    */
   async load(key: string): Promise<any | null> {
-    Logger.info(
-      LogCategory.ENGINE, 
-      `[Future] Load from Supabase: ${key} for user ${this.userId}`, 
-      LogContext.SAVE_LOAD
-    );
-    
-    // Future implementation will use Supabase client:
-    // if (key === 'currentSave') {
-    //   const { data, error } = await this.supabase
-    //     .from('game_save_pointers')
-    //     .select('current_save_id')
-    //     .eq('user_id', this.userId)
-    //     .single();
-    //
-    //   if (error || !data) return null;
-    //   return data.current_save_id;
-    // }
-    //
-    // // Extract save ID from key
-    // const saveId = key.split(':')[1];
-    //
-    // const { data, error } = await this.supabase
-    //   .from('game_saves')
-    //   .select('*')
-    //   .eq('id', saveId)
-    //   .single();
-    //
-    // if (error || !data) return null;
-    //
-    // return {
-    //   id: data.id,
-    //   version: data.version,
-    //   timestamp: new Date(data.timestamp).getTime(),
-    //   state: data.state,
-    //   metadata: data.metadata
-    // };
-    
-    return null;
+    try {
+      if (key === CURRENT_SAVE_KEY) {
+        const data = await this.request<{ current_save_id: string }>(`load ${key}`, () =>
+          this.client
+            .from(POINTERS_TABLE)
+            .select('current_save_id')
+            .eq('user_id', this.userId)
+            .maybeSingle()
+        );
+        return data?.current_save_id ?? null;
+      }
+
+      const saveId = this.getSaveId(key);
+      if (!saveId) return null;
+
+      const row = await this.request<GameSaveRow>(`load ${key}`, () =>
+        this.client
+          .from(SAVES_TABLE)
+          .select('*')
+          .eq('id', saveId)
+          .maybeSingle()
+      );
+      if (!row) return null;
+
+      return {
+        id: row.id,
+        // Saves written before schema versions were numbers stored '1.0.0'
+        version: Number(row.version) || 1,
+        timestamp: new Date(row.timestamp).getTime(),
+        state: row.state,
+        metadata: row.metadata
+      };
+    } catch (error) {
+      Logger.error(LogCategory.ENGINE, `Failed to load ${key} from Supabase: ${error}`, LogContext.SAVE_LOAD);
+      return null;
+    }
   }
-  
+
   /**
    * Delete data from Supabase
    */
   async delete(key: string): Promise<void> {
-    Logger.info(
-      LogCategory.ENGINE, 
-      `[Future] Delete from Supabase: ${key} for user ${this.userId}`, 
-      LogContext.SAVE_LOAD
+    // The pointer is only ever moved, never deleted
+    if (key === CURRENT_SAVE_KEY) return;
+
+    const saveId = this.getSaveId(key);
+    if (!saveId) return;
+
+    await this.request(`delete ${key}`, () =>
+      this.client
+        .from(SAVES_TABLE)
+        .delete()
+        .eq('id', saveId)
+        .eq('user_id', this.userId)
     );
-    
-    // Future implementation will use Supabase client:
-    // if (key === 'currentSave') return; // We don't delete this
-    //
-    // const saveId = key.split(':')[1];
-    // await this.supabase
-    //   .from('game_saves')
-    //   .delete()
-    //   .eq('id', saveId);
   }
-  
+
   /**
    * Get all save keys from Supabase
    */
   async getAllKeys(): Promise<string[]> {
-    Logger.info(
-      LogCategory.ENGINE, 
-      `[Future] Get all keys from Supabase for user ${this.userId}`, 
-      LogContext.SAVE_LOAD
+    const rows = await this.request<Array<{ id: string }>>('list saves', () =>
+      this.client
+        .from(SAVES_TABLE)
+        .select('id')
+        .eq('user_id', this.userId)
     );
-    
-    // Future implementation will use Supabase client:
-    // const { data, error } = await this.supabase
-    //   .from('game_saves')
-    //   .select('id')
-    //   .eq('user_id', this.userId);
-    //
-    // if (error || !data) return [];
-    //
-    // return data.map(item => `save:${item.id}`);
-    
-    return [];
+    return (rows || []).map(row => `${SAVE_KEY_PREFIX}${row.id}`);
+  }
+
+  /**
+   * Send one write and keep it as the in-flight write of its key
+   */
+  private startWrite(key: string, data: unknown): Promise<void> {
+    const promise = this.write(key, data).finally(() => {
+      if (this.inFlight.get(key) === promise) {
+        this.inFlight.delete(key);
+      }
+    });
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  private async write(key: string, data: unknown): Promise<void> {
+    if (key === CURRENT_SAVE_KEY) {
+      await this.request(`save ${key}`, () =>
+        this.client
+          .from(POINTERS_TABLE)
+          .upsert({ user_id: this.userId, current_save_id: data })
+      );
+      return;
+    }
+
+    const saveId = this.getSaveId(key);
+    if (!saveId) return;
+
+    const save = data as { version: number; timestamp: number; state: unknown; metadata: unknown };
+    await this.request(`save ${key}`, () =>
+      this.client
+        .from(SAVES_TABLE)
+        .upsert({
+          id: saveId,
+          user_id: this.userId,
+          version: String(save.version),
+          timestamp: new Date(save.timestamp).toISOString(),
+          state: save.state,
+          metadata: save.metadata
+        })
+    );
+  }
+
+  /**
+   * Extract the save ID from a `save:<id>` key
+   */
+  private getSaveId(key: string): string | null {
+    if (!key.startsWith(SAVE_KEY_PREFIX)) {
+      Logger.warn(LogCategory.ENGINE, `SupabaseAdapter does not store key: ${key}`, LogContext.SAVE_LOAD);
+      return null;
+    }
+    return key.slice(SAVE_KEY_PREFIX.length);
+  }
+
+  /**
+   * Run a request, retrying transient failures with exponential backoff
+   * @throws Once the request fails for good
+   */
+  private async request<T>(label: string, run: () => PromiseLike<QueryResult<T>>): Promise<T | null> {
+    for (let attempt = 0; ; attempt++) {
+      const { data, error, status } = await run();
+      if (!error) {
+        return data;
+      }
+
+      if (!isRetryable(status) || attempt >= this.maxRetries) {
+        throw new Error(`${label} failed (${status}): ${error.message}`);
+      }
+
+      const delay = this.retryDelayMs * 2 ** attempt;
+      Logger.warn(
+        LogCategory.ENGINE,
+        `${label} failed (${status}), retrying in ${delay}ms: ${error.message}`,
+        LogContext.SAVE_LOAD
+      );
+      await wait(delay);
+    }
+  }
+}
+
+/**
+ * Create an adapter from the NEXT_PUBLIC_SUPABASE_* environment variables
+ * @returns null when Supabase is not configured
+ */
+export function createSupabaseAdapter(userId: string, options?: SupabaseAdapterOptions): SupabaseAdapter | null {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  if (!url || !anonKey) {
+    return null;
   }
-} 
\ No newline at end of file
+  return new SupabaseAdapter(createClient(url, anonKey), userId, options);
+}
@@ -13,12 +13,13 @@ import Logger, { LogCategory, LogContext } from '@/app/utils/logger';
 import {
   getAwakeningStageText,
   getRandomAwakeningFlavor,
-  formatCrewCount,
   calculateAwakeningProgressWidth
 } from '../utils/crewUtils';
 import { CrewQuartersConstants } from '../config/gameConstants';
 import { CrewQuartersTexts } from '../content/texts';
 import { formatTemplate } from '../utils/crewUtils';
+import { getProductionFactor } from '../utils/upkeep';
+import { useNumberFormat } from './useNumberFormat';
 
 /**
  * Hook for accessing and manipulating crew quarters data
@@ -26,6 +27,7 @@ import { formatTemplate } from '../utils/crewUtils';
 export function useCrewQuarters() {
   const { state, dispatch } = useGame();
   const [awakeningFlavor, setAwakeningFlavor] = useState("");
+  const format = useNumberFormat();
   
   // Create an instance of UpgradeSystem for cost calculations
   const upgradeSystem = new UpgradeSystem();
@@ -115,7 +117,8 @@ export function useCrewQuarters() {
   const getWorkerCrewsDescription = () => {
     return formatTemplate(
       CrewQuartersTexts.upgradeDescriptions.workerCrews,
-      CrewQuartersConstants.WORKER_CREW_PRODUCTION_RATE.toFixed(1)
+      CrewQuartersConstants.WORKER_CREW_PRODUCTION_RATE.toFixed(1),
+      CrewQuartersConstants.WORKER_CREW_ENERGY_UPKEEP
     );
   };
   
@@ -124,7 +127,8 @@ export function useCrewQuarters() {
     // State
     crew,
     crewCapacity,
-    crewPerSecond,
+    // Effective rate, after power routing and brownouts
+    crewPerSecond: crewPerSecond * getProductionFactor(state, 'crewQuarters'),
     awakeningProgress,
     awakeningFlavor,
     quartersCost,
@@ -135,7 +139,7 @@ export function useCrewQuarters() {
     
     // UI helpers
     awakeningStageText: getAwakeningStageText(awakeningProgress),
-    formattedCrewCount: formatCrewCount(crew),
+    formattedCrewCount: format(crew, 1),
     calculateAwakeningProgressWidth: () => calculateAwakeningProgressWidth(crew, crewCapacity, awakeningProgress),
     additionalQuartersDescription: getAdditionalQuartersDescription(),
     workerCrewsDescription: getWorkerCrewsDescription(),
@@ -3,18 +3,22 @@
 import { createContext, useContext, useEffect, useState, ReactNode, useCallback, useRef } from 'react';
 import { GameEngine } from '../core/GameEngine';
 import { GameState } from '../types';
-import { GameAction } from '../types/actions';
+import { GameActions } from '../types/actions';
 import Logger, { LogCategory, LogContext } from '@/app/utils/logger';
 import { getCachedState } from '../core/memoryCache';
+import { getLogContextForAction } from '../utils/logContextMapper';
+import { OfflineProgressReport } from '../core/OfflineProgress';
 
 /**
  * The shape of our Game Context
  */
 interface GameContextType {
   state: GameState;
-  dispatch: (action: GameAction) => void;
+  dispatch: (action: GameActions) => void;
   engine: GameEngine; // Exposing the engine for advanced use cases
   isInitializing: boolean; // Indicates if game is still loading
+  offlineReport: OfflineProgressReport | null; // Progress made while the game was closed
+  dismissOfflineReport: () => void;
 }
 
 /**
@@ -50,26 +54,12 @@ export function GameProvider({ children }: { children: ReactNode }) {
     return initialState;
   });
 
+  // Progress made while the game was closed, shown once after loading
+  const [offlineReport, setOfflineReport] = useState<OfflineProgressReport | null>(null);
+
   // Create a stable dispatch function that won't change on re-renders
-  const dispatch = useCallback((action: GameAction) => {
-    // Determine appropriate context based on action type
-    let context = LogContext.NONE;
-    if (action.type === 'CLICK_RESOURCE') {
-      const category = action.payload.category;
-      if (category === 'reactor') {
-        context = LogContext.REACTOR_LIFECYCLE;
-      } else if (category === 'processor') {
-        context = LogContext.PROCESSOR_LIFECYCLE;
-      } else if (category === 'crewQuarters') {
-        context = LogContext.CREW_LIFECYCLE;
-      } else if (category === 'manufacturing') {
-        context = LogContext.MANUFACTURING_LIFECYCLE;
-      }
-    } else if (action.type === 'PURCHASE_UPGRADE') {
-      context = LogContext.UPGRADE_PURCHASE;
-    }
-    
-    Logger.debug(LogCategory.ACTIONS, `Dispatching action: ${action.type}`, context);
+  const dispatch = useCallback((action: GameActions) => {
+    Logger.debug(LogCategory.ACTIONS, `Dispatching action: ${action.type}`, getLogContextForAction(action));
     engine.dispatch(action);
   }, [engine]);
 
@@ -107,25 +97,14 @@ export function GameProvider({ children }: { children: ReactNode }) {
     // Track if the component is mounted
     let isMounted = true;
     
-    // Debounce state updates to prevent rapid re-renders
-    let lastUpdateTime = 0;
-    const updateThreshold = 50; // ms
-    
-    const handleStateUpdate = (data: unknown) => {
-      // Type guard to ensure we have a GameState
-      const newState = data as GameState;
-      
+    // The event bus already coalesces state updates, so every delivery is applied
+    const handleStateUpdate = ({ state: newState }: { state: GameState }) => {
       // If component is unmounted, don't update state
       if (!isMounted) return;
       
-      const now = Date.now();
-      if (now - lastUpdateTime < updateThreshold) return;
-      lastUpdateTime = now;
-      
-      setState((prevState: GameState) => {
-        // Return a deep copy of the state to ensure React detects changes
-        return JSON.parse(JSON.stringify(newState));
-      });
+      // Snapshots are immutable and a new object on every change,
+      // so React detects the update without copying
+      setState(newState);
     };
     
     const unsubscribe = engineRef.current.eventBus.on('stateUpdated', handleStateUpdate);
@@ -136,12 +115,31 @@ export function GameProvider({ children }: { children: ReactNode }) {
     };
   }, []); // Empty dependency array - only run once
 
+  // Listen for the offline catch-up report produced while loading
+  useEffect(() => {
+    const existing = engineRef.current.getOfflineReport();
+    if (existing) {
+      setOfflineReport(existing);
+    }
+    
+    return engineRef.current.eventBus.on('offlineProgress', (report) => {
+      setOfflineReport(report);
+    });
+  }, []);
+
+  const dismissOfflineReport = useCallback(() => {
+    engine.clearOfflineReport();
+    setOfflineReport(null);
+  }, [engine]);
+
   // Include isInitializing in the context value
   const contextValue: GameContextType = {
     state,
     dispatch,
     engine,
-    isInitializing
+    isInitializing,
+    offlineReport,
+    dismissOfflineReport
   };
 
   return (
@@ -161,6 +159,8 @@ export function GameProvider({ children }: { children: ReactNode }) {
  *   - dispatch: Function to dispatch game actions
  *   - engine: Direct access to the game engine (for advanced use cases)
  *   - isInitializing: Whether the game is still loading
+ *   - offlineReport: Progress made while the game was closed, if any
+ *   - dismissOfflineReport: Hide the offline progress report
  */
 export function useGame() {
   const context = useContext(GameContext);
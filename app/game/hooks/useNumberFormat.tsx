@@ -0,0 +1,37 @@
+/**
+ * useNumberFormat Hook
+ *
+ * Formats numbers for display in the notation the player chose in the
+ * settings, so pages never format numbers their own way.
+ */
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { NumberNotation } from '../types';
+import { formatNumber } from '../utils/numbers';
+import { getNumberNotation, setNumberNotation, subscribeToDisplaySettings } from '../utils/displaySettings';
+
+// The server always renders the default, which the stored choice then replaces
+const getServerNotation = (): NumberNotation => 'suffix';
+
+/**
+ * Hook returning the player's number notation and a function to change it
+ */
+export function useNumberNotation(): [NumberNotation, (notation: NumberNotation) => void] {
+  const notation = useSyncExternalStore(subscribeToDisplaySettings, getNumberNotation, getServerNotation);
+  return [notation, setNumberNotation];
+}
+
+/**
+ * Hook returning the formatter for the player's number notation
+ *
+ * @returns A function taking a value and the decimal places for small
+ * values that are not whole (0 by default)
+ */
+export function useNumberFormat() {
+  const [notation] = useNumberNotation();
+
+  return useCallback(
+    (value: number, decimals: number = 0) => formatNumber(value, { notation, decimals }),
+    [notation]
+  );
+}
@@ -1,9 +1,17 @@
-import { GameState, RegionType } from '../types';
-import { GameAction, GameActions, GameCategory } from '../types/actions';
+import { GameState, PowerAllocation, RegionType } from '../types';
+import {
+  GameAction,
+  GameActionOf,
+  GameActionType,
+  GameCategory,
+  validateAction
+} from '../types/actions';
 import Logger, { LogCategory, LogContext } from '@/app/utils/logger';
 import { EventBus } from "../core/EventBus";
 import { EventMap } from "../types/events";
 import { CrewQuartersConstants } from '../config/gameConstants';
+import { ActionMiddleware, runActionPipeline } from '../core/ActionMiddleware';
+import { getPresetAllocation, normalizeAllocation } from '../utils/powerRouting';
 
 /**
  * ActionSystem
@@ -11,73 +19,115 @@ import { CrewQuartersConstants } from '../config/gameConstants';
  * Processes user actions and updates the game state accordingly.
  * Think of this as the customer service department that handles requests.
  */
+/**
+ * One handler per registered action type, each receiving its own action shape
+ */
+type ActionHandlerMap = {
+  [K in GameActionType]: (state: GameState, action: GameActionOf<K>) => GameState;
+};
+
 export class ActionSystem {
   private eventBus?: EventBus<EventMap>;
 
-  private actionHandlers: Record<string, (state: GameState, action: GameAction) => GameState>;
+  private actionHandlers: ActionHandlerMap;
+
+  /**
+   * Middleware run around every validated action, outermost first
+   */
+  private middleware: ActionMiddleware[] = [];
 
   constructor(eventBus?: EventBus<EventMap>) {
     this.eventBus = eventBus;
 
-    // Initialise handler map
+    // Initialise handler map; the type requires a handler for every action in the registry
     this.actionHandlers = {
-      RESOURCE_CLICK: (s, a) => this.handleResourceClick(s, a),
-      CLICK_RESOURCE: (s, a) => this.handleResourceClick(s, a),
+      CLICK_RESOURCE: (s, a) => this.handleResourceClick(s, a.payload.category),
       PURCHASE_UPGRADE: (s, a) =>
         this.handleUpgradePurchase(s, a.payload.category, a.payload.upgradeType),
       MARK_LOG_READ: (s, a) => this.handleMarkLogRead(s, a.payload.logId),
       MARK_ALL_LOGS_READ: (s) => this.handleMarkAllLogsRead(s),
-      SELECT_REGION: (s, a) => this.handleSelectRegion(s, a.payload.regionId),
+      SELECT_REGION: (s, a) => this.handleSelectRegion(s, a.payload.region),
       INITIATE_JUMP: (s) => this.handleInitiateJump(s),
-      COMPLETE_ENCOUNTER: (s, a) => this.handleCompleteEncounter(s, a),
-      STORY_CHOICE: (s, a) => this.handleStoryChoice(s, a),
-      COMBAT_ACTION: (s, a) => this.handleCombatAction(s, a),
+      COMPLETE_ENCOUNTER: (s, a) => this.handleCompleteEncounter(s, a.payload?.choiceId),
+      MAKE_STORY_CHOICE: (s, a) => this.handleStoryChoice(s, a.payload.choiceId),
+      COMBAT_ACTION: (s, a) => this.handleCombatAction(s, a.payload.actionId),
       RETREAT_FROM_BATTLE: (s) => this.handleRetreatFromBattle(s),
-      ENEMY_ACTION_RESOLVE: (s) => this.handleEnemyActionResolve(s)
+      ENEMY_ACTION_RESOLVE: (s) => this.handleEnemyActionResolve(s),
+      SET_POWER_ALLOCATION: (s, a) => 'preset' in a.payload
+        ? this.handleApplyPowerPreset(s, a.payload.preset)
+        : this.handleSetPowerAllocation(s, a.payload.allocation),
+      SAVE_POWER_PRESET: (s, a) => this.handleSavePowerPreset(s, a.payload.preset)
+    };
+  }
+
+  /**
+   * Register a middleware to run around every action
+   * 
+   * @returns A function to remove the middleware again
+   */
+  use(middleware: ActionMiddleware): () => void {
+    this.middleware = [...this.middleware, middleware];
+    Logger.debug(LogCategory.ACTIONS, `Registered action middleware: ${middleware.name}`, LogContext.NONE);
+
+    return () => {
+      this.middleware = this.middleware.filter(m => m !== middleware);
     };
   }
 
   /**
    * Process an action and update the game state
+   * Actions that fail validation, or that a middleware vetoes, are
+   * rejected with an `actionRejected` event
    */
   processAction(state: GameState, action: GameAction): GameState {
     Logger.trace(
       LogCategory.ACTIONS,
-      `Processing action: ${action.type}`,
+      `Processing action: ${action?.type}`,
       LogContext.NONE
     );
 
-    const handler = this.actionHandlers[action.type];
+    const validation = validateAction(action);
 
-    if (!handler) {
+    if (!validation.success) {
+      const { rejection } = validation;
       Logger.warn(
         LogCategory.ACTIONS,
-        `Unknown action type: ${action.type}`,
+        `Rejected action ${String(action?.type)} (${rejection.reason}): ${rejection.issues.map(i => `${i.path}: ${i.message}`).join('; ')}`,
         LogContext.NONE
       );
+      this.eventBus?.emit('actionRejected', rejection);
       return state;
     }
 
-    // Work on a shallow copy of state for safety
-    const newState = { ...state };
-    return handler(newState, action);
+    const { state: newState, vetoedBy } = runActionPipeline(
+      this.middleware,
+      validation.action,
+      state,
+      (current, finalAction) => {
+        const handler = this.actionHandlers[finalAction.type] as (state: GameState, action: typeof finalAction) => GameState;
+
+        // Work on a shallow copy of state for safety
+        const result = handler({ ...current }, finalAction);
+        this.eventBus?.emit('actionApplied', { action: finalAction });
+        return result;
+      }
+    );
+
+    if (vetoedBy) {
+      this.eventBus?.emit('actionRejected', {
+        action,
+        reason: 'VETOED',
+        issues: [{ path: '', message: `Vetoed by middleware: ${vetoedBy}` }]
+      });
+    }
+
+    return newState;
   }
   
   /**
    * Handle resource click actions
    */
-  private handleResourceClick(state: GameState, action: GameAction): GameState {
-    const category = action.payload?.category;
-    
-    if (!category) {
-      Logger.warn(
-        LogCategory.ACTIONS,
-        'No category specified for resource click',
-        LogContext.NONE
-      );
-      return state;
-    }
-    
+  private handleResourceClick(state: GameState, category: GameCategory): GameState {
     Logger.debug(
       LogCategory.ACTIONS,
       `Processing resource click for ${category}`,
@@ -284,10 +334,10 @@ export class ActionSystem {
   /**
    * Handle completing an encounter
    */
-  private handleCompleteEncounter(state: GameState, action: any): GameState {
+  private handleCompleteEncounter(state: GameState, choiceId?: string): GameState {
     Logger.info(LogCategory.ACTIONS, 'Completing encounter', LogContext.NONE);
     if (this.eventBus) {
-      this.eventBus.emit('COMPLETE_ENCOUNTER', { state, choiceId: action.payload?.choiceId });
+      this.eventBus.emit('COMPLETE_ENCOUNTER', { state, choiceId });
       return state;
     }
     Logger.error(LogCategory.ACTIONS, 'EventBus unavailable for COMPLETE_ENCOUNTER', LogContext.NONE);
@@ -316,40 +366,26 @@ export class ActionSystem {
   /**
    * Handle a player's choice in a story encounter
    */
-  private handleStoryChoice(state: GameState, action: any): GameState {
+  private handleStoryChoice(state: GameState, choiceId: string): GameState {
     Logger.debug(
       LogCategory.ACTIONS,
-      `Making story choice: ${action.payload?.choiceId}`,
+      `Making story choice: ${choiceId}`,
       LogContext.NONE
     );
     
-    if (!action.payload?.choiceId) {
-      Logger.error(
-        LogCategory.ACTIONS,
-        'No choice ID provided for story choice action',
-        LogContext.NONE
-      );
-      return state;
-    }
-    
     if (this.eventBus) {
-      this.eventBus.emit('COMPLETE_ENCOUNTER', { state, choiceId: action.payload.choiceId });
+      this.eventBus.emit('COMPLETE_ENCOUNTER', { state, choiceId });
       return state;
     }
-    Logger.error(LogCategory.ACTIONS, 'EventBus unavailable for STORY_CHOICE', LogContext.NONE);
+    Logger.error(LogCategory.ACTIONS, 'EventBus unavailable for MAKE_STORY_CHOICE', LogContext.NONE);
     return state;
   }
 
   /**
    * Handle combat actions
    */
-  private handleCombatAction(state: GameState, action: any): GameState {
+  private handleCombatAction(state: GameState, actionId: string): GameState {
     if (this.eventBus) {
-      const actionId = action.payload?.actionId;
-      if (!actionId) {
-        Logger.error(LogCategory.COMBAT, 'No action ID for COMBAT_ACTION', LogContext.COMBAT_ACTION);
-        return state;
-      }
       this.eventBus.emit('COMBAT_ACTION', { state, actionId });
       return state;
     }
@@ -383,6 +419,69 @@ export class ActionSystem {
     return state;
   }
 
+  /**
+   * Route the reactor's output by hand
+   */
+  private handleSetPowerAllocation(state: GameState, allocation: PowerAllocation): GameState {
+    const normalized = normalizeAllocation(allocation);
+    if (!normalized) {
+      Logger.warn(LogCategory.ACTIONS, 'Power allocation ignored: no system has any power', LogContext.REACTOR_LIFECYCLE);
+      return state;
+    }
+
+    return {
+      ...state,
+      power: {
+        ...state.power,
+        allocation: normalized,
+        activePreset: null
+      }
+    };
+  }
+
+  /**
+   * Route the reactor's output as a preset describes
+   */
+  private handleApplyPowerPreset(state: GameState, presetId: string): GameState {
+    const allocation = getPresetAllocation(state, presetId);
+    if (!allocation) {
+      Logger.warn(LogCategory.ACTIONS, `Unknown power preset: ${presetId}`, LogContext.REACTOR_LIFECYCLE);
+      return state;
+    }
+
+    Logger.info(LogCategory.ACTIONS, `Power routed for ${presetId}`, LogContext.REACTOR_LIFECYCLE);
+    return {
+      ...state,
+      power: {
+        ...state.power,
+        allocation: { ...allocation },
+        activePreset: presetId
+      }
+    };
+  }
+
+  /**
+   * Store the current allocation in a preset
+   */
+  private handleSavePowerPreset(state: GameState, presetId: string): GameState {
+    if (!getPresetAllocation(state, presetId)) {
+      Logger.warn(LogCategory.ACTIONS, `Unknown power preset: ${presetId}`, LogContext.REACTOR_LIFECYCLE);
+      return state;
+    }
+
+    return {
+      ...state,
+      power: {
+        ...state.power,
+        presets: {
+          ...state.power.presets,
+          [presetId]: { ...state.power.allocation }
+        },
+        activePreset: presetId
+      }
+    };
+  }
+
   /**
    * Handle crew quarters click (awakening progress)
    */
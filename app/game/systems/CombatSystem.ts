@@ -1,5 +1,4 @@
 import { GameState, RegionType, BattleLogEntry } from '../types';
-import { v4 as uuidv4 } from 'uuid';
 import { 
   ActionResult, 
   CombatActionDefinition,
@@ -17,6 +16,11 @@ import { REGION_DEFINITIONS } from '@/app/game/content/regions';
 import { ResourceSystem } from './ResourceSystem';
 import { EventBus } from "../core/EventBus";
 import { EventMap } from "../types/events";
+import { RandomService } from "../core/RandomService";
+import { Clock, systemClock } from "../core/Clock";
+import { recordEncounter } from "../core/HistoryArchive";
+import { addResource } from "../utils/resources";
+import { recalculateStats } from "../core/StatModifiers";
 
 /**
  * Combat System
@@ -30,9 +34,17 @@ import { EventMap } from "../types/events";
 export class CombatSystem {
   private resourceSystem: ResourceSystem | null = null;
   private eventBus?: EventBus<EventMap>;
-
-  constructor(eventBus?: EventBus<EventMap>) {
+  private random: RandomService;
+  private clock: Clock;
+
+  constructor(
+    eventBus?: EventBus<EventMap>,
+    random: RandomService = new RandomService(),
+    clock: Clock = systemClock
+  ) {
     this.eventBus = eventBus;
+    this.random = random;
+    this.clock = clock;
 
     if (this.eventBus) {
       this.eventBus.on('START_COMBAT', (data: any) => {
@@ -74,20 +86,6 @@ export class CombatSystem {
       LogContext.COMBAT
     );
     
-    // Ensure navigation state exists
-    if (!state.navigation) {
-      Logger.warn(
-        LogCategory.COMBAT,
-        `Navigation state was undefined in checkForEncounter - initializing with default values`,
-        LogContext.COMBAT
-      );
-      
-      state.navigation = {
-        currentRegion: toRegion,
-        completedRegions: []
-      };
-    }
-    
     const region = this.getRegionDefinition(toRegion);
     if (!region) {
       Logger.debug(
@@ -105,7 +103,7 @@ export class CombatSystem {
     );
     
     // Random chance based on region's encounter probability
-    const randomValue = Math.random();
+    const randomValue = this.random.forState(state).next();
     const encounterGenerated = randomValue < region.encounterChance;
     
     Logger.debug(
@@ -137,49 +135,6 @@ export class CombatSystem {
       return;
     }
 
-    // Check if combat state is undefined and initialize it
-    if (!state.combat) {
-      Logger.warn(
-        LogCategory.COMBAT,
-        `Combat state was undefined in startCombatEncounter - initializing with default values`,
-        LogContext.COMBAT
-      );
-      
-      // Initialize with default combat values
-      state.combat = {
-        active: false,
-        battleLog: [],
-        turn: 0,
-        playerStats: {
-          health: 100,
-          maxHealth: 100,
-          shield: 50,
-          maxShield: 50,
-          statusEffects: []
-        },
-        enemyStats: {
-          health: 0,
-          maxHealth: 0,
-          shield: 0,
-          maxShield: 0,
-          statusEffects: []
-        },
-        availableActions: [],
-        cooldowns: {},
-        encounterCompleted: false,
-        currentEnemy: null,
-        currentRegion: null,
-        enemyIntentions: null,
-        rewards: {
-          energy: 0,
-          insight: 0,
-          crew: 0,
-          scrap: 0
-        },
-        lastEnemyActionId: null
-      };
-    }
-
     // Initialize combat state
     state.combat.active = true;
     state.combat.currentEnemy = enemyId;
@@ -197,6 +152,9 @@ export class CombatSystem {
       statusEffects: []
     };
     
+    // Hull and shield capacity follow the current modifiers (power routing)
+    recalculateStats(state);
+
     // Restore the Dawn to full strength at the start of every encounter
     state.combat.playerStats.health = state.combat.playerStats.maxHealth;
     state.combat.playerStats.shield = state.combat.playerStats.maxShield;
@@ -215,15 +173,15 @@ export class CombatSystem {
     
     // Add initial battle log entry
     this.addBattleLog(state, {
-      id: uuidv4(),
-      timestamp: Date.now(),
+      id: this.random.forState(state).uuid(),
+      timestamp: this.clock.now(),
       text: `Encounter with ${enemy.name} initiated.`,
       type: 'SYSTEM'
     });
     
     this.addBattleLog(state, {
-      id: uuidv4(),
-      timestamp: Date.now(),
+      id: this.random.forState(state).uuid(),
+      timestamp: this.clock.now(),
       text: `${enemy.description}`,
       type: 'ANALYSIS'
     });
@@ -271,8 +229,8 @@ export class CombatSystem {
     }
 
     this.addBattleLog(state, {
-      id: uuidv4(),
-      timestamp: Date.now(),
+      id: this.random.forState(state).uuid(),
+      timestamp: this.clock.now(),
       text: message,
       type: 'SYSTEM'
     });
@@ -290,63 +248,29 @@ export class CombatSystem {
     // Process rewards
     enemy.loot.forEach(reward => {
       // Check probability
-      if (reward.probability && Math.random() > reward.probability) {
+      if (reward.probability && this.random.forState(state).next() > reward.probability) {
         return;
       }
       
-      // Add reward to resources
-      const resourceCategory = this.getResourceCategory(reward.type);
-      if (resourceCategory) {
-        // Handle each resource type explicitly
-        switch (reward.type) {
-          case 'energy':
-            state.categories.reactor.resources.energy += reward.amount;
-            break;
-          case 'insight':
-            state.categories.processor.resources.insight += reward.amount;
-            break;
-          case 'crew':
-            state.categories.crewQuarters.resources.crew += reward.amount;
-            break;
-          case 'scrap':
-            state.categories.manufacturing.resources.scrap += reward.amount;
-            break;
-        }
+      // Add reward to resources (loot may exceed capacity)
+      if (addResource(state, reward.type, reward.amount, false) === null) {
+        Logger.warn(
+          LogCategory.COMBAT,
+          `Unknown resource type: ${reward.type}`,
+          LogContext.COMBAT
+        );
       }
       
       // Add log entry
       this.addBattleLog(state, {
-        id: uuidv4(),
-        timestamp: Date.now(),
+        id: this.random.forState(state).uuid(),
+        timestamp: this.clock.now(),
         text: `Recovered ${reward.amount} ${reward.type} from the encounter.`,
         type: 'SYSTEM'
       });
     });
   }
 
-  /**
-   * Helper method to get the category for a resource type
-   */
-  private getResourceCategory(resourceType: string): keyof GameState['categories'] | null {
-    switch (resourceType) {
-      case 'energy':
-        return 'reactor';
-      case 'insight':
-        return 'processor';
-      case 'crew':
-        return 'crewQuarters';
-      case 'scrap':
-        return 'manufacturing';
-      default:
-        Logger.warn(
-          LogCategory.COMBAT,
-          `Unknown resource type: ${resourceType}`,
-          LogContext.COMBAT
-        );
-        return null;
-    }
-  }
-
   /**
    * Process a player combat action
    */
@@ -424,8 +348,8 @@ export class CombatSystem {
     
     // Add battle log entry
     this.addBattleLog(state, {
-      id: uuidv4(),
-      timestamp: Date.now(),
+      id: this.random.forState(state).uuid(),
+      timestamp: this.clock.now(),
       text: result.message,
       type: 'PLAYER'
     });
@@ -456,10 +380,6 @@ export class CombatSystem {
     // Handle status effects
     this.processStatusEffects(state);
 
-    // Notify listeners with a shallow-cloned state so React detects the change
-    const clonedState: GameState = { ...state, combat: { ...state.combat } };
-    this.eventBus?.emit('stateUpdated', clonedState);
-
     return result;
   }
 
@@ -535,8 +455,8 @@ export class CombatSystem {
     
     // Add to battle log
     this.addBattleLog(state, {
-      id: uuidv4(),
-      timestamp: Date.now(),
+      id: this.random.forState(state).uuid(),
+      timestamp: this.clock.now(),
       text: message,
       type: 'ENEMY'
     });
@@ -551,15 +471,15 @@ export class CombatSystem {
       return this.checkEnemyActionCondition(state, action.useCondition);
     });
     
+    const rng = this.random.forState(state);
+    
     // If no valid actions, pick randomly from all
     if (validActions.length === 0) {
-      const randomIndex = Math.floor(Math.random() * availableActions.length);
-      return availableActions[randomIndex];
+      return rng.pick(availableActions);
     }
     
     // Pick randomly from valid actions
-    const randomIndex = Math.floor(Math.random() * validActions.length);
-    return validActions[randomIndex];
+    return rng.pick(validActions);
   }
 
   /**
@@ -589,7 +509,7 @@ export class CombatSystem {
       case 'RANDOM':
         // Use action based on random probability
         if (!condition.probability) return false;
-        return Math.random() <= condition.probability;
+        return this.random.forState(state).next() <= condition.probability;
         
       default:
         return false;
@@ -756,8 +676,8 @@ export class CombatSystem {
    */
   retreat(state: GameState): void {
     this.addBattleLog(state, {
-      id: uuidv4(),
-      timestamp: Date.now(),
+      id: this.random.forState(state).uuid(),
+      timestamp: this.clock.now(),
       text: `Retreat initiated. Preparing emergency jump.`,
       type: 'PLAYER'
     });
@@ -843,7 +763,7 @@ export class CombatSystem {
     );
     
     // Select random enemy based on weights
-    let randomValue = Math.random() * totalWeight;
+    let randomValue = this.random.forState(state).next() * totalWeight;
     Logger.debug(
       LogCategory.COMBAT,
       `Random value: ${randomValue}`,
@@ -981,10 +901,10 @@ export class CombatSystem {
       battleLog: [
         ...newState.combat.battleLog,
         {
-          id: uuidv4(),
+          id: this.random.forState(state).uuid(),
           text: 'You retreated from combat, losing 25% of your resources in the hasty escape.',
           type: 'SYSTEM',
-          timestamp: Date.now()
+          timestamp: this.clock.now()
         }
       ]
     };
@@ -992,26 +912,13 @@ export class CombatSystem {
     // If there's an active encounter, mark it as completed
     if (newState.encounters.active && newState.encounters.encounter) {
       // Add to encounter history
-      newState.encounters.history = Array.isArray(newState.encounters.history) 
-        ? [
-            ...newState.encounters.history,
-            {
-              id: newState.encounters.encounter.id,
-              type: newState.encounters.encounter.type,
-              result: 'retreat',
-              date: Date.now(),
-              region: newState.encounters.encounter.region
-            }
-          ]
-        : [
-            {
-              id: newState.encounters.encounter.id,
-              type: newState.encounters.encounter.type,
-              result: 'retreat',
-              date: Date.now(),
-              region: newState.encounters.encounter.region
-            }
-          ];
+      recordEncounter(newState, {
+        id: newState.encounters.encounter.id,
+        type: newState.encounters.encounter.type,
+        result: 'retreat',
+        date: this.clock.now(),
+        region: newState.encounters.encounter.region
+      });
       
       // Clear the active encounter
       newState.encounters.active = false;
@@ -1069,8 +976,8 @@ export class CombatSystem {
 
     // Log the action
     this.addBattleLog(state, {
-      id: uuidv4(),
-      timestamp: Date.now(),
+      id: this.random.forState(state).uuid(),
+      timestamp: this.clock.now(),
       text: message,
       type: 'ENEMY'
     });
@@ -1105,15 +1012,11 @@ export class CombatSystem {
     Logger.debug(LogCategory.COMBAT, `Telegraphing enemy action: ${action.id}`, LogContext.COMBAT_ACTION);
 
     this.addBattleLog(state, {
-      id: uuidv4(),
-      timestamp: Date.now(),
+      id: this.random.forState(state).uuid(),
+      timestamp: this.clock.now(),
       text: `${enemy.name} begins charging ${action.name}…`,
       type: 'ENEMY'
     });
-
-    // Notify listeners with a shallow-cloned state so React detects the change
-    const clonedState: GameState = { ...state, combat: { ...state.combat } };
-    this.eventBus?.emit('stateUpdated', clonedState);
   }
 
   /**
@@ -1141,9 +1044,5 @@ export class CombatSystem {
 
     // Clear telegraph
     state.combat.enemyIntentions = null;
-
-    // Emit cloned state to trigger React update
-    const cloned: GameState = { ...state, combat: { ...state.combat } };
-    this.eventBus?.emit('stateUpdated', cloned);
   }
 } 
\ No newline at end of file
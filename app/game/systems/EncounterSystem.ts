@@ -1,4 +1,3 @@
-import { v4 as uuidv4 } from 'uuid';
 import { 
     GameState, 
     BaseEncounter, 
@@ -18,15 +17,23 @@ import {
 import Logger, { LogCategory, LogContext } from '@/app/utils/logger';
 import { REGION_DEFINITIONS } from '../content/regions';
 import { EventBus } from "../core/EventBus";
+import { RandomService, Rng } from "../core/RandomService";
+import { recordEncounter } from "../core/HistoryArchive";
+import { addResource } from "../utils/resources";
+import { Clock, systemClock } from "../core/Clock";
 
 /**
  * System responsible for generating and managing encounters
  */
 export class EncounterSystem {
     private eventBus?: EventBus;
+    private random: RandomService;
+    private clock: Clock;
 
-    constructor(eventBus?: EventBus) {
+    constructor(eventBus?: EventBus, random: RandomService = new RandomService(), clock: Clock = systemClock) {
         this.eventBus = eventBus;
+        this.random = random;
+        this.clock = clock;
 
         if (this.eventBus) {
             const bus = this.eventBus;
@@ -38,7 +45,7 @@ export class EncounterSystem {
 
                 // If combat encounter, emit start combat
                 if (encounter.type === 'combat') {
-                    const combatEnemyId = this.generateRandomEnemyForRegion(encounter.region);
+                    const combatEnemyId = this.generateRandomEnemyForRegion(state, encounter.region);
                     if (combatEnemyId) {
                         bus.emit('START_COMBAT', { state: state, enemyId: combatEnemyId, regionId: encounter.region });
                     }
@@ -57,6 +64,7 @@ export class EncounterSystem {
      */
     generateEncounter(state: GameState): BaseEncounter {
         const region = state.navigation.currentRegion;
+        const rng = this.random.forState(state);
         console.log(`Generating encounter for region: ${region}`);
         
         // Get encounter chances for the current region
@@ -64,33 +72,33 @@ export class EncounterSystem {
             { combat: 0.3, empty: 0.5, narrative: 0.2 }; // Fallback values if region not found
         
         // Generate a random value to determine encounter type
-        const randomValue = Math.random();
+        const randomValue = rng.next();
         
         // Determine the type of encounter based on region probabilities
         if (randomValue < encounterChances.combat) {
             // Combat encounter - delegate to the combat system
-            return this.generateCombatEncounter(region);
+            return this.generateCombatEncounter(region, rng);
         } else if (randomValue < encounterChances.combat + encounterChances.empty) {
             // Empty encounter
-            return this.generateEmptyEncounter(region);
+            return this.generateEmptyEncounter(region, rng);
         } else {
             // Narrative/story encounter
-            return this.generateStoryEncounter(region);
+            return this.generateStoryEncounter(region, rng);
         }
     }
     
     /**
      * Generate an empty encounter
      */
-    private generateEmptyEncounter(region: RegionType): EmptyEncounter {
-        const message = getRandomEmptyEncounterMessage(region);
-        const resources = generateEmptyEncounterRewards(region);
+    private generateEmptyEncounter(region: RegionType, rng: Rng): EmptyEncounter {
+        const message = getRandomEmptyEncounterMessage(region, rng);
+        const resources = generateEmptyEncounterRewards(region, rng);
         
         return {
-            id: uuidv4(),
+            id: rng.uuid(),
             type: 'empty',
-            title: getRandomEmptyEncounterTitle(region),
-            description: getRandomEmptyEncounterDescription(region),
+            title: getRandomEmptyEncounterTitle(region, rng),
+            description: getRandomEmptyEncounterDescription(region, rng),
             region,
             message,
             resources
@@ -100,7 +108,7 @@ export class EncounterSystem {
     /**
      * Generate a story encounter with choices
      */
-    private generateStoryEncounter(region: RegionType): StoryEncounter {
+    private generateStoryEncounter(region: RegionType, rng: Rng): StoryEncounter {
         // Generate a story encounter based on the region
         let title = '';
         let description = '';
@@ -112,7 +120,7 @@ export class EncounterSystem {
                 description = 'Your sensors detect a faint distress signal coming from a nearby debris field. The signal appears to be automated, repeating on an old frequency not commonly used anymore.';
                 choices = [
                     {
-                        id: uuidv4(),
+                        id: rng.uuid(),
                         text: 'Investigate the signal',
                         outcome: {
                             resources: [{ type: 'scrap', amount: 15, message: 'You salvaged valuable components from the wreckage.' }],
@@ -121,7 +129,7 @@ export class EncounterSystem {
                         }
                     },
                     {
-                        id: uuidv4(),
+                        id: rng.uuid(),
                         text: 'Ignore it and continue on your course',
                         outcome: {
                             text: 'You decide the risk isn\'t worth it and continue on your original course. The signal gradually fades as you move away from the debris field.',
@@ -129,7 +137,7 @@ export class EncounterSystem {
                         }
                     },
                     {
-                        id: uuidv4(),
+                        id: rng.uuid(),
                         text: 'Scan the area thoroughly before approaching',
                         outcome: {
                             resources: [{ type: 'insight', amount: 10, message: 'The detailed analysis yielded valuable data.' }],
@@ -145,7 +153,7 @@ export class EncounterSystem {
                 description = 'As you traverse the nebula, you encounter a pulsating area of unusual luminosity. Your sensors indicate high energy readings, but also potential radiation hazards.';
                 choices = [
                     {
-                        id: uuidv4(),
+                        id: rng.uuid(),
                         text: 'Collect energy samples',
                         outcome: {
                             resources: [{ type: 'energy', amount: 25, message: 'The energy collection was successful despite the risks.' }],
@@ -154,7 +162,7 @@ export class EncounterSystem {
                         }
                     },
                     {
-                        id: uuidv4(),
+                        id: rng.uuid(),
                         text: 'Study from a safe distance',
                         outcome: {
                             resources: [{ type: 'insight', amount: 15, message: 'The phenomenon yielded valuable scientific data.' }],
@@ -163,7 +171,7 @@ export class EncounterSystem {
                         }
                     },
                     {
-                        id: uuidv4(),
+                        id: rng.uuid(),
                         text: 'Plot a course around the anomaly',
                         outcome: {
                             text: 'You decide that the potential risks outweigh any benefits and carefully navigate around the luminous area. While you gain no immediate resources, your cautious approach ensures the safety of your crew and vessel.',
@@ -178,7 +186,7 @@ export class EncounterSystem {
                 description = 'You come across what appears to be an abandoned mining operation on a medium-sized asteroid. Equipment has been left behind, though it\'s unclear how long ago the site was abandoned.';
                 choices = [
                     {
-                        id: uuidv4(),
+                        id: rng.uuid(),
                         text: 'Salvage the mining equipment',
                         outcome: {
                             resources: [{ type: 'scrap', amount: 30, message: 'The abandoned equipment provided significant salvage materials.' }],
@@ -187,7 +195,7 @@ export class EncounterSystem {
                         }
                     },
                     {
-                        id: uuidv4(),
+                        id: rng.uuid(),
                         text: 'Look for any remaining mineral deposits',
                         outcome: {
                             resources: [
@@ -199,7 +207,7 @@ export class EncounterSystem {
                         }
                     },
                     {
-                        id: uuidv4(),
+                        id: rng.uuid(),
                         text: 'Search for clues about what happened to the miners',
                         outcome: {
                             resources: [{ type: 'insight', amount: 20, message: 'The logs contained valuable information about this sector.' }],
@@ -215,7 +223,7 @@ export class EncounterSystem {
                 description = 'Your long-range sensors detect a drifting vessel in the void of deep space. Initial scans indicate it\'s a research vessel that lost power several years ago. There are no life signs aboard.';
                 choices = [
                     {
-                        id: uuidv4(),
+                        id: rng.uuid(),
                         text: 'Board the vessel to search for valuable technology',
                         outcome: {
                             resources: [
@@ -227,7 +235,7 @@ export class EncounterSystem {
                         }
                     },
                     {
-                        id: uuidv4(),
+                        id: rng.uuid(),
                         text: 'Attempt to remotely access their computer systems',
                         outcome: {
                             resources: [{ type: 'insight', amount: 30, message: 'You successfully extracted the complete research database.' }],
@@ -236,7 +244,7 @@ export class EncounterSystem {
                         }
                     },
                     {
-                        id: uuidv4(),
+                        id: rng.uuid(),
                         text: 'Tow the vessel to the nearest station for a salvage bounty',
                         outcome: {
                             resources: [{ type: 'energy', amount: -10, message: 'The towing operation consumed some energy reserves.' }],
@@ -252,7 +260,7 @@ export class EncounterSystem {
                 description = 'You discover the remains of a scientific outpost positioned to use the black hole as a gravitational lens for deep space observation. The facility appears to have been hastily evacuated.';
                 choices = [
                     {
-                        id: uuidv4(),
+                        id: rng.uuid(),
                         text: 'Recover the observational data',
                         outcome: {
                             resources: [{ type: 'insight', amount: 40, message: 'The astronomical data is extremely valuable.' }],
@@ -261,7 +269,7 @@ export class EncounterSystem {
                         }
                     },
                     {
-                        id: uuidv4(),
+                        id: rng.uuid(),
                         text: 'Salvage the advanced scientific equipment',
                         outcome: {
                             resources: [
@@ -273,7 +281,7 @@ export class EncounterSystem {
                         }
                     },
                     {
-                        id: uuidv4(),
+                        id: rng.uuid(),
                         text: 'Use the observatory\'s position for your own observations',
                         outcome: {
                             resources: [{ type: 'insight', amount: 20, message: 'Your brief observations yielded interesting data.' }],
@@ -290,7 +298,7 @@ export class EncounterSystem {
                 description = 'As you navigate through this region, you encounter something unusual that catches your attention.';
                 choices = [
                     {
-                        id: uuidv4(),
+                        id: rng.uuid(),
                         text: 'Investigate closely',
                         outcome: {
                             resources: [{ type: 'insight', amount: 10, message: 'Your curiosity was rewarded with new knowledge.' }],
@@ -299,7 +307,7 @@ export class EncounterSystem {
                         }
                     },
                     {
-                        id: uuidv4(),
+                        id: rng.uuid(),
                         text: 'Observe from a distance',
                         outcome: {
                             text: 'You decide to observe from a safe distance, gathering what information you can before resuming your course.',
@@ -307,7 +315,7 @@ export class EncounterSystem {
                         }
                     },
                     {
-                        id: uuidv4(),
+                        id: rng.uuid(),
                         text: 'Ignore and continue on your path',
                         outcome: {
                             text: 'You decide that whatever it is doesn\'t warrant further attention and continue on your planned route without delay.',
@@ -318,7 +326,7 @@ export class EncounterSystem {
         }
         
         return {
-            id: uuidv4(),
+            id: rng.uuid(),
             type: 'story',
             title,
             description,
@@ -340,44 +348,12 @@ export class EncounterSystem {
         rewards.forEach(reward => {
             const { type, amount } = reward;
             
-            // Handle different resource types
-            switch (type) {
-                case 'energy':
-                    newState.categories.reactor.resources.energy = Math.min(
-                        newState.categories.reactor.resources.energy + amount,
-                        newState.categories.reactor.stats.energyCapacity
-                    );
-                    console.log(`Added ${amount} energy`);
-                    break;
-                    
-                case 'insight':
-                    newState.categories.processor.resources.insight = Math.min(
-                        newState.categories.processor.resources.insight + amount,
-                        newState.categories.processor.stats.insightCapacity
-                    );
-                    console.log(`Added ${amount} insight`);
-                    break;
-                    
-                case 'crew':
-                    if (amount >= 1) {
-                        newState.categories.crewQuarters.resources.crew = Math.min(
-                            newState.categories.crewQuarters.resources.crew + Math.floor(amount),
-                            newState.categories.crewQuarters.stats.crewCapacity
-                        );
-                        console.log(`Added ${Math.floor(amount)} crew`);
-                    }
-                    break;
-                    
-                case 'scrap':
-                    newState.categories.manufacturing.resources.scrap = Math.min(
-                        newState.categories.manufacturing.resources.scrap + amount,
-                        newState.categories.manufacturing.stats.scrapCapacity
-                    );
-                    console.log(`Added ${amount} scrap`);
-                    break;
-                    
-                default:
-                    console.warn(`Unknown reward type: ${type}`);
+            // Rewards fill resources up to their capacity
+            const added = addResource(newState, type, amount);
+            if (added === null) {
+                console.warn(`Unknown reward type: ${type}`);
+            } else if (added > 0) {
+                console.log(`Added ${added} ${type}`);
             }
         });
         
@@ -452,7 +428,7 @@ export class EncounterSystem {
             const regionId = combatEncounter.region;
             
             // Generate a random enemy from the region
-            const enemyId = this.generateRandomEnemyForRegion(regionId);
+            const enemyId = this.generateRandomEnemyForRegion(newState, regionId);
             
             if (enemyId && this.eventBus) {
                 // Emit event to start combat
@@ -464,35 +440,20 @@ export class EncounterSystem {
                 newState.combat.active = true;
 
                 // Record history
-                newState.encounters.history = Array.isArray(newState.encounters.history)
-                  ? [...newState.encounters.history, { id: encounter.id, type: encounter.type, result: 'initiated', date: Date.now(), region: encounter.region }]
-                  : [{ id: encounter.id, type: encounter.type, result: 'initiated', date: Date.now(), region: encounter.region }];
+                recordEncounter(newState, { id: encounter.id, type: encounter.type, result: 'initiated', date: this.clock.now(), region: encounter.region });
 
                 return newState;
             }
         }
         
         // Add to encounter history
-        newState.encounters.history = Array.isArray(newState.encounters.history) 
-          ? [
-              ...newState.encounters.history,
-              {
-                  id: encounter.id,
-                  type: encounter.type,
-                  result: choiceId || 'completed',
-                  date: Date.now(),
-                  region: encounter.region
-              }
-            ]
-          : [
-              {
-                  id: encounter.id,
-                  type: encounter.type,
-                  result: choiceId || 'completed',
-                  date: Date.now(),
-                  region: encounter.region
-              }
-            ];
+        recordEncounter(newState, {
+            id: encounter.id,
+            type: encounter.type,
+            result: choiceId || 'completed',
+            date: this.clock.now(),
+            region: encounter.region
+        });
         
         // Clear the active encounter
         newState.encounters.active = false;
@@ -502,7 +463,7 @@ export class EncounterSystem {
     }
 
     // Add a new method for generating combat encounters
-    private generateCombatEncounter(region: string): BaseEncounter {
+    private generateCombatEncounter(region: string, rng: Rng): BaseEncounter {
         const regionType = region as RegionType;
         
         // Region-specific encounter titles and descriptions
@@ -537,7 +498,7 @@ export class EncounterSystem {
         
         // Create a basic encounter structure that will be handled by the combat system
         return {
-            id: `combat-${region}-${Date.now()}`,
+            id: `combat-${region}-${rng.uuid()}`,
             title: details.title,
             description: details.description,
             region: regionType,
@@ -548,7 +509,7 @@ export class EncounterSystem {
     /**
      * Generate a random enemy for the given region
      */
-    private generateRandomEnemyForRegion(regionId: RegionType): string | null {
+    private generateRandomEnemyForRegion(state: GameState, regionId: RegionType): string | null {
         // Find the region definition - REGION_DEFINITIONS is a Record<string, RegionDefinition>
         // not an array, so we can't use find directly
         const region = REGION_DEFINITIONS[regionId as string];
@@ -562,23 +523,7 @@ export class EncounterSystem {
             return null;
         }
         
-        // Calculate total weight
-        let totalWeight = 0;
-        region.enemyProbabilities.forEach((enemy: { weight: number; enemyId: string }) => {
-            totalWeight += enemy.weight;
-        });
-        
         // Select an enemy based on weights
-        let randomValue = Math.random() * totalWeight;
-        
-        for (const enemy of region.enemyProbabilities) {
-            randomValue -= enemy.weight;
-            if (randomValue <= 0) {
-                return enemy.enemyId;
-            }
-        }
-        
-        // Fallback to first enemy
-        return region.enemyProbabilities[0].enemyId;
+        return this.random.forState(state).weighted(region.enemyProbabilities).enemyId;
     }
 } 
\ No newline at end of file
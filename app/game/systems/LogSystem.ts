@@ -1,6 +1,26 @@
-import { GameState, LogUnlockCondition, ResourceThresholdCondition, UpgradePurchasedCondition, LogDefinition } from '../types';
+import { GameState, LogUnlockCondition, ResourceThresholdCondition, UpgradePurchasedCondition, LogDefinition, DiscoveredLog, LogEntry } from '../types';
 import { LOG_DEFINITIONS } from '../content/logDefinitions';
 import { EventBus } from "../core/EventBus";
+import { Clock, systemClock } from "../core/Clock";
+
+/**
+ * Add the title, text and category of a discovered log
+ * Saves only keep which logs were found; the text lives in LOG_DEFINITIONS
+ *
+ * @param log - A log from `state.logs.discovered`
+ * @returns The full entry, or null if the log no longer exists
+ */
+export function getLogEntry(log: DiscoveredLog): LogEntry | null {
+    const logDef = LOG_DEFINITIONS[log.id];
+    if (!logDef) return null;
+
+    return {
+        ...log,
+        title: logDef.title,
+        content: logDef.content,
+        category: logDef.category
+    };
+}
 
 /**
  * LogSystem
@@ -12,9 +32,11 @@ import { EventBus } from "../core/EventBus";
  */
 export class LogSystem {
     private logDefinitions: Record<string, LogDefinition>;
+    private clock: Clock;
 
-    constructor(eventBus?: EventBus) {
+    constructor(eventBus?: EventBus, clock: Clock = systemClock) {
         this.logDefinitions = LOG_DEFINITIONS;
+        this.clock = clock;
         if (eventBus) {
             eventBus.on('MARK_LOG_READ', (data: any) => {
                 const { state, logId } = data as { state: GameState; logId: string };
@@ -97,14 +119,6 @@ export class LogSystem {
      * @param state - Current game state
      */
     private checkForUnlockableLogs(state: GameState) {
-        // Make sure logs structure exists
-        if (!state.logs) {
-            state.logs = { discovered: {}, unread: [] };
-        } else if (!state.logs.discovered) {
-            state.logs.discovered = {};
-            state.logs.unread = state.logs.unread || [];
-        }
-        
         Object.entries(this.logDefinitions).forEach(([logId, logDef]) => {
             // Skip already discovered logs
             if (state.logs.discovered[logId]) return;
@@ -123,13 +137,9 @@ export class LogSystem {
      * @param logId - ID of the log to unlock
      */
     private unlockLog(state: GameState, logId: string) {
-        const logDef = this.logDefinitions[logId];
         state.logs.discovered[logId] = {
             id: logId,
-            title: logDef.title,
-            content: logDef.content,
-            timestamp: Date.now(),
-            category: logDef.category,
+            timestamp: this.clock.now(),
             isRead: false
         };
         state.logs.unread.push(logId);
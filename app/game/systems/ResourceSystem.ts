@@ -1,5 +1,15 @@
 import { GameState } from '../types';
 import Logger, { LogCategory, LogContext } from "@/app/utils/logger"
+import {
+  getResourceAmount,
+  getResourceCapacity,
+  getResourceDefinition,
+  getResourceDefinitions,
+  getResourceRate,
+  setResourceAmount
+} from '../utils/resources';
+import { getProductionFactor, getTotalUpkeep } from '../utils/upkeep';
+import { addNumbers, formatNumber } from '../utils/numbers';
 
 /**
  * ResourceSystem
@@ -15,32 +25,75 @@ export class ResourceSystem {
    * @param delta - Time passed in seconds since last update
    */
   update(state: GameState, delta: number) {
-    // Generic updates for simple resource categories
-    this.updateResourceCategory(state.categories.reactor, 'energy', 'energyPerSecond', 'energyCapacity', delta);
-    this.updateResourceCategory(state.categories.processor, 'insight', 'insightPerSecond', 'insightCapacity', delta);
-    this.updateResourceCategory(state.categories.manufacturing, 'scrap', 'scrapPerSecond', 'scrapCapacity', delta);
+    // Work out how much of the automation the reactor can power this step
+    const upkeep = this.updatePowerSupply(state, delta);
+
+    // Resources with a production rate all work the same way
+    getResourceDefinitions()
+      .filter(definition => definition.production === 'rate')
+      .forEach(definition => this.updateResource(
+        state,
+        definition.id,
+        delta * getProductionFactor(state, definition.category)
+      ));
 
     // Crew quarters require bespoke logic
-    this.updateCrewQuarters(state, delta);
+    this.updateCrewQuarters(state, delta * getProductionFactor(state, 'crewQuarters'));
+
+    // Pay for what was powered; the supply calculation guarantees it is there
+    if (upkeep > 0) {
+      const paid = upkeep * state.categories.reactor.stats.powerSupply * delta;
+      setResourceAmount(state, 'energy', Math.max(0, getResourceAmount(state, 'energy') - paid));
+    }
   }
 
   /**
-   * Generic helper for simple resource production categories
+   * Record the energy upkeep of automated systems and the share of it the
+   * reactor can cover this step (stored energy plus this step's production).
+   * When it falls short, every system with upkeep is throttled by the same
+   * share (a brownout).
+   *
+   * @returns The upkeep in energy per second
    */
-  private updateResourceCategory(
-    category: { resources: Record<string, number>; stats: Record<string, number> },
-    resourceKey: string,
-    rateKey: string,
-    capacityKey: string,
-    delta: number
-  ) {
-    const produced = (category.stats[rateKey] || 0) * delta;
+  private updatePowerSupply(state: GameState, delta: number): number {
+    const stats = state.categories.reactor.stats;
+    const upkeep = getTotalUpkeep(state);
+    const wasBrownout = stats.powerSupply < 1;
 
-    if (produced > 0) {
-      category.resources[resourceKey] = Math.min(
-        (category.resources[resourceKey] || 0) + produced,
-        category.stats[capacityKey] || 0
+    const energy = getResourceAmount(state, 'energy');
+    const available = Math.min(
+      energy + getResourceRate(state, 'energy') * delta,
+      Math.max(energy, getResourceCapacity(state, 'energy'))
+    );
+    const demand = upkeep * delta;
+
+    stats.energyUpkeep = upkeep;
+    stats.powerSupply = demand > 0 ? Math.min(1, available / demand) : 1;
+
+    if (stats.powerSupply < 1 && !wasBrownout) {
+      Logger.warn(
+        LogCategory.RESOURCES,
+        `Brownout: reactor covers ${(stats.powerSupply * 100).toFixed(0)}% of ${formatNumber(upkeep, { decimals: 2 })} energy/s upkeep`,
+        LogContext.REACTOR_LIFECYCLE
       );
+    } else if (stats.powerSupply >= 1 && wasBrownout) {
+      Logger.info(LogCategory.RESOURCES, 'Brownout over: automated systems fully powered', LogContext.REACTOR_LIFECYCLE);
+    }
+
+    return upkeep;
+  }
+
+  /**
+   * Generic helper for resources produced at their rate, up to capacity
+   */
+  private updateResource(state: GameState, id: string, delta: number) {
+    const produced = getResourceRate(state, id) * delta;
+
+    if (produced > 0) {
+      setResourceAmount(state, id, Math.min(
+        addNumbers(getResourceAmount(state, id), produced),
+        getResourceCapacity(state, id)
+      ));
     }
   }
 
@@ -109,26 +162,6 @@ export class ResourceSystem {
     }
   }
 
-  /**
-   * Helper to access any resource amount generically.
-   * Returns the object holding the value and the key so that the caller can
-   * both read and mutate the value without a long switch-case.
-   */
-  private getResourceAccessor(state: GameState, type: string): { obj: any; key: string } | null {
-    switch (type) {
-      case 'energy':
-        return { obj: state.categories.reactor.resources, key: 'energy' };
-      case 'insight':
-        return { obj: state.categories.processor.resources, key: 'insight' };
-      case 'crew':
-        return { obj: state.categories.crewQuarters.resources, key: 'crew' };
-      case 'scrap':
-        return { obj: state.categories.manufacturing.resources, key: 'scrap' };
-      default:
-        return null;
-    }
-  }
-
   /**
    * Check if the player has enough resources for a cost
    * 
@@ -140,8 +173,7 @@ export class ResourceSystem {
     for (const { type, amount } of costs) {
       if (amount <= 0) continue; // Nothing to check
 
-      const accessor = this.getResourceAccessor(state, type);
-      if (!accessor) {
+      if (!getResourceDefinition(type)) {
         Logger.warn(
           LogCategory.RESOURCES,
           `Unknown resource type: ${type}`,
@@ -150,7 +182,7 @@ export class ResourceSystem {
         return false;
       }
 
-      if (accessor.obj[accessor.key] < amount) {
+      if (getResourceAmount(state, type) < amount) {
         return false;
       }
     }
@@ -172,17 +204,7 @@ export class ResourceSystem {
     for (const { type, amount } of costs) {
       if (amount <= 0) continue;
 
-      const accessor = this.getResourceAccessor(state, type);
-      if (!accessor) {
-        Logger.warn(
-          LogCategory.RESOURCES,
-          `Unknown resource type: ${type}`,
-          LogContext.COMBAT
-        );
-        return false;
-      }
-
-      accessor.obj[accessor.key] -= amount;
+      setResourceAmount(state, type, getResourceAmount(state, type) - amount);
 
       Logger.debug(
         LogCategory.RESOURCES,
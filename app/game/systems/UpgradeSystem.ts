@@ -11,6 +11,9 @@ import { EventBus } from "../core/EventBus";
 import { EventMap } from "../types/events";
 import { UPGRADE_CATALOG } from '../config/upgradeCatalog';
 import { incrementAtPath } from '../utils/objectPath';
+import { getResourceAmount, setResourceAmount } from '../utils/resources';
+import { formatNumber } from '../utils/numbers';
+import { recalculateStats } from '../core/StatModifiers';
 
 /**
  * UpgradeSystem
@@ -53,15 +56,19 @@ export class UpgradeSystem {
     // For now only reactor is catalog-driven
     if (catalogEntry) {
       const cost = catalogEntry.cost(state);
-      const { obj, key } = this.getResourceAccessor(state, catalogEntry.resource);
-      if (obj[key] < cost) {
-        Logger.debug(LogCategory.UPGRADES, 'Insufficient resources for upgrade', LogContext.UPGRADE_PURCHASE);
+      const available = getResourceAmount(state, catalogEntry.resource);
+      if (available < cost) {
+        Logger.debug(
+          LogCategory.UPGRADES,
+          `Insufficient resources for upgrade: needs ${formatNumber(cost)} ${catalogEntry.resource}, has ${formatNumber(available)}`,
+          LogContext.UPGRADE_PURCHASE
+        );
         return false;
       }
-      obj[key] -= cost;
+      setResourceAmount(state, catalogEntry.resource, available - cost);
 
       incrementAtPath(state, catalogEntry.incrementPath, 1);
-      catalogEntry.apply(state);
+      recalculateStats(state);
       return true;
     }
 
@@ -98,78 +105,12 @@ export class UpgradeSystem {
   }
   
   /**
-   * Recalculate stats for all upgrades using catalog apply functions
+   * Recalculate every derived stat, including the contributions of upgrades
    */
   updateAllStats(state: GameState): void {
-    Object.values(UPGRADE_CATALOG).forEach(cat => {
-      Object.values(cat).forEach(def => def.apply(state));
-    });
+    recalculateStats(state);
   }
   
-  /**
-   * Update reactor stats based on upgrades
-   */
-  private updateReactorStats(state: GameState): void {
-    const reactor = state.categories.reactor;
-    
-    // Calculate energy capacity based on expansions
-    // Base capacity = 100, each expansion adds 50% more
-    reactor.stats.energyCapacity = ReactorConstants.BASE_ENERGY_CAPACITY * 
-      Math.pow(ReactorConstants.ENERGY_CAPACITY_MULTIPLIER, reactor.upgrades.reactorExpansions);
-    
-    // Calculate energy production based on converters
-    // Each converter adds 1 energy per second
-    reactor.stats.energyPerSecond = reactor.upgrades.energyConverters * ReactorConstants.ENERGY_PER_CONVERTER;
-  }
-  
-  /**
-   * Update processor stats based on upgrades
-   */
-  private updateProcessorStats(state: GameState): void {
-    const processor = state.categories.processor;
-    
-    // Calculate insight capacity based on mainframe expansions
-    // Base capacity = 50, each expansion adds 50% more
-    processor.stats.insightCapacity = ProcessorConstants.BASE_INSIGHT_CAPACITY * 
-      Math.pow(ProcessorConstants.INSIGHT_CAPACITY_MULTIPLIER, processor.upgrades.mainframeExpansions);
-    
-    // Calculate insight production based on processing threads
-    // Each thread adds 0.2 insight per second
-    processor.stats.insightPerSecond = processor.upgrades.processingThreads * ProcessorConstants.INSIGHT_PER_THREAD;
-  }
-  
-  /**
-   * Update crew quarters stats based on upgrades
-   */
-  private updateCrewQuartersStats(state: GameState): void {
-    const crewQuarters = state.categories.crewQuarters;
-    
-    // Calculate crew capacity based on additional quarters
-    // Base capacity = 5, each quarters upgrade adds 3 capacity
-    crewQuarters.stats.crewCapacity = CrewQuartersConstants.BASE_CREW_CAPACITY + 
-      (crewQuarters.upgrades.additionalQuarters * CrewQuartersConstants.QUARTERS_UPGRADE_CAPACITY_INCREASE);
-    
-    // Calculate crew production based on worker crews
-    // Each worker crew adds 1.0 awakening progress per second
-    crewQuarters.stats.crewPerSecond = crewQuarters.upgrades.workerCrews * CrewQuartersConstants.WORKER_CREW_PRODUCTION_RATE;
-  }
-  
-  /**
-   * Update manufacturing stats based on upgrades
-   */
-  private updateManufacturingStats(state: GameState): void {
-    const manufacturing = state.categories.manufacturing;
-    
-    // Calculate scrap capacity based on cargo hold expansions
-    // Base capacity = 100, each expansion adds 50% more
-    manufacturing.stats.scrapCapacity = ManufacturingConstants.BASE_SCRAP_CAPACITY * 
-      Math.pow(ManufacturingConstants.SCRAP_CAPACITY_MULTIPLIER, manufacturing.upgrades.cargoHoldExpansions);
-    
-    // Calculate scrap production based on manufacturing bays
-    // Each bay adds 0.5 scrap per second
-    manufacturing.stats.scrapPerSecond = manufacturing.upgrades.manufacturingBays * ManufacturingConstants.SCRAP_PER_BAY;
-  }
-
   /*** Utility methods for cost calculations ***/
 
   /**
@@ -260,19 +201,4 @@ export class UpgradeSystem {
   calculateManufacturingBayCost(currentBays: number): number {
     return (currentBays + 1) * ManufacturingConstants.BAY_COST_BASE;
   }
-
-  private getResourceAccessor(state: GameState, type: string): { obj: any; key: string } {
-    switch (type) {
-      case 'energy':
-        return { obj: state.categories.reactor.resources, key: 'energy' };
-      case 'insight':
-        return { obj: state.categories.processor.resources, key: 'insight' };
-      case 'crew':
-        return { obj: state.categories.crewQuarters.resources, key: 'crew' };
-      case 'scrap':
-        return { obj: state.categories.manufacturing.resources, key: 'scrap' };
-      default:
-        throw new Error(`Unknown resource type ${type}`);
-    }
-  }
 } 
\ No newline at end of file
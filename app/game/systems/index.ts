@@ -6,6 +6,10 @@ import { UpgradeSystem } from './UpgradeSystem';
 import { LogSystem } from './LogSystem';
 import { EncounterSystem } from './EncounterSystem';
 import { CombatSystem } from './CombatSystem';
+import { RandomService } from '../core/RandomService';
+import { ActionMiddleware } from '../core/ActionMiddleware';
+import { Clock, systemClock } from '../core/Clock';
+import { recalculateStats } from '../core/StatModifiers';
 
 /**
  * GameSystemManager
@@ -44,16 +48,25 @@ export class GameSystemManager {
    */
   public combat: CombatSystem;
 
+  /**
+   * Seeded random number service shared by all systems
+   */
+  public random: RandomService;
+
   /**
    * Initialize all game systems
+   * 
+   * @param eventBus - Shared event bus
+   * @param clock - Time source for timestamps written into the state
    */
-  constructor(eventBus?: import('../core/EventBus').EventBus) {
-    // Share one EventBus instance across all systems
+  constructor(eventBus?: import('../core/EventBus').EventBus, clock: Clock = systemClock) {
+    // Share one EventBus, RandomService and Clock across all systems
+    this.random = new RandomService();
     this.resource = new ResourceSystem();
     this.upgrade = new UpgradeSystem(eventBus);
-    this.log = new LogSystem(eventBus);
-    this.encounter = new EncounterSystem(eventBus);
-    this.combat = new CombatSystem(eventBus);
+    this.log = new LogSystem(eventBus, clock);
+    this.encounter = new EncounterSystem(eventBus, this.random, clock);
+    this.combat = new CombatSystem(eventBus, this.random, clock);
     
     // Initialize the action system last since it depends on other systems
     this.action = new ActionSystem(eventBus);
@@ -69,6 +82,9 @@ export class GameSystemManager {
    * @param delta - Time passed in seconds
    */
   update(state: GameState, delta: number) {
+    // Bring derived stats up to date (regions, power routing, expiring modifiers)
+    recalculateStats(state);
+
     // Update resources based on production rates
     this.resource.update(state, delta);
     
@@ -96,4 +112,13 @@ export class GameSystemManager {
   processAction(state: GameState, action: GameAction): GameState {
     return this.action.processAction(state, action);
   }
+
+  /**
+   * Register a middleware around every processed action
+   * 
+   * @returns A function to remove the middleware again
+   */
+  useActionMiddleware(middleware: ActionMiddleware): () => void {
+    return this.action.use(middleware);
+  }
 } 
\ No newline at end of file
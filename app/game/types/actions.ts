@@ -3,16 +3,36 @@
  * 
  * These are all the possible actions that can be dispatched to modify the game state.
  * Think of these as the different types of requests that can be made.
+ *
+ * Each action is declared once, as a zod schema. The TypeScript types are
+ * inferred from the schemas, and ActionSystem validates every incoming
+ * action against them before handling it.
  */
 
+import { z } from 'zod';
+import { PowerAllocation, RegionType } from './index';
+
 /**
  * Categories in the game
  */
 export type GameCategory = 'reactor' | 'processor' | 'crewQuarters' | 'manufacturing';
 
+const gameCategorySchema: z.ZodType<GameCategory> = z.enum(['reactor', 'processor', 'crewQuarters', 'manufacturing']);
+
+export const regionSchema: z.ZodType<RegionType> = z.enum(['void', 'nebula', 'asteroid', 'deepspace', 'blackhole']);
+
+const shareSchema = z.number().min(0).max(1);
+
+export const powerAllocationSchema: z.ZodType<PowerAllocation> = z.object({
+  processor: shareSchema,
+  crewQuarters: shareSchema,
+  manufacturing: shareSchema,
+  shields: shareSchema
+});
+
 /**
  * Base Action interface
- * All actions must have a type
+ * The loose shape of anything dispatched, before it has been validated
  */
 export interface GameAction {
   type: string;
@@ -23,103 +43,241 @@ export interface GameAction {
  * Click Resource Action
  * Triggered when the player clicks on a resource generator button
  */
-export interface ClickResourceAction extends GameAction {
-  type: 'CLICK_RESOURCE';
-  payload: {
-    category: GameCategory;
-  };
-}
+const clickResourceSchema = z.object({
+  type: z.literal('CLICK_RESOURCE'),
+  payload: z.object({
+    category: gameCategorySchema
+  })
+});
 
 /**
  * Purchase Upgrade Action
  * Triggered when the player buys an upgrade
  */
-export interface PurchaseUpgradeAction extends GameAction {
-  type: 'PURCHASE_UPGRADE';
-  payload: {
-    category: GameCategory;
-    upgradeType: string;
-  };
-}
+const purchaseUpgradeSchema = z.object({
+  type: z.literal('PURCHASE_UPGRADE'),
+  payload: z.object({
+    category: gameCategorySchema,
+    upgradeType: z.string().min(1)
+  })
+});
 
 /**
  * Mark Log as Read Action
  * Triggered when a player views a log
  */
-export interface MarkLogReadAction extends GameAction {
-  type: 'MARK_LOG_READ';
-  payload: {
-    logId: string;
-  };
-}
+const markLogReadSchema = z.object({
+  type: z.literal('MARK_LOG_READ'),
+  payload: z.object({
+    logId: z.string().min(1)
+  })
+});
 
 /**
  * Mark All Logs as Read Action
  * Triggered when a player clicks "Mark All as Read"
  */
-export interface MarkAllLogsReadAction extends GameAction {
-  type: 'MARK_ALL_LOGS_READ';
-}
+const markAllLogsReadSchema = z.object({
+  type: z.literal('MARK_ALL_LOGS_READ')
+});
 
 /**
  * Initiate Jump Action
  * Triggered when a player initiates a jump to start an encounter
  */
-export interface InitiateJumpAction extends GameAction {
-  type: 'INITIATE_JUMP';
-}
+const initiateJumpSchema = z.object({
+  type: z.literal('INITIATE_JUMP')
+});
 
 /**
  * Complete Encounter Action
  * Triggered when a player completes an encounter
  */
-export interface CompleteEncounterAction extends GameAction {
-  type: 'COMPLETE_ENCOUNTER';
-  payload?: {
-    choiceId?: string;
-  };
-}
+const completeEncounterSchema = z.object({
+  type: z.literal('COMPLETE_ENCOUNTER'),
+  payload: z.object({
+    choiceId: z.string().optional()
+  }).optional()
+});
 
 /**
  * Select Region Action
  * Triggered when a player selects a region to navigate to
  */
-export interface SelectRegionAction extends GameAction {
-  type: 'SELECT_REGION';
-  payload: {
-    region: string;
-  };
-}
+const selectRegionSchema = z.object({
+  type: z.literal('SELECT_REGION'),
+  payload: z.object({
+    region: regionSchema
+  })
+});
 
 /**
  * Make Story Choice Action
  * Triggered when a player makes a story choice
  */
-export interface MakeStoryChoiceAction extends GameAction {
-  type: 'MAKE_STORY_CHOICE';
-  payload: {
-    choiceId: string;
-  };
-}
+const makeStoryChoiceSchema = z.object({
+  type: z.literal('MAKE_STORY_CHOICE'),
+  payload: z.object({
+    choiceId: z.string().min(1)
+  })
+});
+
+/**
+ * Combat Action
+ * Triggered when the player uses one of their combat moves
+ */
+const combatActionSchema = z.object({
+  type: z.literal('COMBAT_ACTION'),
+  payload: z.object({
+    actionId: z.string().min(1)
+  })
+});
+
+/**
+ * Retreat From Battle Action
+ * Triggered when the player flees the current battle
+ */
+const retreatFromBattleSchema = z.object({
+  type: z.literal('RETREAT_FROM_BATTLE')
+});
 
 /**
  * Enemy Action Resolve
  * Triggered internally by the UI after the enemy has finished charging
  */
-export interface EnemyActionResolveAction extends GameAction {
-  type: 'ENEMY_ACTION_RESOLVE';
-}
+const enemyActionResolveSchema = z.object({
+  type: z.literal('ENEMY_ACTION_RESOLVE')
+});
+
+/**
+ * Set Power Allocation Action
+ * Triggered when the player moves a power slider or picks a preset.
+ * Shares are rescaled to add up to 1.
+ */
+const setPowerAllocationSchema = z.object({
+  type: z.literal('SET_POWER_ALLOCATION'),
+  payload: z.union([
+    z.object({ allocation: powerAllocationSchema }),
+    z.object({ preset: z.string().min(1) })
+  ])
+});
+
+/**
+ * Save Power Preset Action
+ * Triggered when the player stores the current allocation in a preset
+ */
+const savePowerPresetSchema = z.object({
+  type: z.literal('SAVE_POWER_PRESET'),
+  payload: z.object({
+    preset: z.string().min(1)
+  })
+});
+
+/**
+ * Registry of every action the game understands, keyed by type
+ */
+export const GAME_ACTION_SCHEMAS = {
+  CLICK_RESOURCE: clickResourceSchema,
+  PURCHASE_UPGRADE: purchaseUpgradeSchema,
+  MARK_LOG_READ: markLogReadSchema,
+  MARK_ALL_LOGS_READ: markAllLogsReadSchema,
+  INITIATE_JUMP: initiateJumpSchema,
+  COMPLETE_ENCOUNTER: completeEncounterSchema,
+  SELECT_REGION: selectRegionSchema,
+  MAKE_STORY_CHOICE: makeStoryChoiceSchema,
+  COMBAT_ACTION: combatActionSchema,
+  RETREAT_FROM_BATTLE: retreatFromBattleSchema,
+  ENEMY_ACTION_RESOLVE: enemyActionResolveSchema,
+  SET_POWER_ALLOCATION: setPowerAllocationSchema,
+  SAVE_POWER_PRESET: savePowerPresetSchema
+};
+
+export type ClickResourceAction = z.infer<typeof clickResourceSchema>;
+export type PurchaseUpgradeAction = z.infer<typeof purchaseUpgradeSchema>;
+export type MarkLogReadAction = z.infer<typeof markLogReadSchema>;
+export type MarkAllLogsReadAction = z.infer<typeof markAllLogsReadSchema>;
+export type InitiateJumpAction = z.infer<typeof initiateJumpSchema>;
+export type CompleteEncounterAction = z.infer<typeof completeEncounterSchema>;
+export type SelectRegionAction = z.infer<typeof selectRegionSchema>;
+export type MakeStoryChoiceAction = z.infer<typeof makeStoryChoiceSchema>;
+export type CombatAction = z.infer<typeof combatActionSchema>;
+export type RetreatFromBattleAction = z.infer<typeof retreatFromBattleSchema>;
+export type EnemyActionResolveAction = z.infer<typeof enemyActionResolveSchema>;
+export type SetPowerAllocationAction = z.infer<typeof setPowerAllocationSchema>;
+export type SavePowerPresetAction = z.infer<typeof savePowerPresetSchema>;
+
+/**
+ * Every action type the game understands
+ */
+export type GameActionType = keyof typeof GAME_ACTION_SCHEMAS;
 
 /**
  * Union type of all possible game actions
  */
-export type GameActions = 
-  | ClickResourceAction
-  | PurchaseUpgradeAction
-  | MarkLogReadAction
-  | MarkAllLogsReadAction
-  | InitiateJumpAction
-  | CompleteEncounterAction
-  | SelectRegionAction
-  | MakeStoryChoiceAction
-  | EnemyActionResolveAction; 
\ No newline at end of file
+export type GameActions = {
+  [K in GameActionType]: z.infer<(typeof GAME_ACTION_SCHEMAS)[K]>
+}[GameActionType];
+
+/**
+ * The action shape for a single action type
+ */
+export type GameActionOf<K extends GameActionType> = Extract<GameActions, { type: K }>;
+
+/**
+ * Why a dispatched action was rejected
+ */
+export type ActionRejectionReason = 'UNKNOWN_ACTION' | 'INVALID_PAYLOAD' | 'VETOED';
+
+/**
+ * Published on the event bus when an action fails validation
+ * or is vetoed by a middleware
+ */
+export interface ActionRejection {
+  /** The action exactly as it was dispatched */
+  action: unknown;
+  reason: ActionRejectionReason;
+  /** One entry per problem, with the dotted path to the offending field */
+  issues: Array<{ path: string; message: string }>;
+}
+
+/**
+ * Check a dispatched action against the registry
+ *
+ * @returns The parsed action, or the reason it was rejected
+ */
+export function validateAction(
+  action: unknown
+): { success: true; action: GameActions } | { success: false; rejection: ActionRejection } {
+  const type = (action as GameAction | null)?.type;
+  const schema = typeof type === 'string' && Object.prototype.hasOwnProperty.call(GAME_ACTION_SCHEMAS, type)
+    ? GAME_ACTION_SCHEMAS[type as GameActionType]
+    : undefined;
+
+  if (!schema) {
+    return {
+      success: false,
+      rejection: {
+        action,
+        reason: 'UNKNOWN_ACTION',
+        issues: [{ path: 'type', message: `Unknown action type: ${String(type)}` }]
+      }
+    };
+  }
+
+  const result = schema.safeParse(action);
+  if (!result.success) {
+    return {
+      success: false,
+      rejection: {
+        action,
+        reason: 'INVALID_PAYLOAD',
+        issues: result.error.issues.map(issue => ({
+          path: issue.path.join('.'),
+          message: issue.message
+        }))
+      }
+    };
+  }
+
+  return { success: true, action: result.data as GameActions };
+}
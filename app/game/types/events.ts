@@ -12,7 +12,15 @@ export interface EventMap {
   'RETREAT_FROM_BATTLE': { state: GameState };
   'ENEMY_ACTION_RESOLVE': { state: GameState };
   'DISPATCH_ACTION': import('./actions').GameAction;
-  'stateUpdated': GameState;
+  'actionRejected': import('./actions').ActionRejection;
+  'actionApplied': { action: import('./actions').GameActions };
+  'historyChanged': { currentId: number | null };
+  'stateUpdated': { state: GameState; changedPaths: string[] };
+  'offlineProgress': import('../core/OfflineProgress').OfflineProgressReport;
+  'cloudSync': import('../core/SaveSync').SyncResult;
+  'saveStatus': import('../core/SaveSystem').SaveStatusInfo;
+  'saveRecovered': import('../core/SaveSystem').SaveRecovery;
+  'tabOwnership': { isOwner: boolean };
 }
 
 export type EventName = keyof EventMap; 
\ No newline at end of file
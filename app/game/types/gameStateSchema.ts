@@ -0,0 +1,174 @@
+/**
+ * GameState Schema
+ *
+ * A zod mirror of the GameState interface, used to check state that
+ * comes from outside the running game (imported saves) before it is
+ * allowed anywhere near a save slot.
+ *
+ * The schema is typed against GameState, so a field added to the
+ * interface but not here fails to compile.
+ */
+
+import { z } from 'zod';
+import { GameState } from './index';
+import { powerAllocationSchema, regionSchema } from './actions';
+
+const discoveredLogSchema = z.object({
+  id: z.string(),
+  timestamp: z.number(),
+  isRead: z.boolean()
+});
+
+// Encounters carry type-specific fields (choices, enemy, ...), which are kept as they are
+const encounterSchema = z.object({
+  id: z.string(),
+  type: z.enum(['combat', 'story', 'empty']),
+  title: z.string(),
+  description: z.string(),
+  region: regionSchema
+}).passthrough();
+
+const encounterHistorySchema = z.object({
+  type: z.enum(['combat', 'story', 'empty']),
+  id: z.string(),
+  result: z.string(),
+  date: z.number(),
+  region: regionSchema
+});
+
+const countsSchema = z.record(z.number());
+
+const encounterSummarySchema = z.object({
+  count: z.number().int().nonnegative(),
+  byType: countsSchema,
+  byRegion: countsSchema,
+  byResult: countsSchema,
+  firstDate: z.number().nullable(),
+  lastDate: z.number().nullable()
+});
+
+const combatantStatsSchema = z.object({
+  health: z.number(),
+  maxHealth: z.number(),
+  shield: z.number(),
+  maxShield: z.number(),
+  statusEffects: z.array(z.any())
+});
+
+const combatStateSchema = z.object({
+  active: z.boolean(),
+  currentEnemy: z.string().nullable(),
+  currentRegion: z.string().nullable(),
+  turn: z.number(),
+  encounterCompleted: z.boolean(),
+  outcome: z.enum(['victory', 'defeat', 'retreat']).optional(),
+  playerStats: combatantStatsSchema,
+  enemyStats: combatantStatsSchema,
+  battleLog: z.array(z.object({
+    id: z.string(),
+    text: z.string(),
+    type: z.enum(['SYSTEM', 'PLAYER', 'ENEMY', 'ANALYSIS']),
+    timestamp: z.number()
+  })),
+  availableActions: z.array(z.string()),
+  cooldowns: z.record(z.number()),
+  lastActionResult: z.any(),
+  lastEnemyActionId: z.string().nullable(),
+  rewards: z.object({
+    energy: z.number(),
+    insight: z.number(),
+    crew: z.number(),
+    scrap: z.number()
+  }).optional(),
+  enemyIntentions: z.object({ actionId: z.string() }).passthrough().nullable()
+});
+
+// Category fields are numbers; extra ones (resources added in content) are kept
+const numbers = <T extends z.ZodRawShape>(shape: T) => z.object(shape).catchall(z.number());
+
+export const gameStateSchema: z.ZodType<GameState, z.ZodTypeDef, unknown> = z.object({
+  categories: z.object({
+    reactor: z.object({
+      resources: numbers({ energy: z.number() }),
+      upgrades: numbers({
+        reactorExpansions: z.number(),
+        energyConverters: z.number()
+      }),
+      stats: numbers({
+        energyCapacity: z.number(),
+        energyPerSecond: z.number(),
+        energyUpkeep: z.number(),
+        powerSupply: z.number()
+      })
+    }),
+    processor: z.object({
+      resources: numbers({ insight: z.number() }),
+      upgrades: numbers({
+        mainframeExpansions: z.number(),
+        processingThreads: z.number()
+      }),
+      stats: numbers({
+        insightCapacity: z.number(),
+        insightPerSecond: z.number(),
+        insightPerClick: z.number()
+      })
+    }),
+    crewQuarters: z.object({
+      resources: numbers({ crew: z.number() }),
+      upgrades: numbers({
+        additionalQuarters: z.number(),
+        workerCrews: z.number()
+      }),
+      stats: numbers({
+        crewCapacity: z.number(),
+        crewPerSecond: z.number(),
+        awakeningProgress: z.number()
+      })
+    }),
+    manufacturing: z.object({
+      resources: numbers({ scrap: z.number() }),
+      upgrades: numbers({
+        cargoHoldExpansions: z.number(),
+        manufacturingBays: z.number()
+      }),
+      stats: numbers({
+        scrapCapacity: z.number(),
+        scrapPerSecond: z.number()
+      })
+    })
+  }),
+  power: z.object({
+    allocation: powerAllocationSchema,
+    activePreset: z.string().nullable(),
+    presets: z.record(powerAllocationSchema)
+  }),
+  modifiers: z.array(z.object({
+    source: z.string(),
+    label: z.string(),
+    stat: z.string(),
+    type: z.enum(['flat', 'percent', 'multiplier']),
+    value: z.number(),
+    expiresAt: z.number().optional()
+  })),
+  lastUpdate: z.number(),
+  version: z.number(),
+  logs: z.object({
+    discovered: z.record(discoveredLogSchema),
+    unread: z.array(z.string())
+  }),
+  navigation: z.object({
+    currentRegion: regionSchema,
+    completedRegions: z.array(regionSchema)
+  }),
+  encounters: z.object({
+    active: z.boolean(),
+    encounter: encounterSchema.optional(),
+    history: z.array(encounterHistorySchema),
+    archive: encounterSummarySchema
+  }),
+  combat: combatStateSchema,
+  rng: z.object({
+    seed: z.number().int(),
+    cursor: z.number().int().nonnegative()
+  })
+});
@@ -2,6 +2,8 @@
  * Core game state type definitions
  */
 
+import type { ResourceDefinitions } from '../content/resources';
+
 /**
  * Region Types
  */
@@ -20,13 +22,21 @@ export enum LogCategory {
 
 /**
  * Log Entry interface
+ * A discovered log together with its text from LOG_DEFINITIONS
  */
-export interface LogEntry {
-    id: string;
+export interface LogEntry extends DiscoveredLog {
     title: string;
     content: string;
-    timestamp: number; // When it was discovered
     category: LogCategory;
+}
+
+/**
+ * A discovered log as kept in the game state
+ * The text is looked up in LOG_DEFINITIONS rather than copied into saves
+ */
+export interface DiscoveredLog {
+    id: string;
+    timestamp: number; // When it was discovered
     isRead: boolean;
 }
 
@@ -67,20 +77,54 @@ export interface LogDefinition {
     unlockConditions: LogUnlockCondition[];
 }
 
+/**
+ * Resource Definition interface
+ * Everything the systems and pages need to know about one resource
+ * (see app/game/content/resources.ts)
+ */
+export interface ResourceDefinition {
+    id: string;
+    name: string;                              // Display name
+    icon: string;                              // lucide-react icon name
+    color: string;                             // Theme colour variable, e.g. 'chart-1'
+    category: keyof GameState['categories'];   // Category that stores the amount
+    capacityStat: string;                      // Stat of that category holding the capacity
+    rateStat: string;                          // Stat of that category holding the production rate
+    production: 'rate' | 'custom';             // 'custom' resources are produced by their own system logic
+    wholeUnits?: boolean;                      // Only ever gained in whole units (crew)
+    decimals: number;                          // Decimal places shown for fractional amounts
+}
+
+type ResourceId = keyof ResourceDefinitions;
+
+/**
+ * Amount of every resource a category stores, from RESOURCE_DEFINITIONS
+ */
+type ResourceAmounts<Category extends string> = {
+    [Id in ResourceId as ResourceDefinitions[Id]['category'] extends Category ? Id : never]: number;
+};
+
+/**
+ * Capacity and production rate of every resource a category stores, from RESOURCE_DEFINITIONS
+ */
+type ResourceStats<Category extends string> = {
+    [Id in ResourceId as ResourceDefinitions[Id]['category'] extends Category
+        ? ResourceDefinitions[Id]['capacityStat'] | ResourceDefinitions[Id]['rateStat']
+        : never]: number;
+};
+
 /**
  * Reactor Category - Energy generation and storage
  */
 export interface ReactorCategory {
-    resources: {
-        energy: number;
-    };
+    resources: ResourceAmounts<'reactor'>;
     upgrades: {
         reactorExpansions: number;  // Increases energy capacity
         energyConverters: number;   // Automatic energy generation
     };
-    stats: {
-        energyCapacity: number;
-        energyPerSecond: number;    // Auto-generation rate
+    stats: ResourceStats<'reactor'> & {
+        energyUpkeep: number;       // Energy drawn per second by automated systems
+        powerSupply: number;        // Share of the upkeep the reactor covered (0-1)
     };
 }
 
@@ -88,16 +132,12 @@ export interface ReactorCategory {
  * Processor Category - Insight generation and computation
  */
 export interface ProcessorCategory {
-    resources: {
-        insight: number;
-    };
+    resources: ResourceAmounts<'processor'>;
     upgrades: {
         mainframeExpansions: number;  // Increases insight capacity
         processingThreads: number;    // Automatic insight generation
     };
-    stats: {
-        insightCapacity: number;
-        insightPerSecond: number;     // Auto-generation rate
+    stats: ResourceStats<'processor'> & {
         insightPerClick: number;      // Currently fixed at 0.5
     };
 }
@@ -106,16 +146,12 @@ export interface ProcessorCategory {
  * Crew Quarters Category - Crew management
  */
 export interface CrewQuartersCategory {
-    resources: {
-        crew: number;
-    };
+    resources: ResourceAmounts<'crewQuarters'>;
     upgrades: {
         additionalQuarters: number;  // Increases crew capacity
         workerCrews: number;         // Automatic crew awakening
     };
-    stats: {
-        crewCapacity: number;
-        crewPerSecond: number;       // Auto-awakening rate
+    stats: ResourceStats<'crewQuarters'> & {
         awakeningProgress: number;   // Tracks 0-10 clicks for manual awakening
     };
 }
@@ -124,19 +160,71 @@ export interface CrewQuartersCategory {
  * Manufacturing Category - Resource gathering and production
  */
 export interface ManufacturingCategory {
-    resources: {
-        scrap: number;
-    };
+    resources: ResourceAmounts<'manufacturing'>;
     upgrades: {
         cargoHoldExpansions: number;  // Increases scrap capacity
         manufacturingBays: number;    // Automatic scrap collection
     };
-    stats: {
-        scrapCapacity: number;
-        scrapPerSecond: number;       // Auto-collection rate
-    };
+    stats: ResourceStats<'manufacturing'>;
+}
+
+/**
+ * Ship systems the reactor's output can be routed to
+ */
+export type PowerSystem = 'processor' | 'crewQuarters' | 'manufacturing' | 'shields';
+
+/**
+ * Share of the reactor's output each system receives, from 0 to 1 (shares sum to 1)
+ */
+export type PowerAllocation = Record<PowerSystem, number>;
+
+/**
+ * A named allocation the player can switch to
+ */
+export interface PowerPreset {
+    id: string;
+    name: string;
+    description: string;
+    allocation: PowerAllocation;
 }
 
+/**
+ * Power routing between ship systems
+ */
+export interface PowerState {
+    allocation: PowerAllocation;
+    activePreset: string | null;               // Preset the allocation came from, null once adjusted by hand
+    presets: Record<string, PowerAllocation>;  // Allocations the player saved over the default presets
+}
+
+/**
+ * How a modifier changes a stat
+ * - flat: adds its value
+ * - percent: adds its value as a share of the flat total (0.2 = +20%); percents add up
+ * - multiplier: multiplies by its value; multipliers compound
+ */
+export type StatModifierType = 'flat' | 'percent' | 'multiplier';
+
+/**
+ * One contribution to a derived stat
+ */
+export interface StatModifier {
+    source: string;      // Who adds it, e.g. 'upgrade:processingThreads' or 'region:nebula'
+    label: string;       // How the stat breakdown names it
+    stat: string;        // Path of the stat in GameState, e.g. 'categories.processor.stats.insightPerSecond'
+    type: StatModifierType;
+    value: number;
+    expiresAt?: number;  // Game time (ms) at which it stops applying
+}
+
+/**
+ * How large numbers are written
+ * - suffix: 1.50K, 2.34M, 7.00B
+ * - scientific: 1.50e3, 2.34e6
+ * - engineering: exponents in steps of three, 1.50e3, 23.4e6
+ */
+export type NumberNotation = 'suffix' | 'scientific' | 'engineering';
+
 /**
  * Encounter Types
  */
@@ -184,6 +272,18 @@ export interface EncounterHistory {
     region: RegionType;
 }
 
+/**
+ * Totals of the encounters too old to be kept one by one
+ */
+export interface EncounterSummary {
+    count: number;
+    byType: Partial<Record<EncounterHistory['type'], number>>;
+    byRegion: Partial<Record<RegionType, number>>;
+    byResult: Record<string, number>;
+    firstDate: number | null; // Date of the oldest summarized encounter
+    lastDate: number | null;  // Date of the newest summarized encounter
+}
+
 /**
  * Combat Related Types
  */
@@ -275,6 +375,14 @@ export interface CombatEncounter extends BaseEncounter {
   escapePenalty?: ResourceReward[];
 }
 
+/**
+ * Seeded random number generator state
+ */
+export interface RandomState {
+    seed: number;    // 32-bit seed chosen when the game was created
+    cursor: number;  // Number of values drawn so far
+}
+
 /**
  * Main game state that holds all game data
  */
@@ -288,14 +396,26 @@ export interface GameState {
         crewQuarters: CrewQuartersCategory;
         manufacturing: ManufacturingCategory;
     };
-    
+
+    /**
+     * How the reactor's output is divided between ship systems
+     */
+    power: PowerState;
+
+    /**
+     * Temporary stat modifiers (events and the like); modifiers derived
+     * from upgrades, regions or power routing are not stored
+     */
+    modifiers: StatModifier[];
+
     /**
      * Timestamp of the last update
      */
     lastUpdate: number;
     
     /**
-     * Game state version for save compatibility
+     * Schema version of the state, used to migrate older saves
+     * (see app/game/core/SaveMigrations.ts)
      */
     version: number;
 
@@ -303,7 +423,7 @@ export interface GameState {
      * Game logs for story progression
      */
     logs: {
-        discovered: Record<string, LogEntry>;
+        discovered: Record<string, DiscoveredLog>;
         unread: string[]; // IDs of unread logs
     };
 
@@ -321,13 +441,19 @@ export interface GameState {
     encounters: {
         active: boolean;
         encounter?: BaseEncounter;
-        history: EncounterHistory[];
+        history: EncounterHistory[]; // Most recent encounters, oldest first
+        archive: EncounterSummary;   // Everything older than the history
     };
 
     /**
      * Combat state
      */
     combat: CombatState;
+
+    /**
+     * Seeded random number generator state shared by all systems
+     */
+    rng: RandomState;
 }
 
 /**
@@ -346,6 +472,8 @@ export const initialGameState: GameState = {
             stats: {
                 energyCapacity: 100,
                 energyPerSecond: 0,  // Will increase with energyConverters
+                energyUpkeep: 0,
+                powerSupply: 1,
             }
         },
         processor: {
@@ -391,18 +519,37 @@ export const initialGameState: GameState = {
         }
     },
     lastUpdate: Date.now(),
-    version: 1,
+    version: 3,
     logs: {
         discovered: {},
         unread: []
     },
+    power: {
+        allocation: {
+            processor: 0.25,
+            crewQuarters: 0.25,
+            manufacturing: 0.25,
+            shields: 0.25
+        },
+        activePreset: 'balanced',
+        presets: {}
+    },
+    modifiers: [],
     navigation: {
         currentRegion: 'void',
         completedRegions: []
     },
     encounters: {
         active: false,
-        history: []
+        history: [],
+        archive: {
+            count: 0,
+            byType: {},
+            byRegion: {},
+            byResult: {},
+            firstDate: null,
+            lastDate: null
+        }
     },
     combat: {
         active: false,
@@ -436,5 +583,9 @@ export const initialGameState: GameState = {
             scrap: 0
         },
         enemyIntentions: null
+    },
+    rng: {
+        seed: 1,  // Replaced with a random seed when a new game starts
+        cursor: 0
     }
 }; 
\ No newline at end of file
@@ -0,0 +1,36 @@
+/**
+ * Checksum Utility Functions
+ *
+ * CRC-32 over text, used to notice saves that were truncated, corrupted
+ * or edited by hand. It is not a signature: anyone can recompute it.
+ */
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable;
+
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+}
+
+/**
+ * CRC-32 of a string's UTF-8 bytes, as 8 lowercase hex characters
+ */
+export function checksum(text: string): string {
+  const table = getCrcTable();
+  const bytes = new TextEncoder().encode(text);
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return ((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0');
+}
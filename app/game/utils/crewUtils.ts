@@ -32,17 +32,6 @@ export function getRandomAwakeningFlavor(): string {
   return flavors[Math.floor(Math.random() * flavors.length)];
 }
 
-/**
- * Format a crew count value for display
- * Shows integers as whole numbers, non-integers with 1 decimal place
- * 
- * @param count The crew count value to format
- * @returns Formatted string representation
- */
-export function formatCrewCount(count: number): string {
-  return Number.isInteger(count) ? count.toString() : count.toFixed(1);
-}
-
 /**
  * Calculate the maximum progress width for display in progress bar
  * Ensures progress bar doesn't exceed the container
@@ -0,0 +1,81 @@
+/**
+ * Display Settings
+ *
+ * Player preferences for how the game is shown, like the number notation.
+ * They belong to the browser rather than to a save, so they live in
+ * localStorage and never pass through actions, the journal or the save slots.
+ * Outside the browser they are only kept in memory.
+ */
+
+import { NumberNotation } from '../types';
+
+const NUMBER_NOTATION_KEY = 'settings:numberNotation';
+const NOTATIONS: NumberNotation[] = ['suffix', 'scientific', 'engineering'];
+const DEFAULT_NUMBER_NOTATION: NumberNotation = 'suffix';
+
+const isNumberNotation = (value: unknown): value is NumberNotation =>
+  (NOTATIONS as unknown[]).includes(value);
+
+const listeners = new Set<() => void>();
+let numberNotation: NumberNotation | null = null;
+
+function readStoredNotation(): NumberNotation {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(NUMBER_NOTATION_KEY) : null;
+    return isNumberNotation(stored) ? stored : DEFAULT_NUMBER_NOTATION;
+  } catch {
+    // Storage can be blocked, e.g. in private windows
+    return DEFAULT_NUMBER_NOTATION;
+  }
+}
+
+/**
+ * The notation large numbers are written in
+ */
+export function getNumberNotation(): NumberNotation {
+  if (numberNotation === null) {
+    numberNotation = readStoredNotation();
+  }
+  return numberNotation;
+}
+
+/**
+ * Remember the player's notation and tell every subscriber
+ */
+export function setNumberNotation(notation: NumberNotation): void {
+  if (notation === getNumberNotation()) return;
+
+  numberNotation = notation;
+  try {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(NUMBER_NOTATION_KEY, notation);
+    }
+  } catch {
+    // The choice still applies until the page is closed
+  }
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Listen for notation changes, including those made in other tabs
+ * @returns A function removing the listener
+ */
+export function subscribeToDisplaySettings(listener: () => void): () => void {
+  listeners.add(listener);
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== NUMBER_NOTATION_KEY) return;
+    numberNotation = readStoredNotation();
+    listener();
+  };
+  if (typeof window !== 'undefined') {
+    window.addEventListener('storage', handleStorage);
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('storage', handleStorage);
+    }
+  };
+}
@@ -8,8 +8,7 @@ import { LogContext } from '@/app/utils/logger';
  */
 export function getLogContextForAction(action: GameAction): LogContext {
   switch (action.type) {
-    case 'CLICK_RESOURCE':
-    case 'RESOURCE_CLICK': {
+    case 'CLICK_RESOURCE': {
       const cat = action.payload?.category;
       switch (cat) {
         case 'reactor':
@@ -26,6 +25,9 @@ export function getLogContextForAction(action: GameAction): LogContext {
     }
     case 'PURCHASE_UPGRADE':
       return LogContext.UPGRADE_PURCHASE;
+    case 'SET_POWER_ALLOCATION':
+    case 'SAVE_POWER_PRESET':
+      return LogContext.REACTOR_LIFECYCLE;
     case 'COMBAT_ACTION':
     case 'RETREAT_FROM_BATTLE':
       return LogContext.COMBAT_ACTION;
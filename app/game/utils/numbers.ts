@@ -0,0 +1,117 @@
+/**
+ * Number Utilities
+ *
+ * Game values stay plain numbers so saves remain JSON, which holds values
+ * up to about 1.8e308. Exponential growth can still run past that into
+ * Infinity (saved as null) or NaN, so arithmetic on values that grow
+ * without bound goes through the helpers here, which keep results finite.
+ * formatNumber is the one place numbers are turned into text for players.
+ */
+
+import { NumberNotation } from '../types';
+
+/**
+ * Largest value the game stores; anything above is held here
+ */
+export const MAX_GAME_NUMBER = Number.MAX_VALUE;
+
+/**
+ * Below this, numbers are written out in full
+ */
+const FULL_NUMBER_LIMIT = 1000;
+
+/**
+ * Significant digits shown once a number is abbreviated
+ */
+const SIGNIFICANT_DIGITS = 3;
+
+/**
+ * Suffixes for each power of a thousand; beyond the last, suffix notation
+ * falls back to scientific
+ */
+const SUFFIXES = ['', 'K', 'M', 'B', 'T', 'Qa', 'Qi', 'Sx', 'Sp', 'Oc', 'No', 'Dc'];
+
+/**
+ * Keep a value finite: NaN becomes 0 and infinities the largest game number
+ */
+export function finiteNumber(value: number): number {
+  if (Number.isNaN(value)) return 0;
+  return Math.max(-MAX_GAME_NUMBER, Math.min(MAX_GAME_NUMBER, value));
+}
+
+/**
+ * Add values without running past the largest game number
+ */
+export function addNumbers(...values: number[]): number {
+  return finiteNumber(values.reduce((sum, value) => sum + value, 0));
+}
+
+/**
+ * Multiply values without running past the largest game number
+ */
+export function multiplyNumbers(...values: number[]): number {
+  return finiteNumber(values.reduce((product, value) => product * value, 1));
+}
+
+/**
+ * Raise a base to a power without running past the largest game number
+ */
+export function powNumber(base: number, exponent: number): number {
+  return finiteNumber(Math.pow(base, exponent));
+}
+
+/**
+ * Split a positive value into a mantissa and an exponent that is a multiple
+ * of step, with the mantissa rounded to the shown significant digits
+ */
+function splitExponent(value: number, step: number): { mantissa: number; exponent: number } {
+  // log10 can land just below a whole power of ten, so check the result
+  let power = Math.floor(Math.log10(value));
+  if (Math.pow(10, power) > value) power--;
+  if (Math.pow(10, power + 1) <= value) power++;
+
+  let exponent = Math.floor(power / step) * step;
+  let mantissa = Number((value / Math.pow(10, exponent)).toPrecision(SIGNIFICANT_DIGITS));
+
+  // Rounding up can reach the next step (999.7K is 1.00M)
+  if (mantissa >= Math.pow(10, step)) {
+    exponent += step;
+    mantissa /= Math.pow(10, step);
+  }
+
+  return { mantissa, exponent };
+}
+
+/**
+ * Format a number for display
+ *
+ * Numbers below a thousand are written in full: whole ones without decimals,
+ * others with the given decimal places. Larger ones are abbreviated to three
+ * significant digits in the chosen notation.
+ *
+ * @param decimals Decimal places for small numbers that are not whole
+ */
+export function formatNumber(
+  value: number,
+  { notation = 'suffix', decimals = 0 }: { notation?: NumberNotation; decimals?: number } = {}
+): string {
+  const finite = finiteNumber(value);
+  const magnitude = Math.abs(finite);
+
+  if (magnitude < FULL_NUMBER_LIMIT) {
+    return Number.isInteger(finite) ? finite.toString() : finite.toFixed(decimals);
+  }
+
+  const sign = finite < 0 ? '-' : '';
+  const step = notation === 'scientific' ? 1 : 3;
+  const { mantissa, exponent } = splitExponent(magnitude, step);
+  const digits = mantissa.toPrecision(SIGNIFICANT_DIGITS);
+
+  if (notation === 'suffix' && exponent / 3 < SUFFIXES.length) {
+    return `${sign}${digits}${SUFFIXES[exponent / 3]}`;
+  }
+  if (notation === 'suffix') {
+    return formatNumber(value, { notation: 'scientific', decimals });
+  }
+  return `${sign}${digits}e${exponent}`;
+}
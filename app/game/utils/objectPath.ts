@@ -6,4 +6,29 @@ export function incrementAtPath(obj: any, path: string, amount: number = 1) {
   }
   const last = parts[parts.length - 1];
   ref[last] = (ref[last] || 0) + amount;
-} 
\ No newline at end of file
+} 
+
+/**
+ * Read the value at a dot-separated path
+ *
+ * @returns The value, or undefined if a part of the path is missing
+ */
+export function getAtPath(obj: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (ref, part) => (typeof ref === 'object' && ref !== null ? (ref as Record<string, unknown>)[part] : undefined),
+    obj
+  );
+}
+
+/**
+ * Write a value at a dot-separated path whose parent already exists
+ *
+ * @returns Whether the value was written
+ */
+export function setAtPath(obj: unknown, path: string, value: unknown): boolean {
+  const parts = path.split('.');
+  const parent = parts.length > 1 ? getAtPath(obj, parts.slice(0, -1).join('.')) : obj;
+  if (typeof parent !== 'object' || parent === null) return false;
+  (parent as Record<string, unknown>)[parts[parts.length - 1]] = value;
+  return true;
+}
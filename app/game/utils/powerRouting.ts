@@ -0,0 +1,84 @@
+/**
+ * Power Routing Utility Functions
+ *
+ * The reactor's output is divided between the systems in POWER_SYSTEMS.
+ * An equal share runs a system at its normal rate; more or less power
+ * speeds it up or slows it down in proportion, up to
+ * PowerRoutingConstants.MAX_OVERDRIVE. A system's energy upkeep scales
+ * the same way, so the extra speed is paid for by the reactor.
+ */
+
+import { GameState, PowerAllocation, PowerSystem } from '../types';
+import { POWER_PRESETS } from '../content/powerPresets';
+import { PowerRoutingConstants } from '../config/gameConstants';
+
+/**
+ * Every system that receives a share of the reactor's output, in display order
+ */
+export const POWER_SYSTEMS: PowerSystem[] = ['processor', 'crewQuarters', 'manufacturing', 'shields'];
+
+const isPowerSystem = (system: string): system is PowerSystem =>
+  (POWER_SYSTEMS as string[]).includes(system);
+
+/**
+ * How much faster than normal a system runs with its current share
+ * (1 with an equal share, at most PowerRoutingConstants.MAX_OVERDRIVE).
+ * Systems that are not routed, like the reactor itself, always run at 1.
+ *
+ * @param allocation Shares to use instead of the current ones (e.g. while a slider is dragged)
+ */
+export function getRoutingFactor(
+  state: GameState,
+  system: string,
+  allocation: PowerAllocation | undefined = state.power?.allocation
+): number {
+  if (!isPowerSystem(system)) return 1;
+
+  const share = allocation?.[system];
+  if (share === undefined) return 1;
+  return Math.min(PowerRoutingConstants.MAX_OVERDRIVE, share * POWER_SYSTEMS.length);
+}
+
+/**
+ * Rescale shares so they add up to 1
+ *
+ * @returns The rescaled allocation, or null if no system has any power
+ */
+export function normalizeAllocation(allocation: PowerAllocation): PowerAllocation | null {
+  const total = POWER_SYSTEMS.reduce((sum, system) => sum + Math.max(0, allocation[system] || 0), 0);
+  if (total <= 0) return null;
+
+  const normalized = {} as PowerAllocation;
+  POWER_SYSTEMS.forEach(system => {
+    normalized[system] = Math.max(0, allocation[system] || 0) / total;
+  });
+  return normalized;
+}
+
+/**
+ * Give one system a new share, taking the difference from the others in
+ * proportion to what they have (or evenly if they have nothing)
+ */
+export function setSystemShare(allocation: PowerAllocation, system: PowerSystem, share: number): PowerAllocation {
+  const target = Math.min(1, Math.max(0, share));
+  const others = POWER_SYSTEMS.filter(other => other !== system);
+  const othersTotal = others.reduce((sum, other) => sum + allocation[other], 0);
+
+  const next = { [system]: target } as PowerAllocation;
+  others.forEach(other => {
+    next[other] = othersTotal > 0
+      ? (allocation[other] / othersTotal) * (1 - target)
+      : (1 - target) / others.length;
+  });
+  return next;
+}
+
+/**
+ * The allocation of a preset, as the player last saved it
+ *
+ * @returns The allocation, or undefined for unknown presets
+ */
+export function getPresetAllocation(state: GameState, presetId: string): PowerAllocation | undefined {
+  if (!POWER_PRESETS[presetId]) return undefined;
+  return state.power?.presets?.[presetId] ?? POWER_PRESETS[presetId].allocation;
+}
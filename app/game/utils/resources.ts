@@ -0,0 +1,118 @@
+/**
+ * Resource Utility Functions
+ *
+ * Generic access to any resource in RESOURCE_DEFINITIONS, so systems
+ * and pages never need to know which category stores which resource.
+ */
+
+import { GameState, NumberNotation, ResourceDefinition } from '../types';
+import { RESOURCE_DEFINITIONS } from '../content/resources';
+import { addNumbers, finiteNumber, formatNumber } from './numbers';
+
+/**
+ * A category seen as plain numbers, the way the definitions address it
+ */
+type CategoryValues = { resources: Record<string, number>; stats: Record<string, number> };
+
+function getCategory(state: GameState, definition: ResourceDefinition): CategoryValues | undefined {
+  return state.categories?.[definition.category];
+}
+
+/**
+ * Get the definition of a resource
+ *
+ * @param id The resource ID, e.g. 'energy'
+ * @returns The definition, or undefined for unknown resources
+ */
+export function getResourceDefinition(id: string): ResourceDefinition | undefined {
+  return RESOURCE_DEFINITIONS[id];
+}
+
+/**
+ * Get every resource definition, in display order
+ */
+export function getResourceDefinitions(): ResourceDefinition[] {
+  return Object.values(RESOURCE_DEFINITIONS);
+}
+
+/**
+ * Get the amount of a resource (0 for unknown resources)
+ */
+export function getResourceAmount(state: GameState, id: string): number {
+  const definition = getResourceDefinition(id);
+  if (!definition) return 0;
+  return getCategory(state, definition)?.resources[id] ?? 0;
+}
+
+/**
+ * Get the capacity of a resource (unlimited if it has no capacity stat yet)
+ */
+export function getResourceCapacity(state: GameState, id: string): number {
+  const definition = getResourceDefinition(id);
+  if (!definition) return 0;
+  return getCategory(state, definition)?.stats[definition.capacityStat] ?? Infinity;
+}
+
+/**
+ * Get the production rate of a resource per second
+ */
+export function getResourceRate(state: GameState, id: string): number {
+  const definition = getResourceDefinition(id);
+  if (!definition) return 0;
+  return getCategory(state, definition)?.stats[definition.rateStat] ?? 0;
+}
+
+/**
+ * Set the amount of a resource
+ *
+ * @returns False if the resource is unknown
+ */
+export function setResourceAmount(state: GameState, id: string, amount: number): boolean {
+  const definition = getResourceDefinition(id);
+  const category = definition && getCategory(state, definition);
+  if (!category) return false;
+
+  category.resources[id] = finiteNumber(amount);
+  return true;
+}
+
+/**
+ * Add to a resource, rounding down for whole-unit resources
+ *
+ * @param capped Whether gains are limited to the capacity
+ * @returns The amount actually added, or null if the resource is unknown
+ */
+export function addResource(state: GameState, id: string, amount: number, capped: boolean = true): number | null {
+  const definition = getResourceDefinition(id);
+  if (!definition) return null;
+
+  const gained = definition.wholeUnits ? Math.floor(amount) : amount;
+  const current = getResourceAmount(state, id);
+  let next = addNumbers(current, gained);
+  if (capped && gained > 0) {
+    // Never takes away what is already above capacity
+    next = Math.min(next, Math.max(current, getResourceCapacity(state, id)));
+  }
+
+  setResourceAmount(state, id, next);
+  return next - current;
+}
+
+/**
+ * Amount and capacity of every resource, keyed by resource ID
+ */
+export function readResources(state: GameState): Record<string, { amount: number; capacity: number }> {
+  const resources: Record<string, { amount: number; capacity: number }> = {};
+  getResourceDefinitions().forEach(({ id }) => {
+    resources[id] = { amount: getResourceAmount(state, id), capacity: getResourceCapacity(state, id) };
+  });
+  return resources;
+}
+
+/**
+ * Format an amount of a resource for display
+ * Small amounts that are not whole use the resource's decimal places
+ */
+export function formatResourceAmount(id: string, amount: number, notation?: NumberNotation): string {
+  return formatNumber(amount, { notation, decimals: getResourceDefinition(id)?.decimals ?? 0 });
+}
@@ -0,0 +1,65 @@
+/**
+ * Energy Upkeep Utility Functions
+ *
+ * Automated upgrades declare an `energyUpkeep` per level in UPGRADE_CATALOG.
+ * These helpers add it up per system; ResourceSystem pays it every update
+ * and records how much of it the reactor covered. Routing more power to a
+ * system makes it draw more, in the same proportion as it speeds it up.
+ */
+
+import { GameState } from '../types';
+import { GameCategory } from '../types/actions';
+import { UPGRADE_CATALOG } from '../config/upgradeCatalog';
+import { getRoutingFactor } from './powerRouting';
+
+/**
+ * Energy per second a system's automated upgrades draw at their current
+ * levels and with the power routed to the system
+ */
+export function getCategoryUpkeep(state: GameState, category: GameCategory): number {
+  const upgrades = state.categories[category]?.upgrades as unknown as Record<string, number> | undefined;
+  if (!upgrades) return 0;
+
+  const upkeep = Object.entries(UPGRADE_CATALOG[category] || {}).reduce(
+    (total, [upgradeType, def]) => total + (def.energyUpkeep ?? 0) * (upgrades[upgradeType] ?? 0),
+    0
+  );
+  return upkeep * getRoutingFactor(state, category);
+}
+
+/**
+ * Energy per second drawn by every system, keyed by system
+ * Systems without upkeep are left out
+ */
+export function getUpkeepBySystem(state: GameState): Partial<Record<GameCategory, number>> {
+  const upkeep: Partial<Record<GameCategory, number>> = {};
+  (Object.keys(UPGRADE_CATALOG) as GameCategory[]).forEach(category => {
+    const amount = getCategoryUpkeep(state, category);
+    if (amount > 0) upkeep[category] = amount;
+  });
+  return upkeep;
+}
+
+/**
+ * Total energy per second drawn by every system
+ */
+export function getTotalUpkeep(state: GameState): number {
+  return Object.values(getUpkeepBySystem(state)).reduce((total, amount) => total + amount, 0);
+}
+
+/**
+ * Share of its production a system achieves given the last power supply
+ * Systems without upkeep always run at full speed
+ */
+export function getProductionFactor(state: GameState, category: GameCategory): number {
+  if (getCategoryUpkeep(state, category) <= 0) return 1;
+  return state.categories.reactor.stats.powerSupply ?? 1;
+}
+
+/**
+ * Systems slowed down by a brownout on the last update
+ */
+export function getStarvedSystems(state: GameState): GameCategory[] {
+  if ((state.categories.reactor.stats.powerSupply ?? 1) >= 1) return [];
+  return Object.keys(getUpkeepBySystem(state)) as GameCategory[];
+}
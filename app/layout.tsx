@@ -5,6 +5,11 @@ import TanstackClientProvider from '@/components/providers/tanstack-client-provi
 import { ThemeProvider } from '@/components/providers/theme-provider'
 import { SystemStatusProvider } from '@/components/providers/system-status-provider'
 import { GameProvider } from '@/app/game/hooks/useGame'
+import OfflineProgressDialog from '@/app/components/OfflineProgressDialog'
+import SyncConflictDialog from '@/app/components/SyncConflictDialog'
+import SaveRecoveryDialog from '@/app/components/SaveRecoveryDialog'
+import TabOwnershipOverlay from '@/app/components/TabOwnershipOverlay'
+import TimeTravelPanel from '@/app/components/TimeTravelPanel'
 
 const geistSans = localFont({
   src: './fonts/GeistVF.woff',
@@ -35,6 +40,11 @@ export default function RootLayout({
             <TanstackClientProvider>
               <GameProvider>
                 {children}
+                <OfflineProgressDialog />
+                <SyncConflictDialog />
+                <SaveRecoveryDialog />
+                <TabOwnershipOverlay />
+                {process.env.NODE_ENV === 'development' && <TimeTravelPanel />}
               </GameProvider>
             </TanstackClientProvider>
           </SystemStatusProvider>
@@ -4,6 +4,7 @@ import { useGame } from '@/app/game/hooks/useGame';
 import GameLoader from '@/app/components/GameLoader';
 import { useState } from 'react';
 import { LogCategory, LogEntry } from '@/app/game/types';
+import { getLogEntry } from '@/app/game/systems/LogSystem';
 import Link from 'next/link';
 import { NavBar } from "@/components/ui/navbar";
 import { BookOpen } from "lucide-react";
@@ -15,9 +16,11 @@ export default function LogsPage() {
   const [selectedLog, setSelectedLog] = useState<string | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<LogCategory | 'all'>('all');
   
-  // Get all discovered logs
+  // Get all discovered logs, with their text from the log definitions
   const logs = state?.logs?.discovered || {};
-  const logEntries = Object.values(logs);
+  const logEntries = Object.values(logs)
+    .map(getLogEntry)
+    .filter((log): log is LogEntry => log !== null);
   
   // Filter logs by category if a category is selected
   const filteredLogs = selectedCategory === 'all' 
@@ -28,7 +31,8 @@ export default function LogsPage() {
   const sortedLogs = filteredLogs.sort((a, b) => b.timestamp - a.timestamp);
   
   // Get the selected log
-  const currentLog = selectedLog ? logs[selectedLog] : (sortedLogs.length > 0 ? sortedLogs[0] : null);
+  const currentLog = (selectedLog && logEntries.find(log => log.id === selectedLog))
+    || (sortedLogs.length > 0 ? sortedLogs[0] : null);
   
   // Handle clicking on a log
   const handleLogClick = (logId: string) => {
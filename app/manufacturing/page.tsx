@@ -5,12 +5,18 @@ import { Package, Cog, Warehouse, Factory, Shield } from "lucide-react"
 import { Progress } from "@/components/ui/progress"
 import { useSystemStatus } from "@/components/providers/system-status-provider"
 import { useGame } from "@/app/game/hooks/useGame"
+import { useNumberFormat } from "@/app/game/hooks/useNumberFormat"
 import Logger, { LogCategory, LogContext } from "@/app/utils/logger"
 import GameLoader from '@/app/components/GameLoader'
+import BrownoutNotice from '@/app/components/BrownoutNotice'
+import StatBreakdownTooltip from '@/app/components/StatBreakdownTooltip'
+import { getProductionFactor } from '@/app/game/utils/upkeep'
+import { ManufacturingConstants } from '@/app/game/config/gameConstants'
 
 export default function ManufacturingPage() {
   const { state, dispatch } = useGame()
   const { shouldFlicker } = useSystemStatus()
+  const format = useNumberFormat()
   
   // Get manufacturing data from game state
   const manufacturing = state.categories.manufacturing
@@ -97,12 +103,19 @@ export default function ManufacturingPage() {
                   <Package className="h-5 w-5 text-chart-4 mr-2" />
                   <span className="terminal-text">Scrap</span>
                 </div>
-                <span className="font-mono">{Math.floor(scrap)} / {Math.floor(scrapCapacity)}</span>
+                <StatBreakdownTooltip stat="categories.manufacturing.stats.scrapCapacity">
+                  <span className="font-mono">{format(Math.floor(scrap))} / {format(Math.floor(scrapCapacity))}</span>
+                </StatBreakdownTooltip>
               </div>
               <Progress value={(scrap / scrapCapacity) * 100} className="h-2 bg-muted" indicatorClassName="bg-chart-4" />
               <div className="text-xs text-muted-foreground mt-1">
-                {scrapPerSecond > 0 && <span>+{scrapPerSecond} per second</span>}
+                {scrapPerSecond > 0 && (
+                  <StatBreakdownTooltip stat="categories.manufacturing.stats.scrapPerSecond">
+                    <span>+{format(scrapPerSecond * getProductionFactor(state, 'manufacturing'), 1)} per second</span>
+                  </StatBreakdownTooltip>
+                )}
               </div>
+              <BrownoutNotice category="manufacturing" />
             </div>
             
             {/* Manual button */}
@@ -134,10 +147,10 @@ export default function ManufacturingPage() {
                     <Warehouse className="h-5 w-5 text-chart-4 mr-2" />
                     <span>Cargo Hold Expansion</span>
                   </div>
-                  <span className="font-mono text-xs">{expansionCost} Scrap</span>
+                  <span className="font-mono text-xs">{format(expansionCost)} Scrap</span>
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  Expand cargo storage capacity to {Math.floor(scrapCapacity * 1.5)}
+                  Expand cargo storage capacity to {format(Math.floor(scrapCapacity * 1.5))}
                 </p>
                 <div className="mt-2 text-xs">
                   Level: {manufacturing.upgrades.cargoHoldExpansions}
@@ -154,10 +167,10 @@ export default function ManufacturingPage() {
                     <Factory className="h-5 w-5 text-chart-4 mr-2" />
                     <span>Manufacturing Bay</span>
                   </div>
-                  <span className="font-mono text-xs">{bayCost} Scrap</span>
+                  <span className="font-mono text-xs">{format(bayCost)} Scrap</span>
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  Automated scrap collection (+0.5 per second)
+                  Automated scrap collection (+0.5 per second, draws {ManufacturingConstants.BAY_ENERGY_UPKEEP} energy per second)
                 </p>
                 <div className="mt-2 text-xs">
                   Level: {manufacturing.upgrades.manufacturingBays}
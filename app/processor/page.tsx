@@ -5,12 +5,18 @@ import { CpuIcon, Brain, ArrowUpCircle, CircuitBoard } from "lucide-react"
 import { Progress } from "@/components/ui/progress"
 import { useSystemStatus } from "@/components/providers/system-status-provider"
 import { useGame } from "@/app/game/hooks/useGame"
+import { useNumberFormat } from "@/app/game/hooks/useNumberFormat"
 import Logger, { LogCategory, LogContext } from "@/app/utils/logger"
 import GameLoader from '@/app/components/GameLoader'
+import BrownoutNotice from '@/app/components/BrownoutNotice'
+import StatBreakdownTooltip from '@/app/components/StatBreakdownTooltip'
+import { getProductionFactor } from '@/app/game/utils/upkeep'
+import { ProcessorConstants } from '@/app/game/config/gameConstants'
 
 export default function ProcessorPage() {
   const { state, dispatch } = useGame()
   const { shouldFlicker } = useSystemStatus()
+  const format = useNumberFormat()
   
   // Get processor data from game state
   const processor = state.categories.processor
@@ -97,12 +103,19 @@ export default function ProcessorPage() {
                   <Brain className="h-5 w-5 text-chart-2 mr-2" />
                   <span className="terminal-text">Insight</span>
                 </div>
-                <span className="font-mono">{Math.floor(insight)} / {Math.floor(insightCapacity)}</span>
+                <StatBreakdownTooltip stat="categories.processor.stats.insightCapacity">
+                  <span className="font-mono">{format(Math.floor(insight))} / {format(Math.floor(insightCapacity))}</span>
+                </StatBreakdownTooltip>
               </div>
               <Progress value={(insight / insightCapacity) * 100} className="h-2 bg-muted" indicatorClassName="bg-chart-2" />
               <div className="text-xs text-muted-foreground mt-1">
-                {insightPerSecond > 0 && <span>+{insightPerSecond.toFixed(1)} per second</span>}
+                {insightPerSecond > 0 && (
+                  <StatBreakdownTooltip stat="categories.processor.stats.insightPerSecond">
+                    <span>+{format(insightPerSecond * getProductionFactor(state, 'processor'), 1)} per second</span>
+                  </StatBreakdownTooltip>
+                )}
               </div>
+              <BrownoutNotice category="processor" />
             </div>
             
             {/* Manual button */}
@@ -129,10 +142,10 @@ export default function ProcessorPage() {
                     <ArrowUpCircle className="h-5 w-5 text-chart-2 mr-2" />
                     <span>Mainframe Expansion</span>
                   </div>
-                  <span className="font-mono text-xs">{expansionCost} Insight</span>
+                  <span className="font-mono text-xs">{format(expansionCost)} Insight</span>
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  Expand insight storage capacity to {Math.floor(insightCapacity * 1.5)}
+                  Expand insight storage capacity to {format(Math.floor(insightCapacity * 1.5))}
                 </p>
                 <div className="mt-2 text-xs">
                   Level: {processor.upgrades.mainframeExpansions}
@@ -147,10 +160,10 @@ export default function ProcessorPage() {
                     <CircuitBoard className="h-5 w-5 text-chart-2 mr-2" />
                     <span>Processing Thread</span>
                   </div>
-                  <span className="font-mono text-xs">{threadCost} Insight</span>
+                  <span className="font-mono text-xs">{format(threadCost)} Insight</span>
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  Add +0.2 automatic insight generation per second
+                  Add +0.2 automatic insight generation per second (draws {ProcessorConstants.THREAD_ENERGY_UPKEEP} energy per second)
                 </p>
                 <div className="mt-2 text-xs">
                   Level: {processor.upgrades.processingThreads}
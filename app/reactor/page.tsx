@@ -1,21 +1,36 @@
 "use client"
 
 import { NavBar } from "@/components/ui/navbar"
-import { Battery, Zap, ArrowUpCircle } from "lucide-react"
+import { Battery, Zap, ArrowUpCircle, AlertTriangle } from "lucide-react"
 import { Progress } from "@/components/ui/progress"
 import { useSystemStatus } from "@/components/providers/system-status-provider"
 import { useGame } from "@/app/game/hooks/useGame"
+import { useNumberFormat } from "@/app/game/hooks/useNumberFormat"
 import Logger, { LogCategory, LogContext } from "@/app/utils/logger"
 import GameLoader from '@/app/components/GameLoader'
+import PowerRoutingPanel from '@/app/components/PowerRoutingPanel'
+import StatBreakdownTooltip from '@/app/components/StatBreakdownTooltip'
+import { GameCategory } from "@/app/game/types/actions"
+import { getStarvedSystems, getUpkeepBySystem } from "@/app/game/utils/upkeep"
+
+const SYSTEM_NAMES: Record<GameCategory, string> = {
+  reactor: "Reactor",
+  processor: "Processor",
+  crewQuarters: "Crew Quarters",
+  manufacturing: "Manufacturing"
+}
 
 export default function ReactorPage() {
   const { state, dispatch } = useGame()
   const { shouldFlicker } = useSystemStatus()
+  const format = useNumberFormat()
   
   // Get reactor data from game state
   const reactor = state.categories.reactor
   const { energy } = reactor.resources
-  const { energyCapacity, energyPerSecond } = reactor.stats
+  const { energyCapacity, energyPerSecond, energyUpkeep, powerSupply } = reactor.stats
+  const upkeepBySystem = Object.entries(getUpkeepBySystem(state)) as [GameCategory, number][]
+  const starvedSystems = getStarvedSystems(state)
   
   // Log component render
   Logger.debug(
@@ -90,13 +105,49 @@ export default function ReactorPage() {
                   <Battery className="h-5 w-5 text-chart-1 mr-2" />
                   <span className="terminal-text">Energy</span>
                 </div>
-                <span className="font-mono">{Math.floor(energy)} / {Math.floor(energyCapacity)}</span>
+                <StatBreakdownTooltip stat="categories.reactor.stats.energyCapacity">
+                  <span className="font-mono">{format(Math.floor(energy))} / {format(Math.floor(energyCapacity))}</span>
+                </StatBreakdownTooltip>
               </div>
               <Progress value={(energy / energyCapacity) * 100} className="h-2 bg-muted" indicatorClassName="bg-chart-1" />
               <div className="text-xs text-muted-foreground mt-1">
-                {energyPerSecond > 0 && <span>+{energyPerSecond} per second</span>}
+                {energyPerSecond > 0 && (
+                  <StatBreakdownTooltip stat="categories.reactor.stats.energyPerSecond">
+                    <span>+{format(energyPerSecond, 1)} per second</span>
+                  </StatBreakdownTooltip>
+                )}
+                {energyUpkeep > 0 && <span> / -{format(energyUpkeep, 2)} upkeep per second</span>}
               </div>
             </div>
+
+            <PowerRoutingPanel />
+
+            {/* Power draw of automated systems */}
+            {upkeepBySystem.length > 0 && (
+              <div className="system-panel p-4 mb-8">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="terminal-text">Power Draw</span>
+                  {starvedSystems.length > 0 ? (
+                    <span className="flex items-center gap-1 text-xs text-amber-400">
+                      <AlertTriangle className="h-3 w-3" />
+                      Brownout: {Math.floor(powerSupply * 100)}% supplied
+                    </span>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">Fully powered</span>
+                  )}
+                </div>
+                <div className="space-y-1 text-xs">
+                  {upkeepBySystem.map(([system, upkeep]) => (
+                    <div key={system} className="flex justify-between">
+                      <span className={starvedSystems.includes(system) ? "text-amber-400" : "text-muted-foreground"}>
+                        {SYSTEM_NAMES[system]}
+                      </span>
+                      <span className="font-mono">{format(upkeep, 2)} energy/s</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
             
             {/* Manual button */}
             <button 
@@ -122,10 +173,10 @@ export default function ReactorPage() {
                     <ArrowUpCircle className="h-5 w-5 text-chart-1 mr-2" />
                     <span>Reactor Expansion</span>
                   </div>
-                  <span className="font-mono text-xs">{expansionCost} Energy</span>
+                  <span className="font-mono text-xs">{format(expansionCost)} Energy</span>
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  Expand energy storage capacity to {Math.floor(energyCapacity * 1.5)}
+                  Expand energy storage capacity to {format(Math.floor(energyCapacity * 1.5))}
                 </p>
                 <div className="mt-2 text-xs">
                   Level: {reactor.upgrades.reactorExpansions}
@@ -140,7 +191,7 @@ export default function ReactorPage() {
                     <Zap className="h-5 w-5 text-chart-1 mr-2" />
                     <span>Energy Converter</span>
                   </div>
-                  <span className="font-mono text-xs">{converterCost} Energy</span>
+                  <span className="font-mono text-xs">{format(converterCost)} Energy</span>
                 </div>
                 <p className="text-xs text-muted-foreground">
                   Add +1 automatic energy generation per second
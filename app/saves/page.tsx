@@ -0,0 +1,380 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { NavBar } from "@/components/ui/navbar"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { ArchiveRestore, ClipboardCopy, Cloud, Copy, Download, History, Pencil, Play, Plus, Save, Trash2, Upload } from "lucide-react"
+import { useSystemStatus } from "@/components/providers/system-status-provider"
+import { useGame } from "@/app/game/hooks/useGame"
+import { SaveBackupInfo, SaveSlotInfo } from "@/app/game/core/SaveSystem"
+import { formatBytes } from "@/app/game/core/SaveBudget"
+import GameLoader from '@/app/components/GameLoader'
+
+/**
+ * Format a play time in seconds as "1h 05m" / "12m 30s"
+ */
+function formatPlayTime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  if (hours > 0) {
+    return `${hours}h ${minutes.toString().padStart(2, '0')}m`
+  }
+  return `${minutes}m ${Math.floor(seconds % 60).toString().padStart(2, '0')}s`
+}
+
+/**
+ * Offer text as a file download
+ */
+function downloadText(filename: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export default function SavesPage() {
+  const { engine } = useGame()
+  const { shouldFlicker } = useSystemStatus()
+  const [slots, setSlots] = useState<SaveSlotInfo[]>([])
+  const [busy, setBusy] = useState(false)
+  const [newName, setNewName] = useState('')
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState('')
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null)
+  const [importText, setImportText] = useState('')
+  const [transferMessage, setTransferMessage] = useState<{ error: boolean; text: string } | null>(null)
+  const [syncMessage, setSyncMessage] = useState<string | null>(null)
+  const [backupsFor, setBackupsFor] = useState<string | null>(null)
+  const [backups, setBackups] = useState<SaveBackupInfo[]>([])
+
+  const refresh = useCallback(async () => {
+    setSlots(await engine.listSaves())
+  }, [engine])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  // Run a slot operation, then reload the list; failures are shown to the player
+  const run = async (operation: () => Promise<unknown>) => {
+    setBusy(true)
+    try {
+      await operation()
+      await refresh()
+    } catch (error) {
+      setTransferMessage({ error: true, text: error instanceof Error ? error.message : String(error) })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const createSlot = () => run(async () => {
+    await engine.newGame(newName.trim() || `Save ${slots.length + 1}`)
+    setNewName('')
+  })
+
+  const finishRename = (saveId: string) => run(async () => {
+    if (renameValue.trim()) {
+      await engine.renameSave(saveId, renameValue.trim())
+    }
+    setRenamingId(null)
+  })
+
+  const deleteSlot = (saveId: string) => run(async () => {
+    await engine.deleteSave(saveId)
+    setConfirmDeleteId(null)
+  })
+
+  const exportSlot = (slot: SaveSlotInfo, target: 'file' | 'clipboard') => run(async () => {
+    const text = await engine.exportSave(slot.id)
+    if (!text) {
+      setTransferMessage({ error: true, text: `Could not export "${slot.name}".` })
+      return
+    }
+    if (target === 'file') {
+      downloadText(`derelict-dawn-${slot.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}.txt`, text)
+    } else {
+      await navigator.clipboard.writeText(text)
+      setTransferMessage({ error: false, text: `Export of "${slot.name}" copied to clipboard.` })
+    }
+  })
+
+  const importSlot = (text: string) => run(async () => {
+    const result = await engine.importSave(text)
+    if (result.success) {
+      setImportText('')
+      setTransferMessage({ error: false, text: 'Save imported into a new memory bank.' })
+    } else {
+      setTransferMessage({ error: true, text: result.error })
+    }
+  })
+
+  const syncNow = () => run(async () => {
+    const result = await engine.syncSaves()
+    if (!result) return
+    if (!result.online) {
+      setSyncMessage('Cloud unreachable. Progress is still saved on this device.')
+      return
+    }
+    const parts = [
+      `${result.uploaded.length} uploaded`,
+      `${result.downloaded.length} downloaded`,
+      `${result.deleted.length} removed`
+    ]
+    if (result.conflicts.length > 0) parts.push(`${result.conflicts.length} need a decision`)
+    if (result.failed.length > 0) parts.push(`${result.failed.length} will be retried`)
+    setSyncMessage(`Sync complete: ${parts.join(', ')}.`)
+  })
+
+  const toggleBackups = (saveId: string) => run(async () => {
+    if (backupsFor === saveId) {
+      setBackupsFor(null)
+      return
+    }
+    setBackups(await engine.listBackups(saveId))
+    setBackupsFor(saveId)
+  })
+
+  const restoreBackup = (backup: SaveBackupInfo) => run(async () => {
+    await engine.restoreBackup(backup.saveId, backup.timestamp)
+    setBackupsFor(null)
+  })
+
+  const importFile = async (file: File | undefined) => {
+    if (file) {
+      importSlot(await file.text())
+    }
+  }
+
+  return (
+    <GameLoader>
+      <main className="flex min-h-screen flex-col">
+        <NavBar />
+
+        <div className="flex flex-col p-4 md:p-8 md:ml-64">
+          <div className="system-panel p-6 mb-6">
+            <h1 className={`text-2xl font-bold text-primary mb-4 ${shouldFlicker('saves') ? 'flickering-text' : ''}`}>Save Manager</h1>
+            <p className="text-muted-foreground mb-6">
+              Memory banks holding separate timelines of the Dawn. Loading a bank stores the current one first.
+            </p>
+
+            <div className="flex gap-2">
+              <Input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder={`Save ${slots.length + 1}`}
+                className="max-w-xs"
+              />
+              <Button onClick={createSlot} disabled={busy}>
+                <Plus /> New Game
+              </Button>
+            </div>
+          </div>
+
+          <div className="system-panel p-6 mb-6">
+            <h2 className="text-lg font-bold text-primary mb-2">Import</h2>
+            <p className="text-xs text-muted-foreground mb-4">
+              Paste an exported save or choose a file. It is checked before a new memory bank is created.
+            </p>
+            <Textarea
+              value={importText}
+              onChange={(e) => setImportText(e.target.value)}
+              placeholder="DERELICT-DAWN-SAVE:..."
+              className="font-mono text-xs mb-3"
+              rows={3}
+            />
+            <div className="flex gap-2">
+              <Button variant="outline" disabled={busy || !importText.trim()} onClick={() => importSlot(importText)}>
+                <Upload /> Import text
+              </Button>
+              <Button variant="outline" disabled={busy} asChild>
+                <label className="cursor-pointer">
+                  <Upload /> Import file
+                  <input
+                    type="file"
+                    accept=".txt,text/plain"
+                    className="hidden"
+                    onChange={(e) => {
+                      importFile(e.target.files?.[0])
+                      e.target.value = ''
+                    }}
+                  />
+                </label>
+              </Button>
+            </div>
+            {transferMessage && (
+              <p className={`text-sm mt-3 ${transferMessage.error ? 'text-red-400' : 'text-primary'}`}>
+                {transferMessage.text}
+              </p>
+            )}
+          </div>
+
+          {engine.hasCloudStorage() && (
+            <div className="system-panel p-6 mb-6">
+              <h2 className="text-lg font-bold text-primary mb-2">Cloud Sync</h2>
+              <p className="text-xs text-muted-foreground mb-4">
+                Banks changed on only one side are copied automatically. If both changed, you choose which to keep.
+              </p>
+              <Button variant="outline" disabled={busy} onClick={syncNow}>
+                <Cloud /> Sync now
+              </Button>
+              {syncMessage && <p className="text-sm mt-3 text-primary">{syncMessage}</p>}
+            </div>
+          )}
+
+          <div className="space-y-3">
+            {slots.length === 0 && (
+              <div className="system-panel p-6">
+                <p className="text-primary">No memory banks found. Progress will be stored automatically.</p>
+              </div>
+            )}
+
+            {slots.map(slot => (
+              <div
+                key={slot.id}
+                className={`system-panel p-4 ${slot.isCurrent ? 'border border-primary/40' : ''}`}
+              >
+                <div className="flex flex-col md:flex-row md:items-center gap-4">
+                  <div className="flex-1 min-w-0">
+                    {renamingId === slot.id ? (
+                      <Input
+                        autoFocus
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onBlur={() => finishRename(slot.id)}
+                        onKeyDown={(e) => e.key === 'Enter' && finishRename(slot.id)}
+                        className="max-w-xs"
+                      />
+                    ) : (
+                      <div className="flex items-center gap-2 text-primary font-semibold">
+                        <Save className="h-4 w-4" />
+                        <span className="truncate">{slot.name}</span>
+                        {slot.isCurrent && <span className="text-xs text-muted-foreground">(active)</span>}
+                      </div>
+                    )}
+                    <div className="text-xs text-muted-foreground mt-1 flex flex-wrap gap-x-4">
+                      <span>Play time: {formatPlayTime(slot.playTime)}</span>
+                      <span className="capitalize">Region: {slot.region}</span>
+                      <span>Last played: {slot.lastPlayed}</span>
+                      <span
+                        className={slot.size.overBudget ? 'text-yellow-500' : undefined}
+                        title={slot.size.sections.map(section => `${section.section}: ${formatBytes(section.bytes)}`).join('\n')}
+                      >
+                        Size: {formatBytes(slot.size.totalBytes)}
+                      </span>
+                      {!slot.isCompatible && <span className="text-red-400">Requires a newer version</span>}
+                    </div>
+                  </div>
+
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={busy || slot.isCurrent || !slot.isCompatible}
+                      title={slot.isCompatible ? undefined : 'Saved by a newer version of the game'}
+                      onClick={() => run(() => engine.switchSave(slot.id))}
+                    >
+                      <Play /> Load
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={busy}
+                      title="Rename"
+                      onClick={() => {
+                        setRenamingId(slot.id)
+                        setRenameValue(slot.name)
+                      }}
+                    >
+                      <Pencil />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={busy}
+                      title="Duplicate"
+                      onClick={() => run(() => engine.duplicateSave(slot.id))}
+                    >
+                      <Copy />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={busy}
+                      title="Export to file"
+                      onClick={() => exportSlot(slot, 'file')}
+                    >
+                      <Download />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={busy}
+                      title="Copy export to clipboard"
+                      onClick={() => exportSlot(slot, 'clipboard')}
+                    >
+                      <ClipboardCopy />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={busy}
+                      title="Backups"
+                      onClick={() => toggleBackups(slot.id)}
+                    >
+                      <History />
+                    </Button>
+                    {confirmDeleteId === slot.id ? (
+                      <Button size="sm" variant="destructive" disabled={busy} onClick={() => deleteSlot(slot.id)}>
+                        Confirm
+                      </Button>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={busy || slot.isCurrent}
+                        title={slot.isCurrent ? 'Load another bank before deleting this one' : 'Delete'}
+                        onClick={() => setConfirmDeleteId(slot.id)}
+                      >
+                        <Trash2 />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {backupsFor === slot.id && (
+                  <div className="mt-3 border-t border-border pt-3 space-y-2">
+                    {backups.length === 0 && (
+                      <p className="text-xs text-muted-foreground">No backups yet. One is kept every few minutes of play.</p>
+                    )}
+                    {backups.map(backup => (
+                      <div key={backup.timestamp} className="flex items-center gap-4 text-xs">
+                        <span className="text-primary">{new Date(backup.timestamp).toLocaleString()}</span>
+                        <span className="text-muted-foreground">Play time: {formatPlayTime(backup.playTime)}</span>
+                        <span className="text-muted-foreground capitalize">Region: {backup.region}</span>
+                        {!backup.isValid && <span className="text-red-400">Damaged</span>}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="ml-auto"
+                          disabled={busy || !backup.isValid}
+                          onClick={() => restoreBackup(backup)}
+                        >
+                          <ArchiveRestore /> Restore
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </main>
+    </GameLoader>
+  )
+}
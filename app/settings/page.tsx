@@ -0,0 +1,64 @@
+"use client"
+
+import { NavBar } from "@/components/ui/navbar"
+import { useSystemStatus } from "@/components/providers/system-status-provider"
+import { useNumberNotation } from "@/app/game/hooks/useNumberFormat"
+import { NumberNotation } from "@/app/game/types"
+import { formatNumber } from "@/app/game/utils/numbers"
+import GameLoader from '@/app/components/GameLoader'
+
+const NOTATIONS: { id: NumberNotation; name: string; description: string }[] = [
+  { id: 'suffix', name: 'Suffixes', description: 'Thousands, millions and beyond as K, M, B, T...' },
+  { id: 'scientific', name: 'Scientific', description: 'A digit before the point and a power of ten' },
+  { id: 'engineering', name: 'Engineering', description: 'Powers of ten in steps of three' }
+]
+
+// Values shown as a preview of each notation
+const EXAMPLES = [1234, 5678900, 3.2e13]
+
+export default function SettingsPage() {
+  const { shouldFlicker } = useSystemStatus()
+  const [numberNotation, setNumberNotation] = useNumberNotation()
+
+  return (
+    <GameLoader>
+      <main className="flex min-h-screen flex-col">
+        <NavBar />
+
+        <div className="flex flex-col p-4 md:p-8 md:ml-64">
+          <div className="system-panel p-6 mb-6">
+            <h1 className={`text-2xl font-bold text-primary mb-4 ${shouldFlicker('settings') ? 'flickering-text' : ''}`}>Settings</h1>
+            <p className="text-muted-foreground mb-6">
+              Console preferences. They are kept on this device and apply to every memory bank.
+            </p>
+
+            <h2 className="text-lg font-semibold terminal-text mb-2">Number Notation</h2>
+            <p className="text-xs text-muted-foreground mb-4">
+              How numbers of a thousand and above are written. Smaller numbers are always shown in full.
+            </p>
+
+            <div className="space-y-2">
+              {NOTATIONS.map(notation => (
+                <button
+                  key={notation.id}
+                  onClick={() => setNumberNotation(notation.id)}
+                  className={`system-panel w-full p-4 text-left hover:bg-accent/10 transition-colors ${
+                    numberNotation === notation.id ? 'border-primary text-primary' : ''
+                  }`}
+                >
+                  <div className="flex items-center justify-between mb-1">
+                    <span>{notation.name}</span>
+                    <span className="font-mono text-xs">
+                      {EXAMPLES.map(value => formatNumber(value, { notation: notation.id })).join(' / ')}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">{notation.description}</p>
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </main>
+    </GameLoader>
+  )
+}
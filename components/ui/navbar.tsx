@@ -2,9 +2,13 @@
 
 import Link from "next/link"
 import { usePathname } from "next/navigation"
-import { Zap, CpuIcon, Users, Package, BookOpen, Settings, Rocket } from "lucide-react"
+import { Zap, CpuIcon, Users, Package, BookOpen, Settings, Rocket, Save } from "lucide-react"
 import { useSystemStatus } from "@/components/providers/system-status-provider"
 import { useGame } from "@/app/game/hooks/useGame"
+import { useNumberNotation } from "@/app/game/hooks/useNumberFormat"
+import SaveStatusIndicator from "@/app/components/SaveStatusIndicator"
+import ResourceIcon from "@/app/components/ResourceIcon"
+import { formatResourceAmount, getResourceAmount, getResourceDefinitions } from "@/app/game/utils/resources"
 
 const navigation = [
   { name: "Reactor", href: "/reactor", icon: Zap },
@@ -13,12 +17,15 @@ const navigation = [
   { name: "Manufacturing", href: "/manufacturing", icon: Package },
   { name: "Navigation", href: "/navigation", icon: Rocket },
   { name: "Logs", href: "/logs", icon: BookOpen },
+  { name: "Saves", href: "/saves", icon: Save },
+  { name: "Settings", href: "/settings", icon: Settings },
 ]
 
 export function NavBar() {
   const pathname = usePathname()
   const { status, statusText, shouldFlicker } = useSystemStatus()
   const { state } = useGame()
+  const [numberNotation] = useNumberNotation()
   
   // Check if there's an active combat - if so, don't render the navbar
   const isInCombat = state?.combat?.active === true
@@ -36,11 +43,6 @@ export function NavBar() {
   // Count unread logs
   const unreadLogsCount = state?.logs?.unread?.length || 0
 
-  // Format number to show with one decimal place when needed, but as an integer when possible
-  const formatNumber = (num: number) => {
-    return num % 1 === 0 ? num.toString() : num.toFixed(1);
-  }
-
   return (
     <nav className="system-panel p-2 md:p-4 fixed bottom-0 left-0 right-0 md:left-4 md:top-4 md:bottom-4 md:w-64 flex md:flex-col gap-1 z-10">
       <div className="hidden md:flex items-center justify-center p-2 mb-6">
@@ -80,34 +82,15 @@ export function NavBar() {
       <div className="hidden md:flex flex-col mt-auto mb-4">
         <div className="text-base text-primary font-semibold mb-2">RESOURCES</div>
         <div className="flex flex-col gap-3 text-base">
-          <div className="flex items-center gap-2">
-            <Zap className="h-5 w-5 text-chart-1" />
-            <span className="text-muted-foreground">Energy:</span>
-            <span className="ml-auto text-primary">
-              {state?.categories?.reactor ? formatNumber(state.categories.reactor.resources.energy) : '0'}
-            </span>
-          </div>
-          <div className="flex items-center gap-2">
-            <CpuIcon className="h-5 w-5 text-chart-2" />
-            <span className="text-muted-foreground">Insight:</span>
-            <span className="ml-auto text-primary">
-              {state?.categories?.processor ? formatNumber(state.categories.processor.resources.insight) : '0'}
-            </span>
-          </div>
-          <div className="flex items-center gap-2">
-            <Users className="h-5 w-5 text-chart-3" />
-            <span className="text-muted-foreground">Crew:</span>
-            <span className="ml-auto text-primary">
-              {state?.categories?.crewQuarters ? formatNumber(state.categories.crewQuarters.resources.crew) : '0'}
-            </span>
-          </div>
-          <div className="flex items-center gap-2">
-            <Package className="h-5 w-5 text-chart-4" />
-            <span className="text-muted-foreground">Scrap:</span>
-            <span className="ml-auto text-primary">
-              {state?.categories?.manufacturing ? formatNumber(state.categories.manufacturing.resources.scrap) : '0'}
-            </span>
-          </div>
+          {getResourceDefinitions().map(resource => (
+            <div key={resource.id} className="flex items-center gap-2">
+              <ResourceIcon id={resource.id} />
+              <span className="text-muted-foreground">{resource.name}:</span>
+              <span className="ml-auto text-primary">
+                {state?.categories ? formatResourceAmount(resource.id, getResourceAmount(state, resource.id), numberNotation) : '0'}
+              </span>
+            </div>
+          ))}
         </div>
       </div>
       
@@ -115,6 +98,9 @@ export function NavBar() {
         <div className="text-xs text-muted-foreground w-full">
           <p className={`terminal-text ${shouldFlicker('status') ? 'flickering-text' : ''} w-full text-center`}>{statusText}</p>
         </div>
+        <div className="mt-2">
+          <SaveStatusIndicator />
+        </div>
         
         {/* Settings cog button removed as requested */}
       </div>
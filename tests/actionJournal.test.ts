@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { EventBus } from '../app/game/core/EventBus';
+import { EventMap } from '../app/game/types/events';
+import { initialGameState, GameState } from '../app/game/types';
+import { GameActions } from '../app/game/types/actions';
+import { GameSystemManager } from '../app/game/systems';
+import { ManualClock } from '../app/game/core/Clock';
+import { createRandomState } from '../app/game/core/RandomService';
+import { JournalRecorder, JournalReplayer, applyTick, replayJournal } from '../app/game/core/ActionJournal';
+
+const clone = <T>(obj: T): T => JSON.parse(JSON.stringify(obj));
+
+/**
+ * Drive a set of systems the way the engine does, recording as we go
+ */
+const recordSession = (script: Array<number | GameActions>) => {
+  const bus = new EventBus<EventMap>();
+  const clock = new ManualClock(1_000_000);
+  const systems = new GameSystemManager(bus, clock);
+  const recorder = new JournalRecorder(1000);
+
+  let state: GameState = clone(initialGameState);
+  state.rng = createRandomState(2024);
+  state.categories.reactor.resources.energy = 500;
+  state.categories.reactor.stats.energyCapacity = 1000;
+  systems.upgrade.updateAllStats(state);
+
+  bus.on('actionApplied', ({ action }) => recorder.recordAction(action));
+  recorder.begin(clone(state), clock.now());
+
+  for (const item of script) {
+    if (typeof item === 'number') {
+      for (let i = 0; i < item; i++) {
+        applyTick(systems, clock, state, 0.05);
+        recorder.recordTick(0.05);
+      }
+    } else {
+      state = systems.processAction(state, item);
+    }
+  }
+
+  return { state, journal: recorder.getJournal()! };
+};
+
+describe('Action journal', () => {
+  const script: Array<number | GameActions> = [
+    20,
+    { type: 'CLICK_RESOURCE', payload: { category: 'reactor' } },
+    { type: 'PURCHASE_UPGRADE', payload: { category: 'reactor', upgradeType: 'energyConverters' } },
+    40,
+    { type: 'INITIATE_JUMP' },
+    10,
+    { type: 'MARK_ALL_LOGS_READ' },
+    30
+  ];
+
+  it('stores consecutive ticks as a single entry', () => {
+    const { journal } = recordSession(script);
+
+    expect(journal.entries[0]).toEqual({ kind: 'ticks', delta: 0.05, count: 20 });
+    expect(journal.entries).toHaveLength(8);
+  });
+
+  it('replays a session to the exact final state', () => {
+    const { state, journal } = recordSession(script);
+
+    expect(replayJournal(clone(journal))).toEqual(state);
+  });
+
+  it('can step through a session entry by entry', () => {
+    const { journal } = recordSession(script);
+    const replayer = new JournalReplayer(journal);
+
+    replayer.runTo(2);
+    expect(replayer.getPosition()).toBe(2);
+    expect(replayer.step()).toEqual(journal.entries[2]);
+    expect(replayer.getState().categories.reactor.upgrades.energyConverters).toBe(1);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EventBus } from '../app/game/core/EventBus';
+import { EventMap } from '../app/game/types/events';
+import { initialGameState, GameState } from '../app/game/types';
+import { ActionRejection } from '../app/game/types/actions';
+import { ActionSystem } from '../app/game/systems/ActionSystem';
+import { createActionCounterMiddleware, createRateLimitMiddleware } from '../app/game/core/ActionMiddleware';
+
+const clone = <T>(obj: T): T => JSON.parse(JSON.stringify(obj));
+
+const click = { type: 'CLICK_RESOURCE', payload: { category: 'reactor' } } as const;
+
+describe('Action middleware', () => {
+  let bus: EventBus<EventMap>;
+  let actionSystem: ActionSystem;
+  let state: GameState;
+  let rejections: ActionRejection[];
+
+  beforeEach(() => {
+    bus = new EventBus<EventMap>();
+    actionSystem = new ActionSystem(bus);
+    state = clone(initialGameState);
+    rejections = [];
+    bus.on('actionRejected', rejection => rejections.push(rejection));
+  });
+
+  it('runs middleware outermost first and observes the resulting state', () => {
+    const calls: string[] = [];
+    let observedEnergy = -1;
+    actionSystem.use({
+      name: 'outer',
+      handle(action, context, next) {
+        calls.push('outer:before');
+        const result = next(action);
+        observedEnergy = result.categories.reactor.resources.energy;
+        calls.push('outer:after');
+        return result;
+      }
+    });
+    actionSystem.use({
+      name: 'inner',
+      handle(action, context, next) {
+        calls.push('inner');
+        return next(action);
+      }
+    });
+
+    actionSystem.processAction(state, click);
+
+    expect(calls).toEqual(['outer:before', 'inner', 'outer:after']);
+    expect(observedEnergy).toBe(1);
+  });
+
+  it('rejects vetoed actions with the name of the middleware', () => {
+    actionSystem.use({
+      name: 'blockAll',
+      handle: (action, context) => context.state
+    });
+
+    const next = actionSystem.processAction(state, click);
+
+    expect(next.categories.reactor.resources.energy).toBe(0);
+    expect(rejections).toHaveLength(1);
+    expect(rejections[0].reason).toBe('VETOED');
+    expect(rejections[0].issues[0].message).toContain('blockAll');
+  });
+
+  it('lets middleware transform the action', () => {
+    actionSystem.use({
+      name: 'redirect',
+      handle: (action, context, next) => next({ type: 'CLICK_RESOURCE', payload: { category: 'manufacturing' } })
+    });
+
+    const next = actionSystem.processAction(state, click);
+
+    expect(next.categories.reactor.resources.energy).toBe(0);
+    expect(next.categories.manufacturing.resources.scrap).toBe(1);
+  });
+
+  it('rate limits click spam and can be removed again', () => {
+    let now = 0;
+    const remove = actionSystem.use(createRateLimitMiddleware({
+      types: ['CLICK_RESOURCE'],
+      maxActions: 2,
+      windowMs: 1000,
+      now: () => now
+    }));
+    const counter = createActionCounterMiddleware();
+    actionSystem.use(counter);
+
+    for (let i = 0; i < 5; i++) {
+      state = actionSystem.processAction(state, click);
+    }
+    expect(counter.getCounts().CLICK_RESOURCE).toBe(2);
+
+    now = 1000;
+    state = actionSystem.processAction(state, click);
+    expect(counter.getCounts().CLICK_RESOURCE).toBe(3);
+
+    remove();
+    for (let i = 0; i < 5; i++) {
+      state = actionSystem.processAction(state, click);
+    }
+    expect(counter.getCounts().CLICK_RESOURCE).toBe(8);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EventBus } from '../app/game/core/EventBus';
+import { EventMap } from '../app/game/types/events';
+import { initialGameState, GameState } from '../app/game/types';
+import { ActionRejection, validateAction } from '../app/game/types/actions';
+import { ActionSystem } from '../app/game/systems/ActionSystem';
+
+const clone = <T>(obj: T): T => JSON.parse(JSON.stringify(obj));
+
+describe('Action registry', () => {
+  let bus: EventBus<EventMap>;
+  let actionSystem: ActionSystem;
+  let state: GameState;
+  let rejections: ActionRejection[];
+
+  beforeEach(() => {
+    bus = new EventBus<EventMap>();
+    actionSystem = new ActionSystem(bus);
+    state = clone(initialGameState);
+    rejections = [];
+    bus.on('actionRejected', rejection => rejections.push(rejection));
+  });
+
+  it('accepts registered actions', () => {
+    const result = validateAction({ type: 'CLICK_RESOURCE', payload: { category: 'reactor' } });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects unknown action types with a structured event', () => {
+    const next = actionSystem.processAction(state, { type: 'RESOURCE_CLICK', payload: { category: 'reactor' } });
+
+    expect(next).toBe(state);
+    expect(rejections).toHaveLength(1);
+    expect(rejections[0].reason).toBe('UNKNOWN_ACTION');
+  });
+
+  it('rejects payloads that do not match the schema', () => {
+    actionSystem.processAction(state, { type: 'SELECT_REGION', payload: { regionId: 'nebula' } });
+
+    expect(rejections).toHaveLength(1);
+    expect(rejections[0].reason).toBe('INVALID_PAYLOAD');
+    expect(rejections[0].issues[0].path).toBe('payload.region');
+  });
+
+  it('routes validated payloads to their handler', () => {
+    const next = actionSystem.processAction(state, { type: 'SELECT_REGION', payload: { region: 'nebula' } });
+
+    expect(rejections).toHaveLength(0);
+    expect(next.navigation.currentRegion).toBe('nebula');
+  });
+});
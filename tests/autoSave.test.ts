@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SaveStatusInfo, SaveSystem } from '../app/game/core/SaveSystem';
+import { ManualClock } from '../app/game/core/Clock';
+import { AutoSaveConstants } from '../app/game/config/gameConstants';
+import { initialGameState, GameState } from '../app/game/types';
+import { InMemoryAdapter } from '../app/game/core/storage/InMemoryAdapter';
+
+const clone = <T>(obj: T): T => JSON.parse(JSON.stringify(obj));
+
+describe('Autosave', () => {
+  let storage: InMemoryAdapter;
+  let saves: SaveSystem;
+  let state: GameState;
+  let writes: number;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    storage = new InMemoryAdapter();
+    saves = new SaveSystem(storage, new ManualClock(1_000_000));
+    state = clone(initialGameState);
+    writes = 0;
+
+    const write = storage.save.bind(storage);
+    storage.save = async (key, data) => {
+      if (key.startsWith('save:')) writes++;
+      return write(key, data);
+    };
+
+    saves.startAutoSave(() => state, 1000);
+  });
+
+  afterEach(() => {
+    saves.stopAutoSave();
+    vi.useRealTimers();
+  });
+
+  it('only writes when something other than lastUpdate changed', async () => {
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(writes).toBe(1);
+
+    state = { ...state, lastUpdate: state.lastUpdate + 1000 };
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(writes).toBe(1);
+
+    state = { ...state, categories: clone(state.categories) };
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(writes).toBe(2);
+  });
+
+  it('turns a burst of save requests into one write', async () => {
+    // Long enough that only the requests can trigger a save
+    saves.startAutoSave(() => state, 60_000);
+    await saves.save(state);
+    writes = 0;
+
+    for (let i = 0; i < 5; i++) {
+      state = { ...state, logs: clone(state.logs) };
+      saves.requestSave();
+      await vi.advanceTimersByTimeAsync(AutoSaveConstants.DEBOUNCE_MS / 2);
+    }
+    expect(writes).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(AutoSaveConstants.DEBOUNCE_MS);
+    expect(writes).toBe(1);
+  });
+
+  it('reports saving, saved and failed', async () => {
+    const statuses: SaveStatusInfo[] = [];
+    saves.onStatusChange(status => statuses.push(status));
+
+    await saves.save(state);
+    storage.save = async () => { throw new Error('quota exceeded'); };
+    await expect(saves.save(state)).rejects.toThrow('quota exceeded');
+
+    expect(statuses.map(status => status.status)).toEqual(['saving', 'saved', 'saving', 'failed']);
+    expect(statuses[3]).toMatchObject({ lastSaved: 1_000_000, error: 'Error: quota exceeded' });
+    expect(saves.getStatus().status).toBe('failed');
+  });
+});
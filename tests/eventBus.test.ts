@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventBus } from '../app/game/core/EventBus';
+
+interface TestEvents {
+  'ping': number;
+  'combat:hit': number;
+  'combat:miss': number;
+  'stateUpdated': { value: number; changedPaths: string[] };
+}
+
+describe('EventBus', () => {
+  let bus: EventBus<TestEvents>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    bus = new EventBus<TestEvents>({
+      coalesce: {
+        stateUpdated: {
+          intervalMs: 50,
+          merge: (pending, next) => ({
+            value: next.value,
+            changedPaths: [...pending.changedPaths, ...next.changedPaths]
+          })
+        }
+      },
+      historySize: 2
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('calls once listeners a single time', () => {
+    const received: number[] = [];
+    bus.once('ping', value => received.push(value));
+
+    bus.emit('ping', 1);
+    bus.emit('ping', 2);
+
+    expect(received).toEqual([1]);
+  });
+
+  it('delivers to pattern listeners by namespace', () => {
+    const received: string[] = [];
+    bus.onPattern('combat:*', (payload, event) => received.push(String(event)));
+
+    bus.emit('combat:hit', 1);
+    bus.emit('ping', 1);
+    bus.emit('combat:miss', 1);
+
+    expect(received).toEqual(['combat:hit', 'combat:miss']);
+  });
+
+  it('calls higher priority listeners first', () => {
+    const order: string[] = [];
+    bus.on('ping', () => order.push('default'));
+    bus.on('ping', () => order.push('high'), { priority: 10 });
+    bus.onPattern('*', () => order.push('low'), { priority: -1 });
+
+    bus.emit('ping', 1);
+
+    expect(order).toEqual(['high', 'default', 'low']);
+  });
+
+  it('keeps calling listeners after one throws', () => {
+    const received: number[] = [];
+    bus.on('ping', () => {
+      throw new Error('boom');
+    });
+    bus.on('ping', value => received.push(value));
+
+    expect(() => bus.emit('ping', 1)).not.toThrow();
+    expect(received).toEqual([1]);
+  });
+
+  it('coalesces rapid emits and always delivers the last one', () => {
+    const received: TestEvents['stateUpdated'][] = [];
+    bus.on('stateUpdated', payload => received.push(payload));
+
+    bus.emit('stateUpdated', { value: 1, changedPaths: ['a'] });
+    bus.emit('stateUpdated', { value: 2, changedPaths: ['b'] });
+    bus.emit('stateUpdated', { value: 3, changedPaths: ['c'] });
+    expect(received).toHaveLength(1);
+
+    vi.advanceTimersByTime(50);
+
+    expect(received).toEqual([
+      { value: 1, changedPaths: ['a'] },
+      { value: 3, changedPaths: ['b', 'c'] }
+    ]);
+  });
+
+  it('keeps a bounded history of delivered events', () => {
+    bus.emit('ping', 1);
+    bus.emit('ping', 2);
+    bus.emit('ping', 3);
+
+    expect(bus.getHistory().map(entry => entry.payload)).toEqual([2, 3]);
+  });
+});
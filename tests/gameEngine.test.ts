@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GameEngine } from '../app/game/core/GameEngine';
+import { ManualClock } from '../app/game/core/Clock';
+import { ManualScheduler } from '../app/game/core/Scheduler';
+import { createStateCache } from '../app/game/core/memoryCache';
+import { InMemoryAdapter } from '../app/game/core/storage/InMemoryAdapter';
+import { SaveSystem } from '../app/game/core/SaveSystem';
+import { BackupConstants, CloudSaveConstants } from '../app/game/config/gameConstants';
+import { initialGameState, GameState } from '../app/game/types';
+
+const clone = <T>(obj: T): T => JSON.parse(JSON.stringify(obj));
+
+describe('GameEngine (headless)', () => {
+  let clock: ManualClock;
+  let scheduler: ManualScheduler;
+  let storage: InMemoryAdapter;
+  let engines: GameEngine[];
+
+  const createEngine = (cloudStorage?: InMemoryAdapter) => {
+    const engine = new GameEngine({
+      clock,
+      scheduler,
+      storage,
+      cloudStorage,
+      stateCache: createStateCache(),
+      history: false
+    });
+    engines.push(engine);
+    return engine;
+  };
+
+  beforeEach(() => {
+    clock = new ManualClock(1_000_000);
+    scheduler = new ManualScheduler();
+    storage = new InMemoryAdapter();
+    engines = [];
+  });
+
+  afterEach(() => {
+    engines.forEach(engine => engine.stop());
+  });
+
+  it('starts fresh and runs on the injected clock and scheduler', async () => {
+    const engine = createEngine();
+    await engine.initialize();
+
+    engine.dispatch({ type: 'CLICK_RESOURCE', payload: { category: 'reactor' } });
+    expect(engine.getState().categories.reactor.resources.energy).toBe(1);
+
+    clock.advance(10_000);
+    scheduler.runFrames();
+    expect(engine.getState().lastUpdate).toBe(clock.now());
+  });
+
+  it('saves to the injected storage and loads into a new engine', async () => {
+    const first = createEngine();
+    await first.initialize();
+    first.dispatch({ type: 'CLICK_RESOURCE', payload: { category: 'reactor' } });
+    const saveId = await first.saveGame();
+    first.stop();
+
+    expect(await storage.load('currentSave')).toBe(saveId);
+
+    const second = createEngine();
+    await second.initialize();
+    expect(second.getState().categories.reactor.resources.energy).toBe(1);
+  });
+
+  it('starts new games in new slots and switches between them', async () => {
+    const engine = createEngine();
+    await engine.initialize();
+    engine.dispatch({ type: 'CLICK_RESOURCE', payload: { category: 'reactor' } });
+    const firstId = await engine.saveGame();
+
+    await engine.newGame('Fresh start');
+    expect(engine.getState().categories.reactor.resources.energy).toBe(0);
+    expect(await engine.listSaves()).toHaveLength(2);
+
+    await engine.switchSave(firstId);
+    expect(engine.getCurrentSaveId()).toBe(firstId);
+    expect(engine.getState().categories.reactor.resources.energy).toBe(1);
+  });
+
+  it('reports a damaged save it recovered on startup', async () => {
+    // Three saves, one backup interval apart, with energy 1, 2 and 3
+    const saves = new SaveSystem(storage, clock);
+    let id = '';
+    for (let energy = 1; energy <= 3; energy++) {
+      if (energy > 1) clock.advance(BackupConstants.INTERVAL_MS);
+      const state: GameState = clone(initialGameState);
+      state.categories.reactor.resources.energy = energy;
+      state.lastUpdate = clock.now();
+      id = await saves.save(state);
+    }
+
+    const damaged = await storage.load(`save:${id}`);
+    damaged.state.categories.reactor.resources.energy = 1e9;
+    await storage.save(`save:${id}`, damaged);
+
+    const engine = createEngine();
+    const recovered: unknown[] = [];
+    engine.eventBus.on('saveRecovered', recovery => recovered.push(recovery));
+    await engine.initialize();
+
+    expect(engine.getState().categories.reactor.resources.energy).toBe(3);
+    expect(engine.getSaveRecovery()?.saveId).toBe(id);
+    expect(recovered).toHaveLength(1);
+  });
+
+  it('starts a new slot instead of saving over a slot it cannot load', async () => {
+    const saves = new SaveSystem(storage, clock);
+    const state: GameState = clone(initialGameState);
+    state.categories.reactor.resources.energy = 5;
+    const id = await saves.save(state);
+
+    // A save from a newer version of the game
+    const newer = await storage.load(`save:${id}`);
+    newer.state.version = initialGameState.version + 1;
+    delete newer.checksum;
+    await storage.save(`save:${id}`, newer);
+
+    const engine = createEngine();
+    await engine.initialize();
+    const freshId = await engine.saveGame();
+
+    expect(engine.getState().categories.reactor.resources.energy).toBe(0);
+    expect(freshId).not.toBe(id);
+    expect(await storage.load(`save:${id}`)).toEqual(newer);
+  });
+
+  it('loads the local save without waiting for the cloud', async () => {
+    const state: GameState = clone(initialGameState);
+    state.categories.reactor.resources.energy = 4;
+    await new SaveSystem(storage, clock).save(state);
+
+    // A cloud that never answers
+    const unreachable = new InMemoryAdapter();
+    unreachable.load = () => new Promise(() => undefined);
+    unreachable.getAllKeys = () => new Promise(() => undefined);
+
+    const engine = createEngine(unreachable);
+    await engine.initialize();
+
+    expect(engine.getState().categories.reactor.resources.energy).toBe(4);
+  });
+
+  it('sends saves to the cloud a while after they are made', async () => {
+    vi.useFakeTimers();
+    try {
+      const cloud = new InMemoryAdapter();
+      const engine = createEngine(cloud);
+      await engine.initialize();
+
+      engine.dispatch({ type: 'CLICK_RESOURCE', payload: { category: 'reactor' } });
+      const id = await engine.saveGame();
+      expect(await cloud.load(`save:${id}`)).toBeNull();
+
+      await vi.advanceTimersByTimeAsync(CloudSaveConstants.SYNC_DELAY_MS);
+      expect((await cloud.load(`save:${id}`))?.state.categories.reactor.resources.energy).toBe(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('keeps separate engines isolated', () => {
+    const a = createEngine();
+    const b = createEngine();
+
+    a.dispatch({ type: 'CLICK_RESOURCE', payload: { category: 'reactor' } });
+
+    expect(b.getState().categories.reactor.resources.energy).toBe(0);
+  });
+});
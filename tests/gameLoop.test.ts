@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FixedStepLoop } from '../app/game/core/GameLoop';
+import { ManualScheduler } from '../app/game/core/Scheduler';
+
+describe('FixedStepLoop', () => {
+  let scheduler: ManualScheduler;
+  let now: number;
+  let steps: number[];
+  let renders: number[];
+  let loop: FixedStepLoop;
+
+  beforeEach(() => {
+    scheduler = new ManualScheduler();
+    now = 0;
+    steps = [];
+    renders = [];
+    loop = new FixedStepLoop({
+      stepSeconds: 0.1,
+      maxStepsPerFrame: 10,
+      scheduler,
+      now: () => now,
+      update: (dt) => steps.push(dt),
+      render: (count) => renders.push(count)
+    });
+  });
+
+  it('consumes elapsed time in fixed steps regardless of frame length', () => {
+    loop.start();
+
+    now = 250;
+    scheduler.runFrames();
+    now = 300;
+    scheduler.runFrames();
+
+    expect(steps).toEqual([0.1, 0.1, 0.1]);
+    expect(renders).toEqual([2, 1]);
+  });
+
+  it('clamps catch-up steps and drops the backlog', () => {
+    loop.start();
+
+    now = 60_000;
+    scheduler.runFrames();
+    now = 60_100;
+    scheduler.runFrames();
+
+    expect(renders).toEqual([10, 1]);
+  });
+
+  it('advances manually without dropping time', () => {
+    const count = loop.advance(3);
+
+    expect(count).toBe(30);
+    expect(steps.reduce((sum, dt) => sum + dt, 0)).toBeCloseTo(3);
+  });
+
+  it('stops pulling frames once stopped', () => {
+    loop.start();
+    loop.stop();
+
+    expect(scheduler.isRunning()).toBe(false);
+    expect(loop.isRunning()).toBe(false);
+  });
+});
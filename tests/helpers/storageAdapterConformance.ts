@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { StorageAdapter } from '../../app/game/core/storage/StorageAdapter';
+import { SaveSystem } from '../../app/game/core/SaveSystem';
+import { ManualClock } from '../../app/game/core/Clock';
+import { initialGameState } from '../../app/game/types';
+
+/**
+ * Behaviour every general-purpose StorageAdapter must have
+ * @param createAdapter Returns a fresh, empty adapter for each test
+ * @param cleanup Runs after each test, e.g. to remove files
+ */
+export function describeStorageAdapter(
+  name: string,
+  createAdapter: () => Promise<StorageAdapter> | StorageAdapter,
+  cleanup: () => Promise<void> | void = () => undefined
+) {
+  describe(`${name} (StorageAdapter conformance)`, () => {
+    let adapter: StorageAdapter;
+
+    beforeEach(async () => {
+      adapter = await createAdapter();
+    });
+
+    afterEach(async () => {
+      await cleanup();
+    });
+
+    it('returns null for a missing key', async () => {
+      expect(await adapter.load('save:missing')).toBeNull();
+    });
+
+    it('loads what was saved', async () => {
+      await adapter.save('currentSave', 'a1');
+      await adapter.save('save:a1', { id: 'a1', state: { energy: 1.5, logs: ['x'] } });
+
+      expect(await adapter.load('currentSave')).toBe('a1');
+      expect(await adapter.load('save:a1')).toEqual({ id: 'a1', state: { energy: 1.5, logs: ['x'] } });
+    });
+
+    it('replaces the value of a key that is saved again', async () => {
+      await adapter.save('save:a1', { energy: 1 });
+      await adapter.save('save:a1', { energy: 2 });
+
+      expect(await adapter.load('save:a1')).toEqual({ energy: 2 });
+      expect(await adapter.getAllKeys()).toEqual(['save:a1']);
+    });
+
+    it('never shares objects with the caller', async () => {
+      const data = { state: { energy: 1 } };
+      await adapter.save('save:a1', data);
+      data.state.energy = 2;
+
+      const loaded = await adapter.load('save:a1');
+      loaded.state.energy = 3;
+
+      expect(await adapter.load('save:a1')).toEqual({ state: { energy: 1 } });
+    });
+
+    it('deletes keys, including ones that do not exist', async () => {
+      await adapter.save('save:a1', { energy: 1 });
+
+      await adapter.delete('save:a1');
+      await adapter.delete('save:missing');
+
+      expect(await adapter.load('save:a1')).toBeNull();
+      expect(await adapter.getAllKeys()).toEqual([]);
+    });
+
+    it('lists every key, whatever characters it contains', async () => {
+      const keys = ['currentSave', 'save:a1', 'backup:a1:1700000000000', 'sync:a/b c%'];
+      for (const key of keys) {
+        await adapter.save(key, key);
+      }
+
+      expect((await adapter.getAllKeys()).sort()).toEqual([...keys].sort());
+      expect(await adapter.load('sync:a/b c%')).toBe('sync:a/b c%');
+    });
+
+    it('backs a save system', async () => {
+      const saves = new SaveSystem(adapter, new ManualClock(1_000_000));
+      const id = await saves.save(initialGameState);
+
+      const loaded = await new SaveSystem(adapter, new ManualClock(2_000_000)).load();
+
+      expect(loaded?.id).toBe(id);
+      expect(loaded?.state).toEqual(initialGameState);
+    });
+  });
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { initialGameState, GameState } from '../app/game/types';
+import { recalculateStats } from '../app/game/core/StatModifiers';
+import { addNumbers, formatNumber, MAX_GAME_NUMBER, powNumber } from '../app/game/utils/numbers';
+import { addResource, getResourceAmount } from '../app/game/utils/resources';
+import { getNumberNotation, setNumberNotation, subscribeToDisplaySettings } from '../app/game/utils/displaySettings';
+
+const clone = <T>(obj: T): T => JSON.parse(JSON.stringify(obj));
+
+describe('formatNumber', () => {
+  it('writes numbers below a thousand in full', () => {
+    expect(formatNumber(999)).toBe('999');
+    expect(formatNumber(12.345, { decimals: 1 })).toBe('12.3');
+    expect(formatNumber(0)).toBe('0');
+  });
+
+  it('abbreviates with suffixes by default', () => {
+    expect(formatNumber(1234)).toBe('1.23K');
+    expect(formatNumber(45600000)).toBe('45.6M');
+    expect(formatNumber(-1500)).toBe('-1.50K');
+  });
+
+  it('moves to the next suffix when rounding reaches it', () => {
+    expect(formatNumber(999999)).toBe('1.00M');
+  });
+
+  it('falls back to scientific beyond the last suffix', () => {
+    expect(formatNumber(1e33)).toBe('1.00Dc');
+    expect(formatNumber(1e36)).toBe('1.00e36');
+  });
+
+  it('writes scientific and engineering notation', () => {
+    expect(formatNumber(5678900, { notation: 'scientific' })).toBe('5.68e6');
+    expect(formatNumber(3.2e13, { notation: 'scientific' })).toBe('3.20e13');
+    expect(formatNumber(3.2e13, { notation: 'engineering' })).toBe('32.0e12');
+    expect(formatNumber(999999, { notation: 'engineering' })).toBe('1.00e6');
+  });
+
+  it('never writes Infinity or NaN', () => {
+    expect(formatNumber(Infinity)).toBe('1.80e308');
+    expect(formatNumber(NaN)).toBe('0');
+  });
+});
+
+describe('Large numbers', () => {
+  it('keeps arithmetic finite', () => {
+    expect(powNumber(1.5, 5000)).toBe(MAX_GAME_NUMBER);
+    expect(addNumbers(MAX_GAME_NUMBER, MAX_GAME_NUMBER)).toBe(MAX_GAME_NUMBER);
+  });
+
+  it('keeps stats and resources finite through saves', () => {
+    const state: GameState = clone(initialGameState);
+    state.categories.reactor.upgrades.reactorExpansions = 5000;
+
+    recalculateStats(state);
+    addResource(state, 'energy', Infinity);
+
+    const saved: GameState = JSON.parse(JSON.stringify(state));
+    expect(saved.categories.reactor.stats.energyCapacity).toBe(MAX_GAME_NUMBER);
+    expect(getResourceAmount(saved, 'energy')).toBe(MAX_GAME_NUMBER);
+  });
+});
+
+describe('Number notation setting', () => {
+  afterEach(() => {
+    setNumberNotation('suffix');
+    vi.unstubAllGlobals();
+  });
+
+  it('is kept on the device instead of in the game state', () => {
+    const stored = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => stored.set(key, value)
+    });
+    const listener = vi.fn();
+    const unsubscribe = subscribeToDisplaySettings(listener);
+
+    expect(getNumberNotation()).toBe('suffix');
+    setNumberNotation('engineering');
+    unsubscribe();
+
+    expect(getNumberNotation()).toBe('engineering');
+    expect(Array.from(stored.values())).toEqual(['engineering']);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(initialGameState).not.toHaveProperty('settings');
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EventBus } from '../app/game/core/EventBus';
+import { EventMap } from '../app/game/types/events';
+import { initialGameState, GameState } from '../app/game/types';
+import { GameSystemManager } from '../app/game/systems';
+import { simulateOfflineProgress } from '../app/game/core/OfflineProgress';
+
+const clone = <T>(o: T): T => JSON.parse(JSON.stringify(o));
+
+describe('simulateOfflineProgress', () => {
+  let systems: GameSystemManager;
+  let state: GameState;
+
+  beforeEach(() => {
+    systems = new GameSystemManager(new EventBus<EventMap>());
+    state = clone(initialGameState);
+  });
+
+  it('produces resources for the elapsed time', () => {
+    state.categories.reactor.upgrades.energyConverters = 1;
+
+    const report = simulateOfflineProgress(systems, state, 30);
+
+    expect(state.categories.reactor.resources.energy).toBe(30);
+    expect(report.resourcesGained.energy).toBe(30);
+    expect(report.capsReached).toEqual([]);
+  });
+
+  it('caps simulated time and reports full storage', () => {
+    state.categories.reactor.upgrades.energyConverters = 1;
+
+    const report = simulateOfflineProgress(systems, state, 10_000, { maxSeconds: 500, chunkSeconds: 50 });
+
+    expect(report.simulatedSeconds).toBe(500);
+    expect(report.wasCapped).toBe(true);
+    expect(state.categories.reactor.resources.energy).toBe(state.categories.reactor.stats.energyCapacity);
+    expect(report.capsReached).toContain('energy');
+  });
+
+  it('awakens crew and unlocks logs along the way', () => {
+    state.categories.crewQuarters.upgrades.workerCrews = 1;
+    // Enough stored energy for the worker crew's upkeep
+    state.categories.reactor.resources.energy = 100;
+
+    const report = simulateOfflineProgress(systems, state, 25, { chunkSeconds: 5 });
+
+    expect(state.categories.crewQuarters.resources.crew).toBe(2);
+    expect(report.resourcesGained.crew).toBe(2);
+    expect(report.logsUnlocked.length).toBe(Object.keys(state.logs.discovered).length);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EventBus } from '../app/game/core/EventBus';
+import { EventMap } from '../app/game/types/events';
+import { initialGameState, GameState } from '../app/game/types';
+import { ActionSystem } from '../app/game/systems/ActionSystem';
+import { CombatSystem } from '../app/game/systems/CombatSystem';
+import { ResourceSystem } from '../app/game/systems/ResourceSystem';
+import { POWER_PRESETS } from '../app/game/content/powerPresets';
+import { getRoutingFactor, setSystemShare } from '../app/game/utils/powerRouting';
+import { CombatConstants, ManufacturingConstants, PowerRoutingConstants, ProcessorConstants } from '../app/game/config/gameConstants';
+import { recalculateStats } from '../app/game/core/StatModifiers';
+
+const clone = <T>(obj: T): T => JSON.parse(JSON.stringify(obj));
+
+describe('Power routing', () => {
+  let bus: EventBus<EventMap>;
+  let actions: ActionSystem;
+  let state: GameState;
+
+  beforeEach(() => {
+    bus = new EventBus<EventMap>();
+    actions = new ActionSystem(bus);
+    state = clone(initialGameState);
+  });
+
+  it('runs every system at its normal rate with an equal split', () => {
+    expect(getRoutingFactor(state, 'processor')).toBe(1);
+    expect(getRoutingFactor(state, 'shields')).toBe(1);
+    expect(getRoutingFactor(state, 'reactor')).toBe(1);
+  });
+
+  it('scales production and upkeep with the routed share', () => {
+    state.categories.processor.upgrades.processingThreads = 2;
+    state.categories.manufacturing.upgrades.manufacturingBays = 2;
+    state.categories.reactor.resources.energy = 10;
+    state = actions.processAction(state, { type: 'SET_POWER_ALLOCATION', payload: { preset: 'salvage' } });
+
+    recalculateStats(state);
+    new ResourceSystem().update(state, 1);
+
+    const processorFactor = POWER_PRESETS.salvage.allocation.processor * 4;
+    // The salvage share would run manufacturing past its overdrive
+    const manufacturingFactor = PowerRoutingConstants.MAX_OVERDRIVE;
+    expect(state.power.activePreset).toBe('salvage');
+    expect(getRoutingFactor(state, 'processor')).toBeCloseTo(processorFactor);
+    expect(state.categories.processor.stats.insightPerSecond).toBeCloseTo(
+      2 * ProcessorConstants.INSIGHT_PER_THREAD * processorFactor
+    );
+    expect(state.categories.manufacturing.resources.scrap).toBeCloseTo(
+      2 * ManufacturingConstants.SCRAP_PER_BAY * manufacturingFactor
+    );
+    expect(state.categories.reactor.stats.energyUpkeep).toBeCloseTo(
+      2 * ProcessorConstants.THREAD_ENERGY_UPKEEP * processorFactor +
+      2 * ManufacturingConstants.BAY_ENERGY_UPKEEP * manufacturingFactor
+    );
+  });
+
+  it('caps the speed of a system at its overdrive', () => {
+    state = actions.processAction(state, {
+      type: 'SET_POWER_ALLOCATION',
+      payload: { allocation: { processor: 0, crewQuarters: 0, manufacturing: 1, shields: 0 } }
+    });
+
+    expect(getRoutingFactor(state, 'manufacturing')).toBe(PowerRoutingConstants.MAX_OVERDRIVE);
+    expect(getRoutingFactor(state, 'processor')).toBe(0);
+  });
+
+  it('rescales hand-set allocations and leaves the preset', () => {
+    state = actions.processAction(state, {
+      type: 'SET_POWER_ALLOCATION',
+      payload: { allocation: { processor: 0.5, crewQuarters: 0.5, manufacturing: 0, shields: 0 } }
+    });
+
+    expect(state.power.allocation).toEqual({ processor: 0.5, crewQuarters: 0.5, manufacturing: 0, shields: 0 });
+    expect(state.power.activePreset).toBeNull();
+
+    const next = actions.processAction(state, {
+      type: 'SET_POWER_ALLOCATION',
+      payload: { allocation: { processor: 0, crewQuarters: 0, manufacturing: 0, shields: 0 } }
+    });
+    expect(next.power).toEqual(state.power);
+  });
+
+  it('keeps saved presets', () => {
+    state = actions.processAction(state, {
+      type: 'SET_POWER_ALLOCATION',
+      payload: { allocation: { processor: 0.1, crewQuarters: 0.1, manufacturing: 0.1, shields: 0.7 } }
+    });
+    state = actions.processAction(state, { type: 'SAVE_POWER_PRESET', payload: { preset: 'combat' } });
+    state = actions.processAction(state, { type: 'SET_POWER_ALLOCATION', payload: { preset: 'balanced' } });
+    state = actions.processAction(state, { type: 'SET_POWER_ALLOCATION', payload: { preset: 'combat' } });
+
+    expect(state.power.allocation.shields).toBeCloseTo(0.7);
+    expect(state.power.activePreset).toBe('combat');
+  });
+
+  it('ignores unknown presets', () => {
+    const next = actions.processAction(state, { type: 'SET_POWER_ALLOCATION', payload: { preset: 'overdrive' } });
+
+    expect(next.power).toEqual(state.power);
+  });
+
+  it('takes a slider change from the other systems in proportion', () => {
+    const next = setSystemShare(
+      { processor: 0.4, crewQuarters: 0.2, manufacturing: 0.2, shields: 0.2 },
+      'shields',
+      0.6
+    );
+
+    expect(next.shields).toBeCloseTo(0.6);
+    expect(next.processor).toBeCloseTo(0.2);
+    expect(next.crewQuarters).toBeCloseTo(0.1);
+    expect(next.manufacturing).toBeCloseTo(0.1);
+  });
+
+  it('sizes the shields at the start of combat', () => {
+    const combat = new CombatSystem(bus);
+    combat.setResourceSystem(new ResourceSystem());
+    state = actions.processAction(state, { type: 'SET_POWER_ALLOCATION', payload: { preset: 'combat' } });
+
+    bus.emit('START_COMBAT', { state, enemyId: 'scavenger', regionId: 'void' });
+
+    const factor = Math.min(PowerRoutingConstants.MAX_OVERDRIVE, POWER_PRESETS.combat.allocation.shields * 4);
+    const expected = Math.round(CombatConstants.BASE_SHIELD_CAPACITY * factor);
+    expect(state.combat.playerStats.maxShield).toBe(expected);
+    expect(state.combat.playerStats.shield).toBe(expected);
+  });
+});
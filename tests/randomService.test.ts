@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { EventBus } from '../app/game/core/EventBus';
+import { EventMap } from '../app/game/types/events';
+import { initialGameState, GameState } from '../app/game/types';
+import { RandomService, createRandomState } from '../app/game/core/RandomService';
+import { GameSystemManager } from '../app/game/systems';
+
+const clone = <T>(o: T): T => JSON.parse(JSON.stringify(o));
+
+const seededState = (seed: number): GameState => {
+  const state = clone(initialGameState);
+  state.rng = createRandomState(seed);
+  return state;
+};
+
+describe('RandomService', () => {
+  it('produces the same sequence for the same seed and cursor', () => {
+    const random = new RandomService();
+    const a = random.forState(seededState(42));
+    const b = random.forState(seededState(42));
+
+    const seqA = Array.from({ length: 5 }, () => a.next());
+    const seqB = Array.from({ length: 5 }, () => b.next());
+
+    expect(seqA).toEqual(seqB);
+    seqA.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('advances the cursor stored in the state', () => {
+    const state = seededState(7);
+    const rng = new RandomService().forState(state);
+
+    rng.next();
+    rng.int(10);
+
+    expect(state.rng.cursor).toBe(2);
+  });
+
+  it('resumes from a saved cursor', () => {
+    const random = new RandomService();
+    const state = seededState(99);
+    const rng = random.forState(state);
+    rng.next();
+    const saved = clone(state);
+    const expected = rng.next();
+
+    expect(random.forState(saved).next()).toBe(expected);
+  });
+});
+
+describe('Seeded encounters', () => {
+  it('generates identical encounters from identical saves', () => {
+    const run = () => {
+      const bus = new EventBus<EventMap>();
+      const systems = new GameSystemManager(bus);
+      const state = seededState(1234);
+      const encounters = [];
+      for (let i = 0; i < 5; i++) {
+        encounters.push(systems.encounter.generateEncounter(state));
+      }
+      return encounters;
+    };
+
+    expect(run()).toEqual(run());
+  });
+});
@@ -1,6 +1,9 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { ResourceSystem } from '../app/game/systems/ResourceSystem';
+import { UpgradeSystem } from '../app/game/systems/UpgradeSystem';
 import { initialGameState, GameState } from '../app/game/types';
+import { getStarvedSystems } from '../app/game/utils/upkeep';
+import { ManufacturingConstants, ProcessorConstants } from '../app/game/config/gameConstants';
 
 // Helper to get a fresh deep copy of game state for each test
 const cloneState = (): GameState => JSON.parse(JSON.stringify(initialGameState));
@@ -55,4 +58,60 @@ describe('ResourceSystem.hasResources / consumeResources', () => {
     expect(ok).toBe(false);
     expect(state.categories.processor.resources.insight).toBe(20); // unchanged
   });
-}); 
\ No newline at end of file
+}); 
+describe('ResourceSystem energy upkeep', () => {
+  let system: ResourceSystem;
+  let state: GameState;
+
+  beforeEach(() => {
+    system = new ResourceSystem();
+    state = cloneState();
+    state.categories.processor.upgrades.processingThreads = 4;
+    state.categories.manufacturing.upgrades.manufacturingBays = 1;
+    new UpgradeSystem().updateAllStats(state);
+  });
+
+  const upkeep = () =>
+    4 * ProcessorConstants.THREAD_ENERGY_UPKEEP + ManufacturingConstants.BAY_ENERGY_UPKEEP;
+
+  it('draws the upkeep of automated upgrades from stored energy', () => {
+    state.categories.reactor.resources.energy = 10;
+    system.update(state, 1);
+
+    expect(state.categories.reactor.stats.energyUpkeep).toBeCloseTo(upkeep());
+    expect(state.categories.reactor.stats.powerSupply).toBe(1);
+    expect(state.categories.reactor.resources.energy).toBeCloseTo(10 - upkeep());
+    expect(state.categories.processor.resources.insight).toBeCloseTo(4 * ProcessorConstants.INSIGHT_PER_THREAD);
+    expect(getStarvedSystems(state)).toEqual([]);
+  });
+
+  it('throttles every powered system by the share the reactor covers', () => {
+    state.categories.reactor.stats.energyPerSecond = upkeep() / 2;
+    system.update(state, 1);
+
+    expect(state.categories.reactor.stats.powerSupply).toBeCloseTo(0.5);
+    expect(state.categories.reactor.resources.energy).toBeCloseTo(0);
+    expect(state.categories.processor.resources.insight).toBeCloseTo(2 * ProcessorConstants.INSIGHT_PER_THREAD);
+    expect(state.categories.manufacturing.resources.scrap).toBeCloseTo(ManufacturingConstants.SCRAP_PER_BAY / 2);
+    expect(getStarvedSystems(state)).toEqual(['processor', 'manufacturing']);
+  });
+
+  it('leaves systems without upkeep at full speed during a brownout', () => {
+    state.categories.crewQuarters.stats.crewPerSecond = 1;
+    system.update(state, 1);
+
+    expect(state.categories.reactor.stats.powerSupply).toBe(0);
+    expect(state.categories.crewQuarters.stats.awakeningProgress).toBeCloseTo(1);
+    expect(getStarvedSystems(state)).not.toContain('crewQuarters');
+  });
+
+  it('ends the brownout once the reactor can cover the upkeep', () => {
+    system.update(state, 1);
+    expect(state.categories.reactor.stats.powerSupply).toBe(0);
+
+    state.categories.reactor.resources.energy = 50;
+    system.update(state, 1);
+    expect(state.categories.reactor.stats.powerSupply).toBe(1);
+    expect(getStarvedSystems(state)).toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { RESOURCE_DEFINITIONS } from '../app/game/content/resources';
+import {
+  addResource,
+  getResourceAmount,
+  getResourceDefinitions,
+  readResources
+} from '../app/game/utils/resources';
+import { ResourceSystem } from '../app/game/systems/ResourceSystem';
+import { UpgradeSystem } from '../app/game/systems/UpgradeSystem';
+import { gameStateSchema } from '../app/game/types/gameStateSchema';
+import { initialGameState, GameState } from '../app/game/types';
+
+const cloneState = (): GameState => JSON.parse(JSON.stringify(initialGameState));
+
+describe('Resource definitions', () => {
+  it('point at categories and stats that exist in the initial state', () => {
+    getResourceDefinitions().forEach(definition => {
+      const category = initialGameState.categories[definition.category] as unknown as {
+        resources: Record<string, number>;
+        stats: Record<string, number>;
+      };
+
+      expect(category.resources[definition.id], definition.id).toBeTypeOf('number');
+      expect(category.stats[definition.capacityStat], definition.capacityStat).toBeTypeOf('number');
+      expect(category.stats[definition.rateStat], definition.rateStat).toBeTypeOf('number');
+    });
+  });
+});
+
+describe('addResource', () => {
+  let state: GameState;
+
+  beforeEach(() => {
+    state = cloneState();
+  });
+
+  it('caps gains at the capacity', () => {
+    state.categories.reactor.resources.energy = 90;
+
+    expect(addResource(state, 'energy', 50)).toBe(10);
+    expect(state.categories.reactor.resources.energy).toBe(100);
+  });
+
+  it('adds past the capacity when uncapped', () => {
+    state.categories.reactor.resources.energy = 90;
+
+    expect(addResource(state, 'energy', 50, false)).toBe(50);
+    expect(state.categories.reactor.resources.energy).toBe(140);
+  });
+
+  it('keeps amounts already above the capacity', () => {
+    state.categories.reactor.resources.energy = 150;
+
+    expect(addResource(state, 'energy', 5)).toBe(0);
+    expect(state.categories.reactor.resources.energy).toBe(150);
+  });
+
+  it('rounds down whole-unit resources', () => {
+    state.categories.crewQuarters.stats.crewCapacity = 10;
+
+    expect(addResource(state, 'crew', 2.7)).toBe(2);
+    expect(getResourceAmount(state, 'crew')).toBe(2);
+  });
+
+  it('ignores unknown resources', () => {
+    expect(addResource(state, 'antimatter', 5)).toBeNull();
+    expect(readResources(state)).not.toHaveProperty('antimatter');
+  });
+});
+
+describe('Resources added as content', () => {
+  let state: GameState;
+
+  beforeEach(() => {
+    RESOURCE_DEFINITIONS.plasma = {
+      id: 'plasma',
+      name: 'Plasma',
+      icon: 'Zap',
+      color: 'chart-5',
+      category: 'reactor',
+      capacityStat: 'plasmaCapacity',
+      rateStat: 'plasmaPerSecond',
+      production: 'rate',
+      decimals: 1
+    };
+    state = cloneState();
+    const reactor = state.categories.reactor as unknown as {
+      resources: Record<string, number>;
+      stats: Record<string, number>;
+    };
+    reactor.resources.plasma = 0;
+    reactor.stats.plasmaCapacity = 20;
+    reactor.stats.plasmaPerSecond = 4;
+  });
+
+  afterEach(() => {
+    delete RESOURCE_DEFINITIONS.plasma;
+  });
+
+  it('are produced by the resource system', () => {
+    new ResourceSystem().update(state, 10);
+
+    expect(getResourceAmount(state, 'plasma')).toBe(20);
+  });
+
+  it('can be spent and read', () => {
+    addResource(state, 'plasma', 8);
+    const system = new ResourceSystem();
+
+    expect(system.consumeResources(state, [{ type: 'plasma', amount: 5 }])).toBe(true);
+    expect(readResources(state).plasma).toEqual({ amount: 3, capacity: 20 });
+  });
+
+  it('survive save validation', () => {
+    const parsed = gameStateSchema.parse(state) as unknown as {
+      categories: { reactor: { resources: Record<string, number> } };
+    };
+
+    expect(parsed.categories.reactor.resources.plasma).toBe(0);
+  });
+});
+
+describe('UpgradeSystem with the registry', () => {
+  it('deducts the cost from the upgrade resource', () => {
+    const state = cloneState();
+    state.categories.processor.resources.insight = 100;
+
+    const bought = new UpgradeSystem().purchaseUpgrade(state, 'processor', 'mainframeExpansions');
+
+    expect(bought).toBe(true);
+    expect(state.categories.processor.resources.insight).toBeLessThan(100);
+    expect(state.categories.processor.upgrades.mainframeExpansions).toBe(1);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SaveSystem } from '../app/game/core/SaveSystem';
+import { ManualClock } from '../app/game/core/Clock';
+import { BackupConstants } from '../app/game/config/gameConstants';
+import { initialGameState, GameState } from '../app/game/types';
+import { InMemoryAdapter } from '../app/game/core/storage/InMemoryAdapter';
+
+const clone = <T>(obj: T): T => JSON.parse(JSON.stringify(obj));
+
+describe('Save backups', () => {
+  let clock: ManualClock;
+  let storage: InMemoryAdapter;
+  let saves: SaveSystem;
+
+  const stateWithEnergy = (energy: number): GameState => {
+    const state = clone(initialGameState);
+    state.categories.reactor.resources.energy = energy;
+    return state;
+  };
+
+  /**
+   * Save once per backup interval, with energy 1, 2, 3...
+   */
+  const saveRounds = async (rounds: number) => {
+    let id = '';
+    for (let energy = 1; energy <= rounds; energy++) {
+      if (energy > 1) clock.advance(BackupConstants.INTERVAL_MS);
+      id = await saves.save(stateWithEnergy(energy));
+    }
+    return id;
+  };
+
+  beforeEach(() => {
+    clock = new ManualClock(1_000_000);
+    storage = new InMemoryAdapter();
+    saves = new SaveSystem(storage, clock);
+  });
+
+  it('stamps every save with a checksum', async () => {
+    const id = await saves.save(stateWithEnergy(1));
+
+    expect((await storage.load(`save:${id}`)).checksum).toMatch(/^[0-9a-f]{8}$/);
+  });
+
+  it('keeps one backup per interval, up to the limit', async () => {
+    const id = await saveRounds(BackupConstants.MAX_BACKUPS + 2);
+    // Saves within the interval do not add backups
+    clock.advance(BackupConstants.INTERVAL_MS - 1);
+    await saves.save(stateWithEnergy(99));
+
+    const backups = await saves.listBackups(id);
+
+    expect(backups).toHaveLength(BackupConstants.MAX_BACKUPS);
+    expect(backups[0].timestamp).toBe(1_000_000 + (BackupConstants.MAX_BACKUPS + 1) * BackupConstants.INTERVAL_MS);
+    expect(backups.every(backup => backup.isValid)).toBe(true);
+  });
+
+  it('falls back to the newest valid backup when a save is damaged', async () => {
+    const id = await saveRounds(3);
+    const newestBackup = (await saves.listBackups(id))[0];
+
+    // A write that went wrong after the checksum was computed
+    const damaged = await storage.load(`save:${id}`);
+    damaged.state.categories.reactor.resources.energy = 1e9;
+    await storage.save(`save:${id}`, damaged);
+
+    const loaded = await new SaveSystem(storage, clock).load(id);
+
+    expect(loaded?.state.categories.reactor.resources.energy).toBe(3);
+    expect(loaded?.timestamp).toBe(newestBackup.timestamp);
+    expect((await storage.load(`save:${id}`)).state.categories.reactor.resources.energy).toBe(3);
+  });
+
+  it('reports saves that fail validation and skips damaged backups', async () => {
+    const id = await saveRounds(2);
+    const [newest, older] = await saves.listBackups(id);
+    const newestBackup = await storage.load(`backup:${id}:${newest.timestamp}`);
+    await storage.save(`backup:${id}:${newest.timestamp}`, { ...newestBackup, checksum: 'deadbeef' });
+
+    // Consistent checksum, but not a valid state
+    const invalid = await storage.load(`save:${id}`);
+    delete invalid.checksum;
+    invalid.state.categories = 'scrambled';
+    await storage.save(`save:${id}`, invalid);
+
+    const reloaded = new SaveSystem(storage, clock);
+    const loaded = await reloaded.load(id);
+
+    expect(loaded?.timestamp).toBe(older.timestamp);
+    expect(reloaded.getLastRecovery()).toMatchObject({
+      saveId: id,
+      reason: expect.stringContaining('categories'),
+      restoredFrom: older.timestamp
+    });
+  });
+
+  it('refuses to load a damaged save without backups and leaves it in place', async () => {
+    const id = await saves.save(stateWithEnergy(1));
+    for (const key of await storage.getAllKeys()) {
+      if (key.startsWith('backup:')) await storage.delete(key);
+    }
+    const damaged = await storage.load(`save:${id}`);
+    damaged.metadata.playTime = 12345;
+    await storage.save(`save:${id}`, damaged);
+
+    const reloaded = new SaveSystem(storage, clock);
+
+    expect(await reloaded.load(id)).toBeNull();
+    expect(reloaded.getLastRecovery()).toMatchObject({ saveId: id, restoredFrom: null });
+    expect(reloaded.getCurrentSaveId()).toBeNull();
+    expect(await storage.load(`save:${id}`)).not.toBeNull();
+  });
+
+  it('restores a chosen backup', async () => {
+    const id = await saveRounds(3);
+    const oldest = (await saves.listBackups(id)).pop()!;
+
+    expect(await saves.restoreBackup(id, oldest.timestamp)).toBe(true);
+    expect((await saves.load(id))?.state.categories.reactor.resources.energy).toBe(1);
+  });
+
+  it('deletes backups along with their slot', async () => {
+    const id = await saveRounds(2);
+    saves.startNewSave('Other');
+
+    await saves.deleteSave(id);
+
+    expect(await saves.listBackups(id)).toEqual([]);
+  });
+});
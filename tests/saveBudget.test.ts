@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { compactStateForSave, measureSave } from '../app/game/core/SaveBudget';
+import { recordEncounter } from '../app/game/core/HistoryArchive';
+import { SaveSystem } from '../app/game/core/SaveSystem';
+import { ManualClock } from '../app/game/core/Clock';
+import { getLogEntry } from '../app/game/systems/LogSystem';
+import { SaveBudgetConstants } from '../app/game/config/gameConstants';
+import { initialGameState, GameState, LogCategory } from '../app/game/types';
+import { InMemoryAdapter } from '../app/game/core/storage/InMemoryAdapter';
+
+const clone = <T>(obj: T): T => JSON.parse(JSON.stringify(obj));
+
+const withBattleLog = (entries: number, active: boolean): GameState => {
+  const state = clone(initialGameState);
+  state.combat.active = active;
+  state.combat.battleLog = Array.from({ length: entries }, (_, i) => ({
+    id: `b${i}`, text: `Turn ${i}`, type: 'SYSTEM', timestamp: i
+  }));
+  return state;
+};
+
+describe('Save budget', () => {
+  it('keeps the recent encounters and folds older ones into the archive', () => {
+    const state = clone(initialGameState);
+    const total = SaveBudgetConstants.RECENT_ENCOUNTERS + 5;
+    for (let i = 0; i < total; i++) {
+      recordEncounter(state, {
+        id: `e${i}`,
+        type: i % 2 === 0 ? 'story' : 'combat',
+        result: i % 2 === 0 ? 'completed' : 'retreat',
+        date: 1000 + i,
+        region: 'nebula'
+      });
+    }
+
+    expect(state.encounters.history).toHaveLength(SaveBudgetConstants.RECENT_ENCOUNTERS);
+    expect(state.encounters.history[state.encounters.history.length - 1].id).toBe(`e${total - 1}`);
+    expect(state.encounters.archive).toEqual({
+      count: 5,
+      byType: { story: 3, combat: 2 },
+      byRegion: { nebula: 5 },
+      byResult: { completed: 3, retreat: 2 },
+      firstDate: 1000,
+      lastDate: 1004
+    });
+  });
+
+  it('leaves the battle log out of saves made outside combat', () => {
+    const state = withBattleLog(30, false);
+    const compacted = compactStateForSave(state);
+
+    expect(compacted.combat.battleLog).toEqual([]);
+    // The running game keeps its log
+    expect(state.combat.battleLog).toHaveLength(30);
+    expect(compacted.categories).toBe(state.categories);
+  });
+
+  it('keeps only the end of the battle log during combat', () => {
+    const compacted = compactStateForSave(withBattleLog(30, true));
+
+    expect(compacted.combat.battleLog).toHaveLength(SaveBudgetConstants.SAVED_BATTLE_LOG_ENTRIES);
+    expect(compacted.combat.battleLog[0].id).toBe(`b${30 - SaveBudgetConstants.SAVED_BATTLE_LOG_ENTRIES}`);
+  });
+
+  it('returns states with nothing to compact unchanged', () => {
+    const state = withBattleLog(3, true);
+
+    expect(compactStateForSave(state)).toBe(state);
+  });
+
+  it('writes compacted saves', async () => {
+    const storage = new InMemoryAdapter();
+    const id = await new SaveSystem(storage, new ManualClock(0)).save(withBattleLog(30, false));
+
+    expect((await storage.load(`save:${id}`)).state.combat.battleLog).toEqual([]);
+  });
+
+  it('reports the size of each section, largest first', async () => {
+    const state = withBattleLog(0, false);
+    state.encounters.history = Array.from({ length: 40 }, (_, i) => ({
+      id: `encounter-${i}`, type: 'story', result: 'completed', date: i, region: 'void'
+    }));
+    const save = { state, journal: null, metadata: { playTime: 1, lastPlayed: '2025-01-01' } };
+
+    const report = measureSave(save);
+
+    expect(report.sections[0].section).toBe('state.encounters');
+    expect(report.sections.map(section => section.section)).toContain('journal');
+    expect(report.totalBytes).toBe(JSON.stringify(save).length);
+    expect(report.overBudget).toBe(false);
+
+    const storage = new InMemoryAdapter();
+    const saves = new SaveSystem(storage, new ManualClock(0));
+    await saves.save(state);
+    expect((await saves.listSaves())[0].size.sections[0].section).toBe('state.encounters');
+  });
+
+  it('flags saves over the budget', () => {
+    const state = clone(initialGameState);
+    state.encounters.history = Array.from({ length: 2000 }, (_, i) => ({
+      id: `encounter-${i}`, type: 'story', result: 'completed', date: i, region: 'void'
+    }));
+
+    expect(measureSave({ state }).overBudget).toBe(true);
+  });
+
+  it('looks up the text of discovered logs', () => {
+    const log = { id: 'log_initial_awakening', timestamp: 5, isRead: false };
+
+    expect(getLogEntry(log)).toMatchObject({
+      ...log,
+      title: 'Emergency Wake Protocol',
+      category: LogCategory.SHIP_SYSTEMS
+    });
+    expect(getLogEntry({ ...log, id: 'log_removed' })).toBeNull();
+  });
+});
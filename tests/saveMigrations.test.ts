@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CURRENT_STATE_VERSION,
+  SAVE_MIGRATIONS,
+  SaveMigration,
+  fillMissingFields,
+  migrateState
+} from '../app/game/core/SaveMigrations';
+import { SaveSystem } from '../app/game/core/SaveSystem';
+import { ManualClock } from '../app/game/core/Clock';
+import { initialGameState } from '../app/game/types';
+import { InMemoryAdapter } from '../app/game/core/storage/InMemoryAdapter';
+import { SaveBudgetConstants } from '../app/game/config/gameConstants';
+
+const clone = <T>(obj: T): T => JSON.parse(JSON.stringify(obj));
+
+/**
+ * A version 1 state as saved before the rng, navigation, encounter and combat blocks existed
+ */
+const legacyState = () => {
+  const state: Record<string, any> = clone(initialGameState);
+  state.version = 1;
+  state.categories.reactor.resources.energy = 42;
+  delete state.rng;
+  delete state.navigation;
+  delete state.encounters;
+  delete state.combat;
+  return state;
+};
+
+describe('Save migrations', () => {
+  it('registers one step per version, ending at the current version', () => {
+    const versions = SAVE_MIGRATIONS.map(migration => migration.version);
+
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+    expect(versions[versions.length - 1]).toBe(CURRENT_STATE_VERSION);
+  });
+
+  describe('version 2: seeded random state', () => {
+    const step = SAVE_MIGRATIONS.find(migration => migration.version === 2)!;
+
+    it('adds a random state to saves without one', () => {
+      const state = legacyState();
+      step.migrate(state);
+
+      expect(Number.isInteger(state.rng.seed)).toBe(true);
+      expect(state.rng.cursor).toBe(0);
+    });
+
+    it('keeps an existing random state', () => {
+      const state = legacyState();
+      state.rng = { seed: 7, cursor: 3 };
+      step.migrate(state);
+
+      expect(state.rng).toEqual({ seed: 7, cursor: 3 });
+    });
+  });
+
+  describe('version 3: log references and encounter summary', () => {
+    const step = SAVE_MIGRATIONS.find(migration => migration.version === 3)!;
+
+    const versionTwoState = (encounters: number) => {
+      const state: Record<string, any> = clone(initialGameState);
+      state.version = 2;
+      state.logs.discovered.log_initial_awakening = {
+        id: 'log_initial_awakening',
+        title: 'Emergency Wake Protocol',
+        content: 'System log: ...',
+        timestamp: 5,
+        category: 'Ship Systems',
+        isRead: true
+      };
+      state.encounters.history = Array.from({ length: encounters }, (_, i) => ({
+        id: `e${i}`, type: 'empty', result: 'completed', date: i, region: 'void'
+      }));
+      delete state.encounters.archive;
+      return state;
+    };
+
+    it('drops the copied log text', () => {
+      const state = versionTwoState(0);
+      step.migrate(state);
+
+      expect(state.logs.discovered.log_initial_awakening).toEqual({ id: 'log_initial_awakening', timestamp: 5, isRead: true });
+    });
+
+    it('summarizes encounters beyond the recent ones', () => {
+      const state = versionTwoState(SaveBudgetConstants.RECENT_ENCOUNTERS + 3);
+      step.migrate(state);
+
+      expect(state.encounters.history).toHaveLength(SaveBudgetConstants.RECENT_ENCOUNTERS);
+      expect(state.encounters.history[0].id).toBe('e3');
+      expect(state.encounters.archive).toEqual({
+        count: 3,
+        byType: { empty: 3 },
+        byRegion: { void: 3 },
+        byResult: { completed: 3 },
+        firstDate: 0,
+        lastDate: 2
+      });
+    });
+  });
+
+  it('brings a version 1 state up to date without losing progress', () => {
+    const raw = legacyState();
+    const result = migrateState(raw);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.fromVersion).toBe(1);
+    expect(result.state.version).toBe(CURRENT_STATE_VERSION);
+    expect(result.state.categories.reactor.resources.energy).toBe(42);
+    expect(result.state.combat).toEqual(initialGameState.combat);
+    expect(result.state.navigation.currentRegion).toBe('void');
+    // The input is left alone
+    expect(raw.version).toBe(1);
+  });
+
+  it('runs steps in order from the saved version', () => {
+    const order: number[] = [];
+    const migrations: SaveMigration[] = [2, 3, 4].map(version => ({
+      version,
+      description: `step ${version}`,
+      migrate: () => { order.push(version); }
+    }));
+
+    const result = migrateState({ ...legacyState(), version: 2 }, migrations, 4);
+
+    expect(order).toEqual([3, 4]);
+    expect(result).toMatchObject({ success: true, fromVersion: 2, applied: [3, 4] });
+  });
+
+  it('refuses states from a newer version', () => {
+    const result = migrateState({ ...clone(initialGameState), version: CURRENT_STATE_VERSION + 1 });
+
+    expect(result).toMatchObject({ success: false, error: expect.stringContaining('newer version') });
+  });
+
+  it('fills missing fields without replacing existing values', () => {
+    const target: Record<string, unknown> = { a: 1, nested: { b: [9] } };
+    fillMissingFields(target, { a: 2, c: 3, nested: { b: [], d: { e: 4 } } });
+
+    expect(target).toEqual({ a: 1, c: 3, nested: { b: [9], d: { e: 4 } } });
+  });
+
+  it('loads legacy saves and leaves newer ones untouched', async () => {
+    const storage = new InMemoryAdapter();
+    await storage.save('save:old', {
+      id: 'old',
+      version: '1.0.0',
+      timestamp: 0,
+      state: legacyState(),
+      metadata: { playTime: 10, lastPlayed: '2024-01-01' }
+    });
+    await storage.save('save:future', {
+      id: 'future',
+      version: CURRENT_STATE_VERSION + 1,
+      timestamp: 0,
+      state: { ...clone(initialGameState), version: CURRENT_STATE_VERSION + 1 },
+      metadata: { playTime: 10, lastPlayed: '2030-01-01' }
+    });
+    const saves = new SaveSystem(storage, new ManualClock(0));
+
+    const old = await saves.load('old');
+    const future = await saves.load('future');
+
+    expect(old?.version).toBe(CURRENT_STATE_VERSION);
+    expect(old?.state.rng).toBeDefined();
+    expect(future).toBeNull();
+    expect(saves.getCurrentSaveId()).toBe('old');
+    expect((await saves.listSaves()).find(slot => slot.id === 'future')?.isCompatible).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SaveSystem } from '../app/game/core/SaveSystem';
+import { ManualClock } from '../app/game/core/Clock';
+import { initialGameState, GameState } from '../app/game/types';
+import { InMemoryAdapter } from '../app/game/core/storage/InMemoryAdapter';
+
+const clone = <T>(obj: T): T => JSON.parse(JSON.stringify(obj));
+
+describe('Save slots', () => {
+  let clock: ManualClock;
+  let storage: InMemoryAdapter;
+  let saves: SaveSystem;
+  let state: GameState;
+
+  beforeEach(async () => {
+    clock = new ManualClock(1_000_000);
+    storage = new InMemoryAdapter();
+    saves = new SaveSystem(storage, clock);
+    await saves.init();
+    state = clone(initialGameState);
+  });
+
+  it('lists slots with their metadata, newest first', async () => {
+    const first = await saves.save(state);
+    clock.advance(60_000);
+    saves.startNewSave('Nebula run');
+    state.navigation.currentRegion = 'nebula';
+    const second = await saves.save(state);
+
+    const slots = await saves.listSaves();
+
+    expect(slots.map(slot => slot.id)).toEqual([second, first]);
+    expect(slots[0]).toMatchObject({ name: 'Nebula run', region: 'nebula', isCurrent: true });
+    expect(slots[1]).toMatchObject({ name: 'Save 1', playTime: 0, isCurrent: false });
+  });
+
+  it('renames and duplicates slots', async () => {
+    const id = await saves.save(state);
+    await saves.renameSave(id, 'Main');
+    const copyId = await saves.duplicateSave(id);
+
+    const slots = await saves.listSaves();
+
+    expect(slots.find(slot => slot.id === copyId)?.name).toBe('Main (copy)');
+    expect((await saves.save(state))).toBe(id);
+    expect((await saves.listSaves()).find(slot => slot.id === id)?.name).toBe('Main');
+  });
+
+  it('switches to a loaded slot and refuses to delete the one in use', async () => {
+    const first = await saves.save(state);
+    saves.startNewSave('Second');
+    const second = await saves.save(state);
+
+    expect(await saves.deleteSave(second)).toBe(false);
+
+    await saves.load(first);
+    expect(saves.getCurrentSaveId()).toBe(first);
+    expect(await saves.deleteSave(second)).toBe(true);
+    expect((await saves.listSaves()).map(slot => slot.id)).toEqual([first]);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SaveSync, saveContentHash } from '../app/game/core/SaveSync';
+import { SaveData } from '../app/game/core/SaveSystem';
+import { initialGameState } from '../app/game/types';
+import { InMemoryAdapter } from '../app/game/core/storage/InMemoryAdapter';
+
+const makeSave = (id: string, energy: number, playTime = 10, timestamp = 1000): SaveData => {
+  const state = JSON.parse(JSON.stringify(initialGameState));
+  state.categories.reactor.resources.energy = energy;
+  return { id, version: 2, timestamp, state, metadata: { playTime, lastPlayed: '2025-01-01', name: id } };
+};
+
+/**
+ * A remote that cannot be reached
+ */
+class OfflineStorage extends InMemoryAdapter {
+  async load(): Promise<never> { throw new Error('offline'); }
+  async getAllKeys(): Promise<never> { throw new Error('offline'); }
+}
+
+describe('SaveSync', () => {
+  let local: InMemoryAdapter;
+  let remote: InMemoryAdapter;
+  let sync: SaveSync;
+
+  const energyAt = async (storage: InMemoryAdapter, id: string) =>
+    (await storage.load(`save:${id}`))?.state.categories.reactor.resources.energy;
+
+  beforeEach(() => {
+    local = new InMemoryAdapter();
+    remote = new InMemoryAdapter();
+    sync = new SaveSync(local, remote);
+  });
+
+  it('copies slots that exist on one side only, including the current slot pointer', async () => {
+    await local.save('save:mine', makeSave('mine', 1));
+    await local.save('currentSave', 'mine');
+    await remote.save('save:theirs', makeSave('theirs', 2));
+
+    const result = await sync.sync();
+
+    expect(result).toMatchObject({ online: true, uploaded: ['mine'], downloaded: ['theirs'], conflicts: [] });
+    expect(await energyAt(remote, 'mine')).toBe(1);
+    expect(await energyAt(local, 'theirs')).toBe(2);
+    expect(await remote.load('currentSave')).toBe('mine');
+  });
+
+  it('lets a fresh device continue from the cloud', async () => {
+    await remote.save('save:a', makeSave('a', 5));
+    await remote.save('currentSave', 'a');
+
+    await sync.sync();
+
+    expect(await local.load('currentSave')).toBe('a');
+  });
+
+  it('sends changes one way when only one side changed since the last sync', async () => {
+    await local.save('save:a', makeSave('a', 1));
+    await sync.sync();
+
+    await local.save('save:a', makeSave('a', 2));
+    expect((await sync.sync()).uploaded).toEqual(['a']);
+    expect(await energyAt(remote, 'a')).toBe(2);
+
+    await remote.save('save:a', makeSave('a', 3));
+    expect((await sync.sync()).downloaded).toEqual(['a']);
+    expect(await energyAt(local, 'a')).toBe(3);
+
+    expect(await sync.sync()).toMatchObject({ uploaded: [], downloaded: [], conflicts: [] });
+  });
+
+  it('reports a conflict when both sides changed and resolves it either way', async () => {
+    await local.save('save:a', makeSave('a', 1));
+    await sync.sync();
+    await local.save('save:a', makeSave('a', 2, 30, 2000));
+    await remote.save('save:a', makeSave('a', 3, 20, 3000));
+
+    const result = await sync.sync();
+
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]).toMatchObject({
+      saveId: 'a',
+      local: { playTime: 30, timestamp: 2000 },
+      remote: { playTime: 20, timestamp: 3000 },
+      suggested: 'local'
+    });
+    // Neither side is touched until the player decides
+    expect(await energyAt(local, 'a')).toBe(2);
+    expect(await energyAt(remote, 'a')).toBe(3);
+
+    expect(await sync.resolve('a', 'remote')).toBe(true);
+    expect(await energyAt(local, 'a')).toBe(3);
+    expect((await sync.sync()).conflicts).toEqual([]);
+  });
+
+  it('propagates deletions unless the other side changed the slot since', async () => {
+    await local.save('save:gone', makeSave('gone', 1));
+    await local.save('save:edited', makeSave('edited', 1));
+    await sync.sync();
+
+    await local.delete('save:gone');
+    await local.delete('save:edited');
+    await remote.save('save:edited', makeSave('edited', 9));
+
+    const result = await sync.sync();
+
+    expect(result.deleted).toEqual(['gone']);
+    expect(result.downloaded).toEqual(['edited']);
+    expect(await remote.load('save:gone')).toBeNull();
+  });
+
+  it('leaves local saves alone while the cloud is unreachable', async () => {
+    await local.save('save:a', makeSave('a', 1));
+
+    const result = await new SaveSync(local, new OfflineStorage()).sync();
+
+    expect(result.online).toBe(false);
+    expect(await energyAt(local, 'a')).toBe(1);
+  });
+
+  it('hashes content regardless of key order', () => {
+    const save = makeSave('a', 1);
+    // As a JSONB column might hand it back: every object's keys in another order
+    const reverseKeys = (value: unknown): unknown => {
+      if (Array.isArray(value)) return value.map(reverseKeys);
+      if (typeof value !== 'object' || value === null) return value;
+      return Object.fromEntries(Object.entries(value).reverse().map(([key, item]) => [key, reverseKeys(item)]));
+    };
+    const reordered = reverseKeys(save) as SaveData;
+
+    expect(saveContentHash(reordered)).toBe(saveContentHash(save));
+    expect(saveContentHash(makeSave('a', 2))).not.toBe(saveContentHash(save));
+  });
+});
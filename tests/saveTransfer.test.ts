@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SaveData, SaveSystem } from '../app/game/core/SaveSystem';
+import { decodeSave, encodeSave } from '../app/game/core/SaveTransfer';
+import { ManualClock } from '../app/game/core/Clock';
+import { initialGameState } from '../app/game/types';
+import { InMemoryAdapter } from '../app/game/core/storage/InMemoryAdapter';
+
+const clone = <T>(obj: T): T => JSON.parse(JSON.stringify(obj));
+
+describe('Save export and import', () => {
+  let save: SaveData;
+
+  beforeEach(() => {
+    save = {
+      id: 'slot-1',
+      version: initialGameState.version,
+      timestamp: 1_000_000,
+      state: clone(initialGameState),
+      journal: null,
+      metadata: { playTime: 42, lastPlayed: '2025-01-01', name: 'Main', region: 'void' }
+    };
+    save.state.categories.reactor.resources.energy = 12.5;
+  });
+
+  it('round-trips a save through the exported string', async () => {
+    const text = await encodeSave(save);
+    const result = await decodeSave(text);
+
+    expect(text.startsWith('DERELICT-DAWN-SAVE:1:')).toBe(true);
+    expect(result).toEqual({ success: true, save });
+  });
+
+  it('rejects text that is not a save', async () => {
+    const result = await decodeSave('hello there');
+
+    expect(result).toEqual({ success: false, error: 'This is not a Derelict Dawn save.' });
+  });
+
+  it('rejects a tampered checksum or payload', async () => {
+    const [prefix, format, , payload] = (await encodeSave(save)).split(':');
+    const other = (await encodeSave({ ...save, id: 'slot-2' })).split(':')[3];
+
+    const wrongChecksum = await decodeSave(`${prefix}:${format}:00000000:${payload}`);
+    const truncated = await decodeSave(`${prefix}:${format}:00000000:${payload.slice(0, 20)}`);
+    const swapped = await decodeSave((await encodeSave(save)).replace(payload, other));
+
+    expect(wrongChecksum.success).toBe(false);
+    expect(truncated).toMatchObject({ success: false, error: expect.stringContaining('damaged') });
+    expect(swapped).toMatchObject({ success: false, error: expect.stringContaining('Checksum mismatch') });
+  });
+
+  it('rejects a well-formed export with an invalid state', async () => {
+    // A correct checksum over contents that do not match the schema
+    const broken = clone(save) as any;
+    broken.state.categories.reactor.resources.energy = 'lots';
+
+    const result = await decodeSave(await encodeSave(broken));
+
+    expect(result).toMatchObject({
+      success: false,
+      error: expect.stringContaining('state.categories.reactor.resources.energy')
+    });
+  });
+
+  it('imports into a new slot without touching existing ones', async () => {
+    const storage = new InMemoryAdapter();
+    const saves = new SaveSystem(storage, new ManualClock(0));
+    const existing = await saves.save(clone(initialGameState));
+
+    const result = await saves.importSave(await encodeSave(save));
+    const failed = await saves.importSave('DERELICT-DAWN-SAVE:1:nope');
+
+    expect(result.success).toBe(true);
+    expect(failed.success).toBe(false);
+    const slots = await saves.listSaves();
+    expect(slots).toHaveLength(2);
+    expect(slots.find(slot => slot.id !== existing)?.name).toBe('Main (imported)');
+  });
+
+  it('keeps the journal out of the slot and puts it in exports', async () => {
+    const storage = new InMemoryAdapter();
+    const saves = new SaveSystem(storage, new ManualClock(0));
+    const journal = { startTime: 0, startState: clone(initialGameState), entries: [] };
+    const id = await saves.save(clone(initialGameState), {}, journal);
+
+    expect((await storage.load(`save:${id}`)).journal).toBeUndefined();
+    expect(await storage.load(`journal:${id}`)).toEqual(journal);
+
+    const exported = await decodeSave((await saves.exportSave(id))!);
+    expect(exported.success && exported.save.journal).toEqual(journal);
+  });
+});
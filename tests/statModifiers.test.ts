@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { initialGameState, GameState, StatModifier } from '../app/game/types';
+import {
+  addModifier,
+  applyModifiers,
+  getStatBreakdown,
+  recalculateStats,
+  removeModifiers
+} from '../app/game/core/StatModifiers';
+import { CombatConstants, ReactorConstants } from '../app/game/config/gameConstants';
+
+const clone = <T>(obj: T): T => JSON.parse(JSON.stringify(obj));
+
+const modifier = (type: StatModifier['type'], value: number): StatModifier => ({
+  source: 'test',
+  label: 'Test',
+  stat: 'categories.reactor.stats.energyPerSecond',
+  type,
+  value
+});
+
+describe('Stat modifiers', () => {
+  let state: GameState;
+
+  beforeEach(() => {
+    state = clone(initialGameState);
+    state.lastUpdate = 1_000_000;
+  });
+
+  it('applies flat, then percent, then multiplier modifiers', () => {
+    const value = applyModifiers(10, [
+      modifier('multiplier', 2),
+      modifier('percent', 0.5),
+      modifier('flat', 5),
+      modifier('percent', 0.5)
+    ]);
+
+    // (10 + 5) * (1 + 0.5 + 0.5) * 2
+    expect(value).toBe(60);
+  });
+
+  it('derives upgrade stats the way upgrades used to set them', () => {
+    state.categories.reactor.upgrades.reactorExpansions = 2;
+    state.categories.reactor.upgrades.energyConverters = 3;
+
+    recalculateStats(state);
+
+    expect(state.categories.reactor.stats.energyCapacity).toBeCloseTo(225);
+    expect(state.categories.reactor.stats.energyPerSecond).toBe(3 * ReactorConstants.ENERGY_PER_CONVERTER);
+  });
+
+  it('applies the current region to production rates', () => {
+    state.categories.reactor.upgrades.energyConverters = 2;
+    state.navigation.currentRegion = 'nebula';
+
+    recalculateStats(state);
+
+    expect(state.categories.reactor.stats.energyPerSecond).toBeCloseTo(3);
+    expect(state.categories.reactor.stats.energyCapacity).toBe(ReactorConstants.BASE_ENERGY_CAPACITY);
+  });
+
+  it('drops temporary modifiers once they expire in game time', () => {
+    addModifier(state, modifier('flat', 4), 10);
+    recalculateStats(state);
+    expect(state.categories.reactor.stats.energyPerSecond).toBe(4);
+
+    state.lastUpdate += 10_000;
+    recalculateStats(state);
+
+    expect(state.categories.reactor.stats.energyPerSecond).toBe(0);
+    expect(state.modifiers).toEqual([]);
+  });
+
+  it('replaces a stored modifier from the same source and removes by source', () => {
+    addModifier(state, modifier('flat', 4));
+    addModifier(state, modifier('flat', 6));
+    expect(state.modifiers).toHaveLength(1);
+
+    removeModifiers(state, 'test');
+    expect(state.modifiers).toEqual([]);
+  });
+
+  it('lets status effects lower a stat and clamps the current value', () => {
+    state.combat.active = true;
+    state.combat.playerStats.shield = CombatConstants.BASE_SHIELD_CAPACITY;
+    state.combat.playerStats.statusEffects = [{ type: 'STUN', duration: 2, magnitude: 0.5, remainingTurns: 2 }];
+
+    recalculateStats(state);
+
+    expect(state.combat.playerStats.maxShield).toBe(CombatConstants.BASE_SHIELD_CAPACITY / 2);
+    expect(state.combat.playerStats.shield).toBe(CombatConstants.BASE_SHIELD_CAPACITY / 2);
+  });
+
+  it('explains a stat with its base, modifiers in order and total', () => {
+    state.categories.reactor.upgrades.energyConverters = 2;
+    state.navigation.currentRegion = 'nebula';
+    addModifier(state, { ...modifier('percent', 0.5), label: 'Overclock' });
+
+    const breakdown = getStatBreakdown(state, 'categories.reactor.stats.energyPerSecond')!;
+
+    expect(breakdown.base).toBe(0);
+    expect(breakdown.modifiers.map(m => m.label)).toEqual(['Energy Converter x2', 'Overclock', 'Azure Nebula']);
+    expect(breakdown.value).toBeCloseTo(2 * 1.5 * 1.5);
+    expect(getStatBreakdown(state, 'categories.reactor.stats.unknown')).toBeUndefined();
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { StateHistory, diffStates } from '../app/game/core/StateHistory';
+import { StateStore } from '../app/game/core/StateStore';
+import { initialGameState, GameState } from '../app/game/types';
+
+const clone = <T>(obj: T): T => JSON.parse(JSON.stringify(obj));
+
+describe('StateHistory', () => {
+  let store: StateStore<GameState>;
+  let history: StateHistory;
+
+  const act = (label: string, energy: number) => {
+    store.mutate(draft => {
+      draft.categories.reactor.resources.energy = energy;
+    });
+    store.commit();
+    return history.record(label, store.getSnapshot(), 0);
+  };
+
+  beforeEach(() => {
+    store = new StateStore(clone(initialGameState));
+    history = new StateHistory(10);
+    history.record('start', store.getSnapshot(), 0);
+  });
+
+  it('steps backwards and forwards', () => {
+    act('a', 1);
+    act('b', 2);
+
+    expect(history.undo()?.label).toBe('a');
+    expect(history.undo()?.label).toBe('start');
+    expect(history.canUndo()).toBe(false);
+    expect(history.redo()?.label).toBe('a');
+    expect(history.redo()?.label).toBe('b');
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it('branches instead of discarding the old future', () => {
+    const a = act('a', 1);
+    const b = act('b', 2);
+    history.travelTo(a.id);
+    const c = act('c', 3);
+
+    expect(c.parentId).toBe(a.id);
+    expect(history.get(b.id)).not.toBeNull();
+    history.undo();
+    expect(history.redo()?.id).toBe(c.id);
+  });
+
+  it('drops the oldest entries past the limit', () => {
+    for (let i = 0; i < 15; i++) {
+      act(`step ${i}`, i);
+    }
+
+    expect(history.getEntries()).toHaveLength(10);
+    expect(history.getEntries()[0].parentId).toBeNull();
+  });
+
+  it('diffs two points in time', () => {
+    const a = act('a', 1);
+    const b = act('b', 5);
+
+    expect(diffStates(a.state, b.state)).toEqual([
+      { path: 'categories.reactor.resources.energy', before: 1, after: 5 }
+    ]);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { StateStore } from '../app/game/core/StateStore';
+import { EventBus } from '../app/game/core/EventBus';
+import { EventMap } from '../app/game/types/events';
+import { initialGameState, GameState } from '../app/game/types';
+import { GameSystemManager } from '../app/game/systems';
+
+const clone = <T>(obj: T): T => JSON.parse(JSON.stringify(obj));
+
+describe('StateStore', () => {
+  let store: StateStore<GameState>;
+
+  beforeEach(() => {
+    store = new StateStore(clone(initialGameState));
+  });
+
+  it('reports changed paths and shares untouched subtrees', () => {
+    const before = store.getSnapshot();
+
+    store.mutate(draft => {
+      draft.categories.reactor.resources.energy += 5;
+    });
+    const changedPaths = store.commit();
+    const after = store.getSnapshot();
+
+    expect(changedPaths).toEqual(['categories.reactor.resources.energy']);
+    expect(after).not.toBe(before);
+    expect(after.categories.reactor).not.toBe(before.categories.reactor);
+    expect(after.categories.processor).toBe(before.categories.processor);
+    expect(after.combat).toBe(before.combat);
+    expect(after.categories.reactor.resources.energy).toBe(before.categories.reactor.resources.energy + 5);
+  });
+
+  it('publishes frozen snapshots', () => {
+    const snapshot = store.getSnapshot();
+
+    expect(Object.isFrozen(snapshot)).toBe(true);
+    expect(Object.isFrozen(snapshot.categories.reactor.resources)).toBe(true);
+  });
+
+  it('returns no paths when nothing changed', () => {
+    const before = store.getSnapshot();
+
+    store.mutate(draft => {
+      draft.categories.reactor.resources.energy = draft.categories.reactor.resources.energy;
+    });
+
+    expect(store.commit()).toEqual([]);
+    expect(store.getSnapshot()).toBe(before);
+  });
+
+  it('reports array writes against the array and collapses nested paths', () => {
+    store.mutate(draft => {
+      draft.combat.battleLog.push({ id: 'a', timestamp: 0, text: 'hit', type: 'PLAYER' });
+      draft.combat = { ...draft.combat, turn: 2 };
+      draft.combat.active = true;
+    });
+
+    expect(store.commit()).toEqual(['combat']);
+    expect(store.getSnapshot().combat.battleLog).toHaveLength(1);
+    expect(store.getSnapshot().combat.turn).toBe(2);
+  });
+
+  it('adopts a replacement root returned from the recipe', () => {
+    const before = store.getSnapshot();
+
+    store.mutate(draft => ({ ...draft, lastUpdate: 123 }));
+
+    expect(store.commit()).toEqual(['lastUpdate']);
+    expect(store.getSnapshot().lastUpdate).toBe(123);
+    expect(store.getSnapshot().categories).toBe(before.categories);
+  });
+
+  it('keeps earlier snapshots unchanged by later mutations', () => {
+    const before = store.getSnapshot();
+
+    store.mutate(draft => {
+      draft.categories.reactor.resources.energy = 999;
+    });
+    store.commit();
+
+    expect(before.categories.reactor.resources.energy).toBe(initialGameState.categories.reactor.resources.energy);
+  });
+
+  it('tracks changes made by game systems through actions', () => {
+    const systems = new GameSystemManager(new EventBus<EventMap>());
+    store.mutate(draft => {
+      draft.categories.reactor.resources.energy = 200;
+    });
+    store.commit();
+
+    store.mutate(draft => systems.processAction(draft, {
+      type: 'PURCHASE_UPGRADE',
+      payload: { category: 'reactor', upgradeType: 'reactorExpansions' }
+    } as any));
+    const changedPaths = store.commit();
+    const snapshot = store.getSnapshot();
+
+    expect(snapshot.categories.reactor.upgrades.reactorExpansions).toBe(1);
+    expect(snapshot.categories.reactor.resources.energy).toBeLessThan(200);
+    expect(changedPaths).toContain('categories.reactor.upgrades.reactorExpansions');
+    expect(changedPaths.every(path => !path.startsWith('combat'))).toBe(true);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { InMemoryAdapter } from '../app/game/core/storage/InMemoryAdapter';
+import { FileSystemAdapter } from '../app/game/core/storage/FileSystemAdapter';
+import { describeStorageAdapter } from './helpers/storageAdapterConformance';
+
+const createTempDirectory = () => fs.mkdtemp(path.join(os.tmpdir(), 'derelict-dawn-'));
+
+describeStorageAdapter('InMemoryAdapter', () => new InMemoryAdapter());
+
+let conformanceDirectory = '';
+describeStorageAdapter(
+  'FileSystemAdapter',
+  async () => {
+    conformanceDirectory = await createTempDirectory();
+    // A directory that does not exist yet is created on the first write
+    return new FileSystemAdapter(path.join(conformanceDirectory, 'saves'));
+  },
+  () => fs.rm(conformanceDirectory, { recursive: true, force: true })
+);
+
+describe('FileSystemAdapter', () => {
+  let directory: string;
+  let adapter: FileSystemAdapter;
+
+  beforeEach(async () => {
+    directory = await createTempDirectory();
+    adapter = new FileSystemAdapter(directory);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('keeps saves for the next adapter on the same directory', async () => {
+    await adapter.save('save:a1', { energy: 1 });
+
+    expect(await new FileSystemAdapter(directory).load('save:a1')).toEqual({ energy: 1 });
+  });
+
+  it('leaves one complete file when writes to a key overlap', async () => {
+    await Promise.all([1, 2, 3, 4, 5].map(energy => adapter.save('save:a1', { energy })));
+
+    expect(await fs.readdir(directory)).toEqual(['save%3Aa1.json']);
+    expect((await adapter.load('save:a1')).energy).toBeGreaterThan(0);
+  });
+
+  it('keeps the previous value when a write fails', async () => {
+    await adapter.save('save:a1', { energy: 1 });
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+
+    await expect(adapter.save('save:a1', circular)).rejects.toThrow();
+
+    expect(await adapter.load('save:a1')).toEqual({ energy: 1 });
+    expect(await fs.readdir(directory)).toEqual(['save%3Aa1.json']);
+  });
+
+  it('ignores files it did not write', async () => {
+    await fs.writeFile(path.join(directory, 'notes.txt'), 'hello');
+    await adapter.save('save:a1', { energy: 1 });
+
+    expect(await adapter.getAllKeys()).toEqual(['save:a1']);
+  });
+});
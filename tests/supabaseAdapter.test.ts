@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createClient } from '@supabase/supabase-js';
+import { SupabaseAdapter } from '../app/game/core/storage/SupabaseAdapter';
+import { SaveSystem } from '../app/game/core/SaveSystem';
+import { ManualClock } from '../app/game/core/Clock';
+import { initialGameState } from '../app/game/types';
+
+const USER_ID = '00000000-0000-0000-0000-000000000001';
+
+type Row = Record<string, unknown>;
+
+/**
+ * Just enough of PostgREST to back the game_saves tables:
+ * eq filters, column selection, upserts and deletes
+ */
+class FakePostgrest {
+  tables: Record<string, Row[]> = { game_saves: [], game_save_pointers: [] };
+  requests: string[] = [];
+  // Statuses to answer with before serving requests normally; 0 simulates a network failure
+  failures: number[] = [];
+
+  private primaryKeys: Record<string, string> = { game_saves: 'id', game_save_pointers: 'user_id' };
+
+  fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = new URL(input.toString());
+    const method = init?.method || 'GET';
+    const table = url.pathname.split('/').pop()!;
+    this.requests.push(`${method} ${table}`);
+
+    const failure = this.failures.shift();
+    if (failure === 0) throw new TypeError('fetch failed');
+    if (failure) return new Response(JSON.stringify({ message: `status ${failure}` }), { status: failure });
+
+    const filters = Array.from(url.searchParams.entries())
+      .filter(([, value]) => value.startsWith('eq.'))
+      .map(([column, value]) => [column, value.slice(3)]);
+    const matches = (row: Row) => filters.every(([column, value]) => String(row[column]) === value);
+    const rows = this.tables[table];
+
+    if (method === 'GET') {
+      const columns = url.searchParams.get('select') || '*';
+      const result = rows.filter(matches).map(row => columns === '*'
+        ? row
+        : Object.fromEntries(columns.split(',').map(column => [column, row[column]])));
+      return new Response(JSON.stringify(result), { status: 200 });
+    }
+
+    if (method === 'POST') {
+      const key = this.primaryKeys[table];
+      const incoming: Row[] = [].concat(JSON.parse(init!.body as string));
+      incoming.forEach(row => {
+        const index = rows.findIndex(existing => existing[key] === row[key]);
+        if (index >= 0) rows[index] = { ...rows[index], ...row };
+        else rows.push(row);
+      });
+      return new Response(null, { status: 201 });
+    }
+
+    if (method === 'DELETE') {
+      this.tables[table] = rows.filter(row => !matches(row));
+      return new Response(null, { status: 204 });
+    }
+
+    return new Response('', { status: 405 });
+  };
+}
+
+describe('SupabaseAdapter', () => {
+  let server: FakePostgrest;
+  let adapter: SupabaseAdapter;
+
+  const saveData = (energy: number) => {
+    const state = JSON.parse(JSON.stringify(initialGameState));
+    state.categories.reactor.resources.energy = energy;
+    return {
+      id: 'a1',
+      version: 2,
+      timestamp: Date.UTC(2025, 0, 1),
+      state,
+      metadata: { playTime: 5, lastPlayed: '2025-01-01' }
+    };
+  };
+
+  beforeEach(() => {
+    server = new FakePostgrest();
+    const client = createClient('http://localhost:54321', 'anon-key', {
+      global: { fetch: server.fetch },
+      auth: { persistSession: false }
+    });
+    adapter = new SupabaseAdapter(client, USER_ID, { retryDelayMs: 0 });
+  });
+
+  it('maps save keys and the current save pointer onto their tables', async () => {
+    await adapter.save('save:a1', saveData(7));
+    await adapter.save('currentSave', 'a1');
+
+    expect(server.tables.game_saves[0]).toMatchObject({
+      id: 'a1',
+      user_id: USER_ID,
+      version: '2',
+      timestamp: '2025-01-01T00:00:00.000Z'
+    });
+    expect(server.tables.game_save_pointers).toEqual([{ user_id: USER_ID, current_save_id: 'a1' }]);
+
+    expect(await adapter.load('currentSave')).toBe('a1');
+    expect(await adapter.load('save:a1')).toEqual(saveData(7));
+    expect(await adapter.load('save:missing')).toBeNull();
+    expect(await adapter.getAllKeys()).toEqual(['save:a1']);
+  });
+
+  it('deletes saves but never the pointer', async () => {
+    await adapter.save('save:a1', saveData(1));
+    await adapter.save('currentSave', 'a1');
+
+    await adapter.delete('save:a1');
+    await adapter.delete('currentSave');
+
+    expect(server.tables.game_saves).toHaveLength(0);
+    expect(server.tables.game_save_pointers).toHaveLength(1);
+  });
+
+  it('retries network and server errors but not permission errors', async () => {
+    server.failures = [0, 503];
+    await adapter.save('save:a1', saveData(1));
+    expect(server.tables.game_saves).toHaveLength(1);
+
+    server.failures = [403];
+    await expect(adapter.save('save:a1', saveData(2))).rejects.toThrow('403');
+    server.failures = [403];
+    expect(await adapter.load('save:a1')).toBeNull();
+    expect(server.requests.filter(request => request.startsWith('POST'))).toHaveLength(4);
+  });
+
+  it('only sends the newest of several writes queued behind a slow one', async () => {
+    const first = adapter.save('save:a1', saveData(1));
+    const second = adapter.save('save:a1', saveData(2));
+    const third = adapter.save('save:a1', saveData(3));
+    await Promise.all([first, second, third]);
+
+    expect(server.requests).toEqual(['POST game_saves', 'POST game_saves']);
+    expect((server.tables.game_saves[0].state as any).categories.reactor.resources.energy).toBe(3);
+  });
+
+  it('backs a SaveSystem', async () => {
+    const saves = new SaveSystem(adapter, new ManualClock(Date.UTC(2025, 0, 1)));
+    const id = await saves.save(saveData(9).state);
+
+    const reloaded = new SaveSystem(adapter, new ManualClock(0));
+    await reloaded.init();
+
+    expect((await reloaded.load())?.state.categories.reactor.resources.energy).toBe(9);
+    expect(reloaded.getCurrentSaveId()).toBe(id);
+  });
+});
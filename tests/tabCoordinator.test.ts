@@ -0,0 +1,260 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TabChannel, TabCoordinator, TabMessage } from '../app/game/core/TabCoordinator';
+import { GameEngine } from '../app/game/core/GameEngine';
+import { ManualClock } from '../app/game/core/Clock';
+import { ManualScheduler } from '../app/game/core/Scheduler';
+import { createStateCache } from '../app/game/core/memoryCache';
+import { InMemoryAdapter } from '../app/game/core/storage/InMemoryAdapter';
+
+const TIMEOUTS = { responseTimeoutMs: 20, handoverTimeoutMs: 100 };
+
+/**
+ * Connects channels like tabs of one browser: messages arrive
+ * asynchronously in every other tab
+ */
+class ChannelHub {
+  private listeners = new Map<object, (message: TabMessage) => void>();
+
+  createChannel(): TabChannel {
+    const tab = {};
+    return {
+      post: message => {
+        this.listeners.forEach((listener, other) => {
+          if (other !== tab) setTimeout(() => listener(message), 0);
+        });
+      },
+      subscribe: listener => {
+        this.listeners.set(tab, listener);
+        return () => this.listeners.delete(tab);
+      },
+      close: () => this.listeners.delete(tab)
+    };
+  }
+}
+
+describe('TabCoordinator', () => {
+  let hub: ChannelHub;
+
+  const createTab = () => new TabCoordinator(hub.createChannel(), TIMEOUTS);
+
+  beforeEach(() => {
+    hub = new ChannelHub();
+  });
+
+  it('lets the first tab own the game and the next one watch', async () => {
+    const first = createTab();
+    const second = createTab();
+
+    expect(await first.connect()).toBe(true);
+    expect(await second.connect()).toBe(false);
+  });
+
+  it('waits for the same join when connected twice', async () => {
+    const tab = createTab();
+
+    const [first, again] = await Promise.all([tab.connect(), tab.connect()]);
+
+    expect(first).toBe(true);
+    expect(again).toBe(true);
+  });
+
+  it('has the owner finish its work before handing over', async () => {
+    const first = createTab();
+    const second = createTab();
+    await first.connect();
+    await second.connect();
+
+    const events: string[] = [];
+    first.setReleaseHandler(async () => { events.push('final save'); });
+    first.onOwnershipChange(isOwner => events.push(`first owns: ${isOwner}`));
+    second.onOwnershipChange(isOwner => events.push(`second owns: ${isOwner}`));
+
+    await second.takeOver();
+
+    expect(events).toEqual(['final save', 'first owns: false', 'second owns: true']);
+    expect(first.isOwner()).toBe(false);
+    expect(second.isOwner()).toBe(true);
+  });
+
+  it('takes over without waiting once the owner has closed', async () => {
+    const first = createTab();
+    const second = createTab();
+    await first.connect();
+    await second.connect();
+
+    first.disconnect();
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    const startedAt = Date.now();
+    await second.takeOver();
+
+    expect(second.isOwner()).toBe(true);
+    expect(Date.now() - startedAt).toBeLessThan(TIMEOUTS.handoverTimeoutMs);
+  });
+
+  it('takes over after a timeout when the owner does not answer', async () => {
+    const first = createTab();
+    const second = createTab();
+    await first.connect();
+    await second.connect();
+
+    // The owning tab is frozen and never finishes its release
+    first.setReleaseHandler(() => new Promise(() => undefined));
+
+    await second.takeOver();
+
+    expect(second.isOwner()).toBe(true);
+  });
+
+  it('leaves a single owner when two tabs open at the same moment', async () => {
+    const tabs = [createTab(), createTab(), createTab()];
+
+    await Promise.all(tabs.map(tab => tab.connect()));
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(tabs.filter(tab => tab.isOwner())).toHaveLength(1);
+  });
+});
+
+describe('GameEngine across tabs', () => {
+  let hub: ChannelHub;
+  let clock: ManualClock;
+  let storage: InMemoryAdapter;
+  let engines: GameEngine[];
+
+  const createEngine = (tabs = new TabCoordinator(hub.createChannel(), TIMEOUTS)) => {
+    const engine = new GameEngine({
+      clock,
+      scheduler: new ManualScheduler(),
+      storage,
+      stateCache: createStateCache(),
+      history: false,
+      tabs
+    });
+    engines.push(engine);
+    return engine;
+  };
+
+  beforeEach(() => {
+    hub = new ChannelHub();
+    clock = new ManualClock(1_000_000);
+    storage = new InMemoryAdapter();
+    engines = [];
+  });
+
+  afterEach(() => {
+    engines.forEach(engine => engine.stop());
+    vi.unstubAllGlobals();
+  });
+
+  /**
+   * Run a step as if in a page of its own, so the listeners it adds to
+   * the window belong to that page
+   */
+  const inPage = async <T>(page: EventTarget, step: () => Promise<T>): Promise<T> => {
+    vi.stubGlobal('window', page);
+    try {
+      return await step();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  };
+
+  const closePage = (page: EventTarget) => {
+    page.dispatchEvent(Object.assign(new Event('pagehide'), { persisted: false }));
+  };
+
+  it('frees the game when a tab that took over is closed', async () => {
+    const pageA = new EventTarget();
+    const pageB = new EventTarget();
+    const secondTabs = new TabCoordinator(hub.createChannel(), TIMEOUTS);
+    const first = createEngine();
+    const second = createEngine(secondTabs);
+    await inPage(pageA, () => first.initialize());
+    await inPage(pageB, () => second.initialize());
+
+    await inPage(pageB, () => second.takeOver());
+    expect(second.isActiveTab()).toBe(true);
+
+    closePage(pageB);
+    // A closed page can no longer answer a takeover
+    secondTabs.setReleaseHandler(() => new Promise(() => undefined));
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    const startedAt = Date.now();
+    await inPage(pageA, () => first.takeOver());
+
+    expect(first.isActiveTab()).toBe(true);
+    expect(Date.now() - startedAt).toBeLessThan(TIMEOUTS.handoverTimeoutMs);
+  });
+
+  it('saves before freeing the game when its page is closed', async () => {
+    const page = new EventTarget();
+    const firstTabs = new TabCoordinator(hub.createChannel(), TIMEOUTS);
+    const first = createEngine(firstTabs);
+    await inPage(page, () => first.initialize());
+    first.dispatch({ type: 'CLICK_RESOURCE', payload: { category: 'reactor' } });
+
+    let statusOnRelease = '';
+    const disconnect = firstTabs.disconnect.bind(firstTabs);
+    firstTabs.disconnect = () => {
+      statusOnRelease = first.getSaveStatus().status;
+      disconnect();
+    };
+
+    closePage(page);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    expect(statusOnRelease).toBe('saved');
+
+    const second = createEngine();
+    await second.initialize();
+    expect(second.isActiveTab()).toBe(true);
+    expect(second.getState().categories.reactor.resources.energy).toBe(1);
+  });
+
+  it('never writes saves from a tab that only watches', async () => {
+    const first = createEngine();
+    await first.initialize();
+    first.dispatch({ type: 'CLICK_RESOURCE', payload: { category: 'reactor' } });
+    const id = await first.saveGame();
+    first.dispatch({ type: 'CLICK_RESOURCE', payload: { category: 'reactor' } });
+
+    const second = createEngine();
+    await second.initialize();
+    const stored = await storage.load(`save:${id}`);
+
+    await expect(second.saveGame()).rejects.toThrow('another tab');
+    await expect(second.newGame('Elsewhere')).rejects.toThrow('another tab');
+    await expect(second.restoreBackup(id, stored.timestamp)).rejects.toThrow('another tab');
+    expect(await second.exportSave()).toBeTruthy();
+
+    expect(await storage.load(`save:${id}`)).toEqual(stored);
+    expect(await second.listSaves()).toHaveLength(1);
+  });
+
+  it('keeps a second tab read-only until it takes over from the final save', async () => {
+    const first = createEngine();
+    await first.initialize();
+    first.dispatch({ type: 'CLICK_RESOURCE', payload: { category: 'reactor' } });
+    await first.saveGame();
+
+    const second = createEngine();
+    await second.initialize();
+    expect(second.isActiveTab()).toBe(false);
+    expect(second.getState().categories.reactor.resources.energy).toBe(1);
+
+    second.dispatch({ type: 'CLICK_RESOURCE', payload: { category: 'reactor' } });
+    expect(second.getState().categories.reactor.resources.energy).toBe(1);
+
+    // Unsaved progress in the first tab survives the handover
+    first.dispatch({ type: 'CLICK_RESOURCE', payload: { category: 'reactor' } });
+    await second.takeOver();
+
+    expect(first.isActiveTab()).toBe(false);
+    expect(second.isActiveTab()).toBe(true);
+    expect(second.getState().categories.reactor.resources.energy).toBe(2);
+
+    second.dispatch({ type: 'CLICK_RESOURCE', payload: { category: 'reactor' } });
+    expect(second.getState().categories.reactor.resources.energy).toBe(3);
+  });
+});